@@ -0,0 +1,39 @@
+/**
+ * MathField Component Tests
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, createRef } from 'react';
+import { createRoot, Root } from 'react-dom/client';
+import { MathField, MathFieldRef } from './math-field';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let root: Root | null = null;
+
+afterEach(() => {
+  act(() => root?.unmount());
+  root = null;
+});
+
+describe('MathField', () => {
+  it('keeps undo history when re-rendered with equal options passed inline', () => {
+    const ref = createRef<MathFieldRef>();
+    const render = () =>
+      root!.render(
+        <MathField ref={ref} value="x" macros={{ '\\R': '\\mathbb{R}' }} functions={['sgn']} preserveSource />
+      );
+
+    root = createRoot(document.createElement('div'));
+    act(render);
+    act(() => ref.current!.insert('y'));
+    expect(ref.current!.getLatex()).toBe('yx');
+    expect(ref.current!.canUndo()).toBe(true);
+
+    act(render);
+    expect(ref.current!.getLatex()).toBe('yx');
+    expect(ref.current!.canUndo()).toBe(true);
+  });
+});
@@ -12,13 +12,18 @@ import React, {
   useState,
   useEffect,
   useCallback,
+  useMemo,
   forwardRef,
   useImperativeHandle,
   useId,
 } from 'react';
 import { renderToString, RenderOptions } from '../renderer/katex-renderer';
-import { parseLatex } from '../parser/latex-to-ast';
+import { parseLatexWithDiagnostics, ParseDiagnostic } from '../parser/latex-to-ast';
 import { serializeToLatex } from '../parser/ast-to-latex';
+import { serializeToUnicode } from '../parser/ast-to-unicode';
+import { parseAsciiMath, isLatexSource } from '../parser/asciimath';
+import { styleCharacters } from '../parser/symbols';
+import { isFunctionCommand, LARGE_OPERATORS, LIMIT_FUNCTIONS } from '../parser/functions';
 import {
   createEmptyState,
   createStateFromAST,
@@ -37,12 +42,32 @@ import {
   insertCharacter,
   insertOperator,
   insertFraction,
+  cycleFractionStyle,
+  insertBinomial,
+  insertMixedNumber,
+  insertRepeatingDecimal,
   insertSqrt,
+  insertNthRoot,
   insertParens,
   insertSuperscript,
   insertSubscript,
+  insertPrime,
+  insertAccent,
+  insertFont,
+  applyColor,
+  insertOverUnder,
+  insertNode,
   insertMatrix,
   MatrixStyle,
+  insertCases,
+  addCaseRow,
+  removeCaseRow,
+  insertAligned,
+  insertLineBreak,
+  insertAlignmentPoint,
+  insertFunction,
+  insertLargeOperator,
+  type LargeOperatorName,
 } from '../core/commands/insert';
 import {
   moveLeft,
@@ -54,11 +79,14 @@ import {
   selectAll,
   moveToNextPlaceholder,
   moveToPreviousPlaceholder,
+  moveToNextCell,
+  moveToPreviousCell,
 } from '../core/commands/navigate';
+import { tryCommands } from '../core/commands/types';
 import { deleteBackward, deleteForward } from '../core/commands/delete';
 import { isCollapsed, collapsedSelection, extractSelectedNodes } from '../core/selection';
-import { cursor } from '../core/cursor';
-import { MathNode, node as nodeBuilder } from '../core/ast';
+import { cursor, getNodeAtPath, getChildNodes, findAncestorOfKind } from '../core/cursor';
+import { MathNode, Delimiter, AccentNode, FontNode, OverUnderNode, CasesNode, AlignedNode, node as nodeBuilder } from '../core/ast';
 import '../styles/math-field.css';
 
 // =============================================================================
@@ -72,8 +100,20 @@ export interface MathFieldProps {
   onChange?: (latex: string) => void;
   /** Callback when selection changes */
   onSelectionChange?: (selection: { start: number; end: number }) => void;
+  /** Called when a value could only be partially parsed (broken parts show as errors) */
+  onParseError?: (diagnostics: readonly ParseDiagnostic[]) => void;
   /** Placeholder text when empty */
   placeholder?: string;
+  /** Allow Enter to start a new line (the value becomes \begin{aligned}...\end{aligned}) */
+  multiline?: boolean;
+  /** Typing / right after a whole number makes a mixed number (2 ¾) instead of a fraction */
+  mixedNumbers?: boolean;
+  /** Extra function names to treat like \sin (e.g. ['sgn'] to read and write \sgn) */
+  functions?: readonly string[];
+  /** Macros as for KaTeX (e.g. commonMacros); uses stay macros in the value. Defaults to katexOptions.macros */
+  macros?: Record<string, string>;
+  /** Keep the value's original spelling (\le, x^2, ...) for everything not edited, so saving an untouched value changes nothing */
+  preserveSource?: boolean;
   /** Whether the field is read-only */
   readOnly?: boolean;
   /** Whether the field is disabled */
@@ -115,6 +155,34 @@ export interface MathFieldRef {
   canRedo: () => boolean;
 }
 
+// =============================================================================
+// Helpers
+// =============================================================================
+
+// Clipboard type the LaTeX of a copy travels in, beside the text/plain rendering
+const LATEX_MIME_TYPE = 'application/x-tex';
+
+// Glyphs drawn for large operators in the edit view
+const LARGE_OPERATOR_SYMBOLS: Record<string, string> = {
+  sum: '∑', prod: '∏', coprod: '∐',
+  int: '∫', iint: '∬', iiint: '∭', oint: '∮',
+  bigcup: '⋃', bigcap: '⋂', bigoplus: '⨁', bigotimes: '⨂', bigvee: '⋁', bigwedge: '⋀',
+};
+
+// Glyphs drawn for parens delimiters; the invisible '.' draws nothing
+const DELIMITER_GLYPHS: Record<Delimiter, string> = {
+  '(': '(', ')': ')', '[': '[', ']': ']', '{': '{', '}': '}', '|': '|', '\\|': '‖',
+  '\\langle': '⟨', '\\rangle': '⟩', '\\lfloor': '⌊', '\\rfloor': '⌋', '\\lceil': '⌈', '\\rceil': '⌉',
+  '/': '/', '\\backslash': '\\', '\\uparrow': '↑', '\\downarrow': '↓', '\\updownarrow': '↕',
+  '\\Uparrow': '⇑', '\\Downarrow': '⇓', '\\Updownarrow': '⇕',
+  '\\lgroup': '⟮', '\\rgroup': '⟯', '\\lmoustache': '⎰', '\\rmoustache': '⎱',
+  '\\ulcorner': '⌜', '\\urcorner': '⌝', '\\llcorner': '⌞', '\\lrcorner': '⌟',
+  '.': '',
+};
+
+// Operators whose limits sit to the right as scripts rather than stacked
+const SCRIPT_LIMIT_OPERATORS = new Set(['int', 'iint', 'iiint', 'oint']);
+
 // =============================================================================
 // Component
 // =============================================================================
@@ -125,7 +193,13 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
       value: controlledValue,
       onChange,
       onSelectionChange,
+      onParseError,
       placeholder = 'Enter math...',
+      multiline = false,
+      mixedNumbers = false,
+      preserveSource = false,
+      functions,
+      macros,
       readOnly = false,
       disabled = false,
       autoFocus = false,
@@ -144,22 +218,33 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
     const uniqueId = useId();
     const descriptionId = `pmf-description-${uniqueId}`;
 
+    // Macros are shown and kept the same way MathDisplay renders them
+    const macroTable = macros ?? katexOptions?.macros;
+    const parseOptions = useMemo(
+      () => ({ functions, macros: macroTable, preserveSource }),
+      [functions, macroTable, preserveSource]
+    );
+
     // State
     const [focused, setFocused] = useState(false);
+    // Diagnostics from parsing the initial value, reported once mounted
+    const initialDiagnosticsRef = useRef<readonly ParseDiagnostic[]>([]);
     const [history, setHistory] = useState<History>(() => {
-      const initialState = controlledValue
-        ? createStateFromAST(parseLatex(controlledValue))
-        : createEmptyState();
-      return createHistory(initialState);
+      if (!controlledValue) {
+        return createHistory(createEmptyState());
+      }
+      const { ast, diagnostics } = parseLatexWithDiagnostics(controlledValue, parseOptions);
+      initialDiagnosticsRef.current = diagnostics;
+      return createHistory(createStateFromAST(ast));
     });
 
     const state = history.present;
 
     // Derived state
     // Internal latex (with placeholders) for controlled value sync
-    const internalLatex = serializeToLatex(state.root);
+    const internalLatex = serializeToLatex(state.root, { functions, preserveSource });
     // External latex (without placeholders) for onChange and getLatex
-    const latex = serializeToLatex(state.root, { includePlaceholders: false });
+    const latex = serializeToLatex(state.root, { includePlaceholders: false, functions, preserveSource });
     const isFieldEmpty = isEmpty(state);
     const cursorPos = state.selection.focus;
     const hasSelection = !isCollapsed(state.selection);
@@ -169,17 +254,34 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
     const latexRef = useRef(latex);
     latexRef.current = latex;
 
+    // Keep the latest callback without re-running effects when it changes
+    const onParseErrorRef = useRef(onParseError);
+    onParseErrorRef.current = onParseError;
+
+    // Latest parse options, so options passed inline don't reload the value (and its history)
+    const parseOptionsRef = useRef(parseOptions);
+    parseOptionsRef.current = parseOptions;
+
+    // Parse external LaTeX, keeping whatever can be recovered from broken input
+    const loadLatex = useCallback((source: string) => {
+      const { ast, diagnostics } = parseLatexWithDiagnostics(source, parseOptionsRef.current);
+      setHistory(createHistory(createStateFromAST(ast)));
+      if (diagnostics.length > 0) {
+        onParseErrorRef.current?.(diagnostics);
+      }
+    }, []);
+
+    useEffect(() => {
+      if (initialDiagnosticsRef.current.length > 0) {
+        onParseErrorRef.current?.(initialDiagnosticsRef.current);
+      }
+    }, []);
+
     useEffect(() => {
       if (controlledValue !== undefined && controlledValue !== latexRef.current) {
-        try {
-          const ast = parseLatex(controlledValue);
-          const newState = createStateFromAST(ast);
-          setHistory(createHistory(newState));
-        } catch (e) {
-          // Invalid LaTeX, ignore
-        }
+        loadLatex(controlledValue);
       }
-    }, [controlledValue]);
+    }, [controlledValue, loadLatex]);
 
     // Notify parent of changes
     useEffect(() => {
@@ -200,8 +302,18 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
               return 1;
             case 'fraction':
               return 1 + countAtomsInNode(node.numerator) + countAtomsInNode(node.denominator);
+            case 'mixedNumber':
+              return countAtomsInNode(node.whole) + 1 + countAtomsInNode(node.numerator) + countAtomsInNode(node.denominator);
+            case 'repeatingDecimal':
+              return countAtomsInNode(node.decimal) + countAtomsInNode(node.repetend);
+            case 'binom':
+              return 2 + countAtomsInNode(node.top) + countAtomsInNode(node.bottom); // 2 for parens
             case 'power':
               return countAtomsInNode(node.base) + countAtomsInNode(node.exponent);
+            case 'prime':
+              return countAtomsInNode(node.base) + node.count;
+            case 'function':
+              return 1 + getChildNodes(node).reduce((sum, child) => sum + countAtomsInNode(child), 0);
             case 'subscript':
               return countAtomsInNode(node.base) + countAtomsInNode(node.subscript);
             case 'subsup':
@@ -210,6 +322,17 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
               return 1 + countAtomsInNode(node.radicand) + (node.index ? countAtomsInNode(node.index) : 0);
             case 'parens':
               return 2 + countAtomsInNode(node.content); // 2 for delimiters
+            case 'accent':
+            case 'font':
+              return 1 + countAtomsInNode(node.body);
+            case 'color':
+              return countAtomsInNode(node.body); // color adds no atoms of its own
+            case 'overunder':
+              return 1 + getChildNodes(node).reduce((sum, child) => sum + countAtomsInNode(child), 0);
+            case 'cases':
+              return 1 + node.rows.flat().reduce((sum, cell) => sum + countAtomsInNode(cell), 0); // 1 for the brace
+            case 'aligned':
+              return node.rows.flat().reduce((sum, cell) => sum + countAtomsInNode(cell), 0);
             default:
               return 1;
           }
@@ -258,6 +381,46 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
               return sum;
             }
 
+            case 'mixedNumber': {
+              // childIdx 0 = whole, then the fraction: 1 = numerator, 2 = denominator
+              let sum = 0;
+              if (childIdx === 0) {
+                sum += countBeforePosition(node.whole, path, offset, depth + 1);
+              } else if (childIdx === 1) {
+                sum += countAtomsInNode(node.whole);
+                sum += countBeforePosition(node.numerator, path, offset, depth + 1);
+              } else if (childIdx === 2) {
+                sum += countAtomsInNode(node.whole);
+                sum += countAtomsInNode(node.numerator);
+                sum += countBeforePosition(node.denominator, path, offset, depth + 1);
+              }
+              return sum;
+            }
+
+            case 'repeatingDecimal': {
+              // childIdx 0 = decimal, childIdx 1 = repeating block
+              let sum = 0;
+              if (childIdx === 0) {
+                sum += countBeforePosition(node.decimal, path, offset, depth + 1);
+              } else if (childIdx === 1) {
+                sum += countAtomsInNode(node.decimal);
+                sum += countBeforePosition(node.repetend, path, offset, depth + 1);
+              }
+              return sum;
+            }
+
+            case 'binom': {
+              // childIdx 0 = top, childIdx 1 = bottom; count 1 for the opening paren
+              let sum = 1;
+              if (childIdx === 0) {
+                sum += countBeforePosition(node.top, path, offset, depth + 1);
+              } else if (childIdx === 1) {
+                sum += countAtomsInNode(node.top);
+                sum += countBeforePosition(node.bottom, path, offset, depth + 1);
+              }
+              return sum;
+            }
+
             case 'power': {
               // childIdx 0 = base, childIdx 1 = exponent
               let sum = 0;
@@ -270,6 +433,10 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
               return sum;
             }
 
+            case 'prime':
+              // childIdx 0 = base; the marks follow it
+              return childIdx === 0 ? countBeforePosition(node.base, path, offset, depth + 1) : 0;
+
             case 'subscript': {
               let sum = 0;
               if (childIdx === 0) {
@@ -298,12 +465,12 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
             }
 
             case 'sqrt': {
-              // childIdx 0 = radicand, childIdx 1 = index (if present)
+              // childIdx 0 = radicand, childIdx 1 = index (if present), drawn before the radicand
               let sum = 0;
               if (childIdx === 0) {
+                sum += node.index ? countAtomsInNode(node.index) : 0;
                 sum += countBeforePosition(node.radicand, path, offset, depth + 1);
               } else if (childIdx === 1 && node.index) {
-                sum += countAtomsInNode(node.radicand);
                 sum += countBeforePosition(node.index, path, offset, depth + 1);
               }
               return sum;
@@ -319,6 +486,26 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
               return sum;
             }
 
+            case 'accent':
+            case 'font':
+            case 'color': {
+              // childIdx 0 = body
+              return childIdx === 0 ? countBeforePosition(node.body, path, offset, depth + 1) : 0;
+            }
+
+            case 'overunder': {
+              // Children are [body, over?, under?]; count the ones before childIdx
+              const children = getChildNodes(node);
+              let sum = 0;
+              for (let i = 0; i < childIdx && i < children.length; i++) {
+                sum += countAtomsInNode(children[i]);
+              }
+              if (childIdx < children.length) {
+                sum += countBeforePosition(children[childIdx], path, offset, depth + 1);
+              }
+              return sum;
+            }
+
             case 'matrix': {
               // Matrix cells are accessed by flat index
               // childIdx is the cell index (row * cols + col)
@@ -339,6 +526,45 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
               return sum;
             }
 
+            case 'cases': {
+              // Cells are flattened as [value, condition] per row; count 1 for the brace
+              const cells = node.rows.flat();
+              let sum = 1;
+              for (let i = 0; i < childIdx && i < cells.length; i++) {
+                sum += countAtomsInNode(cells[i]);
+              }
+              if (childIdx < cells.length) {
+                sum += countBeforePosition(cells[childIdx], path, offset, depth + 1);
+              }
+              return sum;
+            }
+
+            case 'function': {
+              // The name, then [argument?, lower?, upper?]
+              const children = getChildNodes(node);
+              let sum = 1;
+              for (let i = 0; i < childIdx && i < children.length; i++) {
+                sum += countAtomsInNode(children[i]);
+              }
+              if (childIdx < children.length) {
+                sum += countBeforePosition(children[childIdx], path, offset, depth + 1);
+              }
+              return sum;
+            }
+
+            case 'aligned': {
+              // Cells in reading order across lines
+              const cells = node.rows.flat();
+              let sum = 0;
+              for (let i = 0; i < childIdx && i < cells.length; i++) {
+                sum += countAtomsInNode(cells[i]);
+              }
+              if (childIdx < cells.length) {
+                sum += countBeforePosition(cells[childIdx], path, offset, depth + 1);
+              }
+              return sum;
+            }
+
             default:
               return 0;
           }
@@ -397,31 +623,30 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
     // Keyboard Handling
     // ==========================================================================
 
-    // Copy LaTeX to clipboard
-    const handleCopy = useCallback(() => {
-      const { root, selection } = state;
+    // Copy readable text for plain-text targets, with the LaTeX alongside for math-aware ones
+    const handleCopy = useCallback(
+      (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const { root, selection } = state;
 
-      // If there's a selection, copy only the selected portion
-      if (!isCollapsed(selection)) {
-        const selectedNode = extractSelectedNodes(root, selection);
+        // If there's a selection, copy only the selected portion, otherwise the entire expression
+        let copied: MathNode = root;
+        let copiedLatex = latex;
+        const selectedNode = isCollapsed(selection) ? null : extractSelectedNodes(root, selection);
         if (selectedNode) {
-          const selectedLatex = serializeToLatex(selectedNode, { includePlaceholders: false });
+          const selectedLatex = serializeToLatex(selectedNode, { includePlaceholders: false, functions, preserveSource });
           if (selectedLatex) {
-            navigator.clipboard.writeText(selectedLatex).catch(() => {
-              // Fallback: do nothing on error
-            });
-            return;
+            copied = selectedNode;
+            copiedLatex = selectedLatex;
           }
         }
-      }
+        if (!copiedLatex) return;
 
-      // Otherwise copy the entire expression
-      if (latex) {
-        navigator.clipboard.writeText(latex).catch(() => {
-          // Fallback: do nothing on error
-        });
-      }
-    }, [state, latex]);
+        e.preventDefault();
+        e.clipboardData.setData('text/plain', serializeToUnicode(copied));
+        e.clipboardData.setData(LATEX_MIME_TYPE, copiedLatex);
+      },
+      [state, latex, functions, preserveSource]
+    );
 
     // Paste from clipboard
     const handlePaste = useCallback(
@@ -429,29 +654,27 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
         if (readOnly || disabled) return;
 
         e.preventDefault();
+        // LaTeX copied from a field comes back exactly as it was
+        const copiedLatex = e.clipboardData.getData(LATEX_MIME_TYPE);
+        if (copiedLatex) {
+          executeCommand(insertNode(parseLatexWithDiagnostics(copiedLatex, parseOptions).ast));
+          return;
+        }
+
         const text = e.clipboardData.getData('text/plain');
         if (!text) return;
 
-        // Insert each character (this handles LaTeX commands)
-        for (const char of text) {
-          if ('+-=<>'.includes(char)) {
-            executeCommand(insertOperator(char), true);
-          } else if (char === '*') {
-            executeCommand(insertOperator('\\times'), true);
-          } else if (char === '/') {
-            executeCommand(insertFraction());
-          } else if (char === '^') {
-            executeCommand(insertSuperscript());
-          } else if (char === '_') {
-            executeCommand(insertSubscript());
-          } else if ('([{'.includes(char)) {
-            executeCommand(insertParens(char as '(' | '[' | '{'));
-          } else if (char !== '\n' && char !== '\r') {
-            executeCommand(insertCharacter(char), true);
-          }
+        // LaTeX source (possibly with \newcommand definitions) and Unicode math
+        // pasted from documents (α ≤ x²) are parsed as a whole
+        if (isLatexSource(text)) {
+          executeCommand(insertNode(parseLatexWithDiagnostics(text, parseOptions).ast));
+          return;
         }
+
+        // Anything else is AsciiMath, so sqrt(x)/2 pastes as a fraction
+        executeCommand(insertNode(parseAsciiMath(text)));
       },
-      [executeCommand, readOnly, disabled]
+      [executeCommand, readOnly, disabled, parseOptions]
     );
 
     const handleKeyDown = useCallback(
@@ -466,15 +689,23 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
 
         // Tab navigation between placeholders
         if (key === 'Tab' && !cmd && !altKey) {
+          // Inside cases, Tab steps through the cells first
           if (shiftKey) {
-            executeCommand(moveToPreviousPlaceholder());
+            executeCommand(tryCommands(moveToPreviousCell(), moveToPreviousPlaceholder()));
           } else {
-            executeCommand(moveToNextPlaceholder());
+            executeCommand(tryCommands(moveToNextCell(), moveToNextPlaceholder()));
           }
 
-        // Copy
-        } else if (cmd && key === 'c') {
-          handleCopy();
+        // New line: always inside aligned content, anywhere when multiline
+        } else if (
+          key === 'Enter' && !cmd && !altKey &&
+          (multiline || findAncestorOfKind(state.root, state.selection.focus.path, 'aligned'))
+        ) {
+          executeCommand(insertLineBreak(multiline ? 'aligned' : undefined));
+
+        // Alignment point inside aligned content, a plain & elsewhere
+        } else if (key === '&') {
+          executeCommand(tryCommands(insertAlignmentPoint(), insertCharacter('&')));
 
         // Navigation
         } else if (key === 'ArrowLeft') {
@@ -510,13 +741,15 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
 
         // Structure commands
         } else if (key === '/' && !cmd) {
-          executeCommand(insertFraction());
+          executeCommand(insertFraction({ mixedNumber: mixedNumbers }));
         } else if (key === '(' || key === '[' || key === '{') {
           executeCommand(insertParens(key as '(' | '[' | '{'));
         } else if (key === '^') {
           executeCommand(insertSuperscript());
         } else if (key === '_') {
           executeCommand(insertSubscript());
+        } else if (key === "'" && !cmd) {
+          executeCommand(insertPrime());
 
         // Special operators
         } else if (key === '*') {
@@ -537,7 +770,7 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           e.preventDefault();
         }
       },
-      [executeCommand, undo, redo, readOnly, disabled, handleCopy]
+      [executeCommand, undo, redo, readOnly, disabled, multiline, mixedNumbers, state]
     );
 
     // ==========================================================================
@@ -590,7 +823,10 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
       insert: (text: string) => {
         // Insert text at cursor position
         // Check for LaTeX commands first (e.g., \alpha, \sin, \times)
-        if (text.startsWith('\\')) {
+        if (text.startsWith('\\') && (text.includes('{') || macroTable?.[text] !== undefined)) {
+          // LaTeX with arguments (e.g., \mathbb{R}) or a macro - parse and insert the structure
+          executeCommand(insertNode(parseLatexWithDiagnostics(text, parseOptions).ast));
+        } else if (text.startsWith('\\')) {
           // It's a LaTeX command
           const cmd = text.slice(1); // Remove backslash
 
@@ -624,32 +860,25 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
             'varepsilon', 'vartheta', 'varpi', 'varrho', 'varsigma', 'varphi',
           ];
 
-          // Check if it's a function
-          const FUNCTIONS = [
-            'sin', 'cos', 'tan', 'cot', 'sec', 'csc',
-            'arcsin', 'arccos', 'arctan', 'arccot',
-            'sinh', 'cosh', 'tanh', 'coth',
-            'log', 'ln', 'lg', 'exp',
-            'lim', 'limsup', 'liminf',
-            'min', 'max', 'sup', 'inf',
-            'det', 'dim', 'ker', 'hom', 'arg',
-            'deg', 'gcd', 'lcm', 'mod', 'bmod', 'pmod',
-            'sum', 'prod', 'coprod', 'int', 'oint', 'iint', 'iiint',
-            'bigcup', 'bigcap', 'bigoplus', 'bigotimes', 'bigvee', 'bigwedge',
-          ];
-
           if (OPERATORS.includes(cmd)) {
             executeCommand(insertOperator(text));
           } else if (GREEK.includes(cmd)) {
             // Greek letters are symbols
             executeCommand(insertCharacter(cmd), true);
-          } else if (FUNCTIONS.includes(cmd)) {
-            // Functions - insert as text for now (could be improved)
-            executeCommand(insertCharacter(cmd), true);
+          } else if (LARGE_OPERATORS.has(cmd) || LIMIT_FUNCTIONS.has(cmd)) {
+            executeCommand(insertLargeOperator(cmd as LargeOperatorName));
+          } else if (isFunctionCommand(cmd, functions)) {
+            executeCommand(insertFunction(cmd));
           } else {
             // Unknown command - try inserting as character
             executeCommand(insertCharacter(cmd), true);
           }
+        } else if (text.length > 1 && isLatexSource(text)) {
+          // LaTeX without commands (x^{2}, a_{1}) or with Unicode math (α ≤ x²)
+          executeCommand(insertNode(parseLatexWithDiagnostics(text, parseOptions).ast));
+        } else if (text.length > 1 && !text.startsWith('^') && !text.endsWith('^')) {
+          // AsciiMath (sqrt(x)/2, sum_(i=1)^n i^2) is parsed as a whole
+          executeCommand(insertNode(parseAsciiMath(text)));
         } else {
           // Check for special patterns
           // Pattern: something followed by ^ (e.g., "e^", "10^")
@@ -701,6 +930,8 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
                 executeCommand(insertSuperscript());
               } else if (char === '_') {
                 executeCommand(insertSubscript());
+              } else if (char === "'") {
+                executeCommand(insertPrime());
               } else if ('([{'.includes(char)) {
                 executeCommand(insertParens(char as '(' | '[' | '{'));
               } else {
@@ -730,13 +961,64 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           return;
         }
 
+        // Cases commands name the environment (e.g., "cases:dcases")
+        if (command.startsWith('cases:')) {
+          executeCommand(insertCases(2, command.slice('cases:'.length) as CasesNode['style']));
+          return;
+        }
+
+        // Aligned commands name the environment (e.g., "aligned:gathered")
+        if (command.startsWith('aligned:')) {
+          executeCommand(insertAligned(2, command.slice('aligned:'.length) as AlignedNode['style']));
+          return;
+        }
+
+        // Accent commands name the accent (e.g., "accent:hat")
+        if (command.startsWith('accent:')) {
+          executeCommand(insertAccent(command.slice('accent:'.length) as AccentNode['accent']));
+          return;
+        }
+
+        // Over/under commands name the construct (e.g., "overunder:underbrace")
+        if (command.startsWith('overunder:')) {
+          executeCommand(insertOverUnder(command.slice('overunder:'.length) as OverUnderNode['command']));
+          return;
+        }
+
+        // Font commands name the style (e.g., "font:mathbb")
+        if (command.startsWith('font:')) {
+          executeCommand(insertFont(command.slice('font:'.length) as FontNode['variant']));
+          return;
+        }
+
+        // Color commands name the color (e.g., "color:red")
+        if (command.startsWith('color:')) {
+          executeCommand(applyColor(command.slice('color:'.length)));
+          return;
+        }
+
         switch (command) {
           case 'fraction':
-            executeCommand(insertFraction());
+            executeCommand(insertFraction({ mixedNumber: mixedNumbers }));
+            break;
+          case 'cycleFractionStyle':
+            executeCommand(cycleFractionStyle());
+            break;
+          case 'mixedNumber':
+            executeCommand(insertMixedNumber());
+            break;
+          case 'repeatingDecimal':
+            executeCommand(insertRepeatingDecimal());
+            break;
+          case 'binom':
+            executeCommand(insertBinomial());
             break;
           case 'sqrt':
             executeCommand(insertSqrt());
             break;
+          case 'nthroot':
+            executeCommand(insertNthRoot());
+            break;
           case 'parens':
             executeCommand(insertParens('('));
             break;
@@ -752,6 +1034,18 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           case 'subscript':
             executeCommand(insertSubscript());
             break;
+          case 'addCaseRow':
+            executeCommand(addCaseRow());
+            break;
+          case 'removeCaseRow':
+            executeCommand(removeCaseRow());
+            break;
+          case 'lineBreak':
+            executeCommand(insertLineBreak(multiline ? 'aligned' : undefined));
+            break;
+          case 'alignmentPoint':
+            executeCommand(insertAlignmentPoint());
+            break;
         }
       },
       deleteBackward: () => {
@@ -759,13 +1053,7 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
       },
       getLatex: () => latex,
       setLatex: (newLatex: string) => {
-        try {
-          const ast = parseLatex(newLatex);
-          const newState = createStateFromAST(ast);
-          setHistory(createHistory(newState));
-        } catch (e) {
-          // Invalid LaTeX, ignore
-        }
+        loadLatex(newLatex);
       },
       undo,
       redo,
@@ -834,6 +1122,15 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
     };
 
     // Recursively render AST node with cursor positioning
+    // Font style of the nearest enclosing font node, if any
+    const fontVariantAt = (path: readonly number[]): FontNode['variant'] | null => {
+      for (let depth = path.length - 1; depth >= 0; depth--) {
+        const ancestor = getNodeAtPath(state.root, path.slice(0, depth));
+        if (ancestor?.kind === 'font') return ancestor.variant;
+      }
+      return null;
+    };
+
     const renderNode = (
       node: MathNode,
       path: readonly number[],
@@ -873,15 +1170,17 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           );
         }
 
-        case 'number':
+        case 'number': {
+          const variant = fontVariantAt(path);
           return (
             <span
               className="pmf-number"
               onMouseDown={(e) => handleElementMouseDown(e, parentRowPath, indexInParent)}
             >
-              {node.value}
+              {variant ? styleCharacters(node.value, variant) : node.value}
             </span>
           );
+        }
 
         case 'symbol': {
           // Map Greek letters and other special symbols to Unicode
@@ -902,12 +1201,15 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
             'varepsilon': 'ε', 'vartheta': 'ϑ', 'varpi': 'ϖ', 'varrho': 'ϱ',
             'varsigma': 'ς', 'varphi': 'ϕ',
           };
+          // Inside \mathbb{...} etc., letters use the styled alphabet
+          const variant = fontVariantAt(path);
+          const display = symbolMap[node.value] || node.value;
           return (
             <span
               className="pmf-symbol"
               onMouseDown={(e) => handleElementMouseDown(e, parentRowPath, indexInParent)}
             >
-              {symbolMap[node.value] || node.value}
+              {variant && display.length === 1 ? styleCharacters(display, variant) : display}
             </span>
           );
         }
@@ -966,7 +1268,7 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
 
         case 'fraction':
           return (
-            <span className="pmf-fraction">
+            <span className={`pmf-fraction pmf-fraction-${node.style ?? 'frac'}`}>
               <span className="pmf-numerator">
                 {renderNode(node.numerator, [...path, 0], showCursor)}
               </span>
@@ -977,9 +1279,58 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
             </span>
           );
 
+        case 'mixedNumber':
+          return (
+            <span className="pmf-mixed-number">
+              <span className="pmf-mixed-whole">
+                {renderNode(node.whole, [...path, 0], showCursor)}
+              </span>
+              <span className="pmf-fraction pmf-mixed-fraction">
+                <span className="pmf-numerator">
+                  {renderNode(node.numerator, [...path, 1], showCursor)}
+                </span>
+                <span className="pmf-frac-line" />
+                <span className="pmf-denominator">
+                  {renderNode(node.denominator, [...path, 2], showCursor)}
+                </span>
+              </span>
+            </span>
+          );
+
+        case 'repeatingDecimal':
+          return (
+            <span className="pmf-repeating-decimal">
+              {renderNode(node.decimal, [...path, 0], showCursor)}
+              <span className="pmf-repetend">
+                {renderNode(node.repetend, [...path, 1], showCursor)}
+              </span>
+            </span>
+          );
+
+        case 'binom':
+          return (
+            <span className={`pmf-binom pmf-binom-${node.variant}`}>
+              <span className="pmf-paren-left">(</span>
+              <span className="pmf-binom-stack">
+                <span className="pmf-binom-top">
+                  {renderNode(node.top, [...path, 0], showCursor)}
+                </span>
+                <span className="pmf-binom-bottom">
+                  {renderNode(node.bottom, [...path, 1], showCursor)}
+                </span>
+              </span>
+              <span className="pmf-paren-right">)</span>
+            </span>
+          );
+
         case 'sqrt':
           return (
             <span className="pmf-sqrt">
+              {node.index && (
+                <sup className="pmf-sqrt-index">
+                  {renderNode(node.index, [...path, 1], showCursor)}
+                </sup>
+              )}
               <span className="pmf-sqrt-symbol">√</span>
               <span className="pmf-sqrt-content">
                 {renderNode(node.radicand, [...path, 0], showCursor)}
@@ -997,6 +1348,14 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
             </span>
           );
 
+        case 'prime':
+          return (
+            <span className="pmf-prime">
+              {renderNode(node.base, [...path, 0], showCursor)}
+              <sup className="pmf-prime-marks">{'′'.repeat(node.count)}</sup>
+            </span>
+          );
+
         case 'subscript':
           return (
             <span className="pmf-subscript-container">
@@ -1021,17 +1380,11 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           );
 
         case 'parens': {
-          // Map open delimiters to their display forms
-          const openMap: Record<string, string> = {
-            '(': '(', '[': '[', '{': '{', '|': '|', '\\|': '‖', '\\langle': '⟨',
-          };
-          const closeMap: Record<string, string> = {
-            ')': ')', ']': ']', '}': '}', '|': '|', '\\|': '‖', '\\rangle': '⟩',
-          };
-          const left = openMap[node.open] || node.open;
-          const right = closeMap[node.close] || node.close;
+          const left = DELIMITER_GLYPHS[node.open];
+          const right = DELIMITER_GLYPHS[node.close];
+          const sizeClass = node.size && node.size !== 'auto' ? ` pmf-parens-${node.size}` : '';
           return (
-            <span className="pmf-parens">
+            <span className={`pmf-parens${sizeClass}`}>
               <span className="pmf-paren-left">{left}</span>
               {renderNode(node.content, [...path, 0], showCursor)}
               <span className="pmf-paren-right">{right}</span>
@@ -1039,13 +1392,57 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           );
         }
 
-        case 'function':
+        case 'function': {
+          const argument = node.argument && renderNode(node.argument, [...path, 0], showCursor);
+          const symbol = LARGE_OPERATOR_SYMBOLS[node.name];
+          if (!node.limits && !symbol) {
+            return (
+              <span className="pmf-function">
+                <span className="pmf-function-name">{node.name}</span>
+                {argument}
+              </span>
+            );
+          }
+
+          // Children are [argument?, lower?, upper?]
+          const lowerIdx = node.argument ? 1 : 0;
+          const upperIdx = lowerIdx + (node.limits?.lower ? 1 : 0);
+          const operator = symbol
+            ? <span className="pmf-largeop-symbol">{symbol}</span>
+            : <span className="pmf-function-name">{node.name}</span>;
+          const upper = node.limits?.upper && (
+            <span className="pmf-largeop-upper">{renderNode(node.limits.upper, [...path, upperIdx], showCursor)}</span>
+          );
+          const lower = node.limits?.lower && (
+            <span className="pmf-largeop-lower">{renderNode(node.limits.lower, [...path, lowerIdx], showCursor)}</span>
+          );
+
+          // Integrals carry their limits as scripts; sums, products and limits stack them
+          if (SCRIPT_LIMIT_OPERATORS.has(node.name)) {
+            return (
+              <span className="pmf-function pmf-largeop pmf-largeop-scripts">
+                {operator}
+                {(upper || lower) && (
+                  <span className="pmf-largeop-limits">
+                    {upper ?? <span className="pmf-largeop-upper" />}
+                    {lower ?? <span className="pmf-largeop-lower" />}
+                  </span>
+                )}
+                {argument}
+              </span>
+            );
+          }
           return (
-            <span className="pmf-function">
-              <span className="pmf-function-name">{node.name}</span>
-              {node.argument && renderNode(node.argument, [...path, 0], showCursor)}
+            <span className="pmf-function pmf-largeop pmf-largeop-stacked">
+              <span className="pmf-largeop-stack">
+                {upper}
+                {operator}
+                {lower}
+              </span>
+              {argument}
             </span>
           );
+        }
 
         case 'matrix': {
           // Determine the delimiter based on matrix style
@@ -1084,12 +1481,146 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           );
         }
 
+        case 'cases': {
+          const brace = <span className="pmf-cases-brace" aria-hidden="true">{'{'}</span>;
+          const closingBrace = <span className="pmf-cases-brace" aria-hidden="true">{'}'}</span>;
+          return (
+            <span className={`pmf-cases pmf-cases-${node.style}`}>
+              {node.style !== 'rcases' && brace}
+              <span className="pmf-cases-table">
+                {node.rows.map(([value, condition], rowIdx) => (
+                  <span key={rowIdx} className="pmf-cases-row">
+                    <span className="pmf-cases-value">
+                      {renderNode(value, [...path, rowIdx * 2], showCursor)}
+                    </span>
+                    <span className="pmf-cases-condition">
+                      {renderNode(condition, [...path, rowIdx * 2 + 1], showCursor)}
+                    </span>
+                  </span>
+                ))}
+              </span>
+              {node.style === 'rcases' && closingBrace}
+            </span>
+          );
+        }
+
+        case 'aligned': {
+          // Cells are placed on a grid; in aligned/split columns alternate right, left around each &
+          const columns = Math.max(1, ...node.rows.map((row) => row.length));
+          let cellIndex = 0;
+          return (
+            <span
+              className={`pmf-aligned pmf-aligned-${node.style === 'align*' ? 'align' : node.style}`}
+              style={{ gridTemplateColumns: `repeat(${columns}, auto)` }}
+            >
+              {node.rows.map((row, rowIdx) =>
+                row.map((cell, colIdx) => {
+                  const currentCellIndex = cellIndex++;
+                  const side = node.style === 'gathered' ? 'center' : colIdx % 2 === 0 ? 'right' : 'left';
+                  return (
+                    <span
+                      key={`${rowIdx}-${colIdx}`}
+                      className={`pmf-aligned-cell pmf-aligned-cell-${side}`}
+                      style={{ gridRow: rowIdx + 1, gridColumn: colIdx + 1 }}
+                    >
+                      {renderNode(cell, [...path, currentCellIndex], showCursor)}
+                    </span>
+                  );
+                })
+              )}
+            </span>
+          );
+        }
+
         case 'text':
           return <span className="pmf-text">{node.value}</span>;
 
         case 'space':
           return <span className="pmf-space">&nbsp;</span>;
 
+        case 'macro': {
+          // Drawn by KaTeX as a single atom, exactly as MathDisplay shows it
+          const result = renderToString(serializeToLatex(node), {
+            ...katexOptions,
+            macros: macroTable,
+            displayMode: false,
+            throwOnError: false,
+          });
+          return <span className="pmf-macro" dangerouslySetInnerHTML={{ __html: result.html }} />;
+        }
+
+        case 'accent': {
+          // Mark drawn above the body; overline/underline are drawn with borders
+          const accentMarks: Record<AccentNode['accent'], string> = {
+            hat: 'ˆ', widehat: 'ˆ', check: 'ˇ', tilde: '˜', widetilde: '˜',
+            acute: '´', grave: '`', breve: '˘', bar: '¯', overline: '',
+            underline: '', vec: '→', overrightarrow: '→', overleftarrow: '←',
+            dot: '˙', ddot: '¨', mathring: '˚',
+          };
+          return (
+            <span className={`pmf-accent pmf-accent-${node.accent}`}>
+              {accentMarks[node.accent] && (
+                <span className="pmf-accent-mark" aria-hidden="true">
+                  {accentMarks[node.accent]}
+                </span>
+              )}
+              <span className="pmf-accent-body">
+                {renderNode(node.body, [...path, 0], showCursor)}
+              </span>
+            </span>
+          );
+        }
+
+        case 'font':
+          return (
+            <span className={`pmf-font pmf-font-${node.variant}`}>
+              {renderNode(node.body, [...path, 0], showCursor)}
+            </span>
+          );
+
+        case 'color': {
+          const isBox = node.command === 'colorbox' || node.command === 'fcolorbox';
+          const style: React.CSSProperties = isBox
+            ? { backgroundColor: node.color, borderColor: node.frameColor }
+            : { color: node.color };
+          return (
+            <span className={`pmf-color pmf-color-${node.command}`} style={style}>
+              {renderNode(node.body, [...path, 0], showCursor)}
+            </span>
+          );
+        }
+
+        case 'overunder': {
+          // Children are [body, over?, under?]
+          const underIdx = node.over ? 2 : 1;
+          return (
+            <span className={`pmf-overunder pmf-overunder-${node.command}`}>
+              {node.over && (
+                <span className="pmf-overunder-over">
+                  {renderNode(node.over, [...path, 1], showCursor)}
+                </span>
+              )}
+              {node.command === 'overbrace' && <span className="pmf-brace pmf-brace-over" />}
+              <span className="pmf-overunder-body">
+                {renderNode(node.body, [...path, 0], showCursor)}
+              </span>
+              {node.command === 'underbrace' && <span className="pmf-brace pmf-brace-under" />}
+              {node.under && (
+                <span className="pmf-overunder-under">
+                  {renderNode(node.under, [...path, underIdx], showCursor)}
+                </span>
+              )}
+            </span>
+          );
+        }
+
+        case 'error':
+          return (
+            <span className="pmf-error" title={node.message}>
+              {node.value}
+            </span>
+          );
+
         default:
           return <span className="pmf-unknown">[{(node as MathNode).kind}]</span>;
       }
@@ -1116,6 +1647,7 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
       // Not focused: use KaTeX for pretty rendering
       const result = renderToString(latex, {
         ...katexOptions,
+        macros: macroTable,
         displayMode: false,
         throwOnError: false,
       });
@@ -1140,6 +1672,9 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
       .filter(Boolean)
       .join(' ');
 
+    // Aligned content spans several lines even without the multiline prop
+    const isMultiline = multiline || getChildNodes(state.root).some((child) => child.kind === 'aligned');
+
     // Generate an accessible description of the current content
     const accessibleDescription = latex
       ? `Current expression: ${latex}`
@@ -1156,7 +1691,7 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
         aria-label={ariaLabel}
         aria-readonly={readOnly}
         aria-disabled={disabled}
-        aria-multiline="false"
+        aria-multiline={isMultiline}
         aria-describedby={descriptionId}
       >
         {/* Screen reader description */}
@@ -1174,6 +1709,7 @@ export const MathField = forwardRef<MathFieldRef, MathFieldProps>(
           ref={inputRef}
           className="pmf-input"
           onKeyDown={handleKeyDown}
+          onCopy={handleCopy}
           onPaste={handlePaste}
           onFocus={handleFocus}
           onBlur={handleBlur}
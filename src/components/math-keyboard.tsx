@@ -23,7 +23,7 @@ export interface MathKeyboardProps {
   className?: string;
 }
 
-type KeyboardTab = 'basic' | 'greek' | 'operators' | 'structures' | 'matrices' | 'arrows' | 'sets';
+type KeyboardTab = 'basic' | 'elementary' | 'greek' | 'operators' | 'structures' | 'matrices' | 'arrows' | 'sets' | 'numberSets';
 
 interface KeyDefinition {
   /** Display label (can be LaTeX rendered or text) */
@@ -90,6 +90,43 @@ const BASIC_KEYS: KeyDefinition[][] = [
   ],
 ];
 
+const ELEMENTARY_KEYS: KeyDefinition[][] = [
+  [
+    { label: '1½', command: 'mixedNumber', title: 'Mixed number', className: 'key-action' },
+    { label: '0.3̅', command: 'repeatingDecimal', title: 'Repeating decimal', className: 'key-action' },
+    { label: '⬚/⬚', command: 'fraction', title: 'Fraction', className: 'key-action' },
+    { label: '⌫', command: 'backspace', title: 'Backspace', className: 'key-action' },
+  ],
+  [
+    { label: '7', insert: '7' },
+    { label: '8', insert: '8' },
+    { label: '9', insert: '9' },
+    { label: '÷', insert: '\\div', title: 'Division' },
+    { label: '×', insert: '\\times', title: 'Multiplication' },
+  ],
+  [
+    { label: '4', insert: '4' },
+    { label: '5', insert: '5' },
+    { label: '6', insert: '6' },
+    { label: '−', insert: '-', title: 'Minus' },
+    { label: '+', insert: '+' },
+  ],
+  [
+    { label: '1', insert: '1' },
+    { label: '2', insert: '2' },
+    { label: '3', insert: '3' },
+    { label: '<', insert: '<', title: 'Less than' },
+    { label: '>', insert: '>', title: 'Greater than' },
+  ],
+  [
+    { label: '0', insert: '0' },
+    { label: '.', insert: '.' },
+    { label: '=', insert: '=' },
+    { label: '(', insert: '(' },
+    { label: ')', insert: ')' },
+  ],
+];
+
 const GREEK_KEYS: KeyDefinition[][] = [
   [
     { label: 'α', insert: '\\alpha', title: 'alpha' },
@@ -187,12 +224,47 @@ const OPERATOR_KEYS: KeyDefinition[][] = [
 const STRUCTURE_KEYS: KeyDefinition[][] = [
   [
     { label: 'a/b', command: 'fraction', title: 'Fraction' },
+    { label: 'a/b ↻', command: 'cycleFractionStyle', title: 'Cycle fraction style' },
+    { label: '(ⁿₖ)', command: 'binom', title: 'Binomial coefficient' },
     { label: '√', command: 'sqrt', title: 'Square root' },
+    { label: 'ⁿ√', command: 'nthroot', title: 'Nth root' },
     { label: 'xⁿ', command: 'superscript', title: 'Superscript/Power' },
     { label: 'xₙ', command: 'subscript', title: 'Subscript' },
     { label: '( )', command: 'parens', title: 'Parentheses' },
     { label: '[ ]', command: 'brackets', title: 'Brackets' },
   ],
+  [
+    { label: 'x̂', command: 'accent:hat', title: 'Hat' },
+    { label: 'x̄', command: 'accent:bar', title: 'Bar (mean)' },
+    { label: 'v⃗', command: 'accent:vec', title: 'Vector' },
+    { label: 'ẋ', command: 'accent:dot', title: 'Dot (derivative)' },
+    { label: 'ẍ', command: 'accent:ddot', title: 'Double dot' },
+    { label: 'x̃', command: 'accent:tilde', title: 'Tilde' },
+  ],
+  [
+    { label: 'A̅B̅', command: 'accent:overline', title: 'Overline' },
+    { label: 'x̲', command: 'accent:underline', title: 'Underline' },
+    { label: 'x̂y', command: 'accent:widehat', title: 'Wide hat' },
+    { label: 'x̃y', command: 'accent:widetilde', title: 'Wide tilde' },
+    { label: 'AB→', command: 'accent:overrightarrow', title: 'Right arrow over' },
+    { label: 'x̌', command: 'accent:check', title: 'Check' },
+  ],
+  [
+    { label: 'ᵃx', command: 'overunder:overset', title: 'Over set' },
+    { label: 'ₐx', command: 'overunder:underset', title: 'Under set' },
+    { label: '≝', insert: '\\overset{def}{=}', title: 'Equal by definition' },
+    { label: 'x⏞', command: 'overunder:overbrace', title: 'Over brace' },
+    { label: 'x⏟', command: 'overunder:underbrace', title: 'Under brace' },
+    { label: 'a≔', command: 'overunder:stackrel', title: 'Stacked relation' },
+  ],
+  [
+    { label: 'A', command: 'color:red', title: 'Red', className: 'key-color-red' },
+    { label: 'A', command: 'color:blue', title: 'Blue', className: 'key-color-blue' },
+    { label: 'A', command: 'color:green', title: 'Green', className: 'key-color-green' },
+    { label: 'A', command: 'color:orange', title: 'Orange', className: 'key-color-orange' },
+    { label: 'A', command: 'color:purple', title: 'Purple', className: 'key-color-purple' },
+    { label: 'A', command: 'color:gray', title: 'Gray', className: 'key-color-gray' },
+  ],
   [
     { label: 'x²', insert: '^2', title: 'Square' },
     { label: 'x³', insert: '^3', title: 'Cube' },
@@ -290,6 +362,21 @@ const SET_KEYS: KeyDefinition[][] = [
 ];
 
 const MATRIX_KEYS: KeyDefinition[][] = [
+  // Multi-line equations
+  [
+    { label: '≡ lines', command: 'aligned:aligned', title: 'Aligned equations' },
+    { label: '☰ lines', command: 'aligned:gathered', title: 'Gathered (centered) equations' },
+    { label: '↵', command: 'lineBreak', title: 'New line' },
+    { label: '&', command: 'alignmentPoint', title: 'Alignment point' },
+  ],
+  // Piecewise definitions
+  [
+    { label: '{⬚', command: 'cases:cases', title: 'Cases (piecewise)' },
+    { label: '{⬚ (d)', command: 'cases:dcases', title: 'Cases in display style' },
+    { label: '⬚}', command: 'cases:rcases', title: 'Cases with brace on the right' },
+    { label: '+case', command: 'addCaseRow', title: 'Add a case below' },
+    { label: '−case', command: 'removeCaseRow', title: 'Remove the current case' },
+  ],
   // 2x2 matrices with different bracket styles
   [
     { label: '(2×2)', command: 'matrix:2x2:pmatrix', title: '2×2 matrix with parentheses' },
@@ -332,14 +419,43 @@ const MATRIX_KEYS: KeyDefinition[][] = [
   ],
 ];
 
+const NUMBER_SET_KEYS: KeyDefinition[][] = [
+  [
+    { label: 'ℕ', insert: '\\mathbb{N}', title: 'Natural numbers' },
+    { label: 'ℤ', insert: '\\mathbb{Z}', title: 'Integers' },
+    { label: 'ℚ', insert: '\\mathbb{Q}', title: 'Rational numbers' },
+    { label: 'ℝ', insert: '\\mathbb{R}', title: 'Real numbers' },
+    { label: 'ℂ', insert: '\\mathbb{C}', title: 'Complex numbers' },
+    { label: 'ℙ', insert: '\\mathbb{P}', title: 'Primes' },
+  ],
+  [
+    { label: 'ℝⁿ', insert: '\\mathbb{R}^n', title: 'Real n-space' },
+    { label: 'ℝ²', insert: '\\mathbb{R}^2', title: 'Real plane' },
+    { label: 'ℤ⁺', insert: '\\mathbb{Z}^{+}', title: 'Positive integers' },
+    { label: 'ℂⁿ', insert: '\\mathbb{C}^n', title: 'Complex n-space' },
+    { label: 'ℤₙ', insert: '\\mathbb{Z}_n', title: 'Integers modulo n' },
+    { label: 'ℕ₀', insert: '\\mathbb{N}_0', title: 'Natural numbers with zero' },
+  ],
+  [
+    { label: '𝔸', command: 'font:mathbb', title: 'Blackboard bold' },
+    { label: '𝒜', command: 'font:mathcal', title: 'Calligraphic' },
+    { label: '𝐀', command: 'font:mathbf', title: 'Bold' },
+    { label: '𝔄', command: 'font:mathfrak', title: 'Fraktur' },
+    { label: '𝖠', command: 'font:mathsf', title: 'Sans-serif' },
+    { label: '𝜶', command: 'font:boldsymbol', title: 'Bold symbol' },
+  ],
+];
+
 const TAB_DEFINITIONS: Record<KeyboardTab, { label: string; keys: KeyDefinition[][] }> = {
   basic: { label: '123', keys: BASIC_KEYS },
+  elementary: { label: '1½', keys: ELEMENTARY_KEYS },
   greek: { label: 'αβγ', keys: GREEK_KEYS },
   operators: { label: '≤≥', keys: OPERATOR_KEYS },
   structures: { label: '∑∫', keys: STRUCTURE_KEYS },
   matrices: { label: '[ ]', keys: MATRIX_KEYS },
   arrows: { label: '→⇒', keys: ARROW_KEYS },
   sets: { label: '∈∪', keys: SET_KEYS },
+  numberSets: { label: 'ℝℕ', keys: NUMBER_SET_KEYS },
 };
 
 // =============================================================================
@@ -3,7 +3,7 @@
  *
  * Design principles:
  * 1. Immutable - all nodes are readonly, updates create new trees
- * 2. MathJSON-inspired - similar structure for future compatibility
+ * 2. MathJSON-inspired - converts to and from MathJSON (parser/mathjson.ts)
  * 3. LaTeX-primary - optimized for LaTeX serialization
  */
 
@@ -18,22 +18,45 @@ export type MathNodeKind =
   | 'operator' // Binary/unary operator: +, -, ×, ÷, =
   | 'fraction' // Fraction: \frac{num}{den}
   | 'power' // Superscript: base^exponent
+  | 'prime' // Prime marks: f', f'', f^{\prime}
   | 'subscript' // Subscript: base_index
   | 'subsup' // Both sub and superscript: base_index^exponent
   | 'sqrt' // Root: \sqrt{x} or \sqrt[n]{x}
   | 'parens' // Delimiters: (), [], {}, ||
   | 'matrix' // Matrix/array: \begin{matrix}...\end{matrix}
+  | 'cases' // Piecewise definition: \begin{cases}...\end{cases}
+  | 'aligned' // Multi-line equations: \begin{aligned}...\end{aligned}
+  | 'accent' // Accent/decoration: \hat{x}, \vec{v}, \overline{AB}
+  | 'font' // Font style: \mathbb{R}, \mathcal{F}, \mathbf{v}
+  | 'overunder' // Stacked annotation: \overset{a}{b}, \underbrace{x}_{y}
+  | 'binom' // Binomial coefficient: \binom{n}{k}, {n \choose k}
+  | 'mixedNumber' // Whole number and proper fraction: 2\frac{3}{4}
+  | 'repeatingDecimal' // Decimal with a repeating block: 0.\overline{3}
+  | 'color' // Colored or highlighted content: \textcolor{red}{x}, \colorbox{yellow}{$x$}
   | 'text' // Text mode: \text{...}
   | 'function' // Named function: \sin, \cos, \log
   | 'space' // Explicit spacing: \, \; \quad
+  | 'macro' // Use of a user macro kept as written: \R, \vect{x}
+  | 'error' // Unparseable LaTeX kept verbatim (error-recovering parser)
   | 'placeholder'; // Empty slot for input (cursor target)
 
 // =============================================================================
 // Base Node Interface
 // =============================================================================
 
+/**
+ * Half-open range [start, end) of offsets into the LaTeX source a node was
+ * parsed from. Only present when the parser is asked for positions.
+ */
+export interface SourceSpan {
+  readonly start: number;
+  readonly end: number;
+}
+
 interface BaseMathNode {
   readonly kind: MathNodeKind;
+  readonly span?: SourceSpan; // Source range (parseLatex with positions: true)
+  readonly source?: string; // LaTeX as written (parseLatex with preserveSource: true)
 }
 
 // =============================================================================
@@ -69,6 +92,18 @@ export interface PlaceholderNode extends BaseMathNode {
   readonly kind: 'placeholder';
 }
 
+export interface MacroNode extends BaseMathNode {
+  readonly kind: 'macro';
+  readonly name: string; // Macro name without backslash (e.g., 'R' for \R)
+  readonly args: readonly string[]; // Raw LaTeX of each argument
+}
+
+export interface ErrorNode extends BaseMathNode {
+  readonly kind: 'error';
+  readonly value: string; // Raw LaTeX source that could not be parsed
+  readonly message?: string; // Why it could not be parsed
+}
+
 // =============================================================================
 // Container Nodes (with children)
 // =============================================================================
@@ -82,6 +117,7 @@ export interface FractionNode extends BaseMathNode {
   readonly kind: 'fraction';
   readonly numerator: MathNode;
   readonly denominator: MathNode;
+  readonly style?: 'frac' | 'dfrac' | 'tfrac' | 'cfrac'; // Display/text size or continued; frac when absent
 }
 
 export interface PowerNode extends BaseMathNode {
@@ -90,6 +126,12 @@ export interface PowerNode extends BaseMathNode {
   readonly exponent: MathNode;
 }
 
+export interface PrimeNode extends BaseMathNode {
+  readonly kind: 'prime';
+  readonly base: MathNode;
+  readonly count: number; // Number of prime marks (1 for f', 2 for f'')
+}
+
 export interface SubscriptNode extends BaseMathNode {
   readonly kind: 'subscript';
   readonly base: MathNode;
@@ -109,12 +151,28 @@ export interface SqrtNode extends BaseMathNode {
   readonly index?: MathNode; // Optional: nth root
 }
 
+// Any delimiter may sit on either side (half-open intervals); '.' is invisible
+export type Delimiter =
+  | '(' | ')' | '[' | ']' | '{' | '}' | '|' | '\\|'
+  | '\\langle' | '\\rangle' | '\\lfloor' | '\\rfloor' | '\\lceil' | '\\rceil'
+  | '/' | '\\backslash' | '\\uparrow' | '\\downarrow' | '\\updownarrow'
+  | '\\Uparrow' | '\\Downarrow' | '\\Updownarrow'
+  | '\\lgroup' | '\\rgroup' | '\\lmoustache' | '\\rmoustache'
+  | '\\ulcorner' | '\\urcorner' | '\\llcorner' | '\\lrcorner'
+  | '.';
+
+export type DelimiterSize = 'big' | 'Big' | 'bigg' | 'Bigg';
+
+// A sizing command without its backslash: \bigl, \Bigr, \biggm, \Big, ...
+export type SizingCommand = `${DelimiterSize}${'' | 'l' | 'm' | 'r'}`;
+
 export interface ParensNode extends BaseMathNode {
   readonly kind: 'parens';
-  readonly open: '(' | '[' | '{' | '|' | '\\|' | '\\langle'; // Opening delimiter
-  readonly close: ')' | ']' | '}' | '|' | '\\|' | '\\rangle'; // Closing delimiter
+  readonly open: Delimiter; // Opening delimiter
+  readonly close: Delimiter; // Closing delimiter
   readonly content: MathNode;
-  readonly size?: 'auto' | 'big' | 'Big' | 'bigg' | 'Bigg'; // \left\right or explicit
+  readonly size?: 'auto' | DelimiterSize; // \left\right or explicit; the opening side's size when sides differ
+  readonly sizing?: readonly [open: SizingCommand | null, close: SizingCommand | null]; // Sizing as written, unless a \bigl ... \bigr pair of one size
 }
 
 export interface FunctionNode extends BaseMathNode {
@@ -126,6 +184,7 @@ export interface FunctionNode extends BaseMathNode {
     readonly lower?: MathNode;
     readonly upper?: MathNode;
   };
+  readonly starred?: boolean; // \operatorname*: scripts set as limits above/below
 }
 
 export interface MatrixNode extends BaseMathNode {
@@ -135,6 +194,71 @@ export interface MatrixNode extends BaseMathNode {
   readonly colSpec?: string; // For array: column specification like "cc" or "lcr"
 }
 
+export interface CasesNode extends BaseMathNode {
+  readonly kind: 'cases';
+  readonly rows: readonly (readonly [value: MathNode, condition: MathNode])[];
+  readonly style: 'cases' | 'dcases' | 'rcases'; // rcases puts the brace on the right
+}
+
+export interface AlignedNode extends BaseMathNode {
+  readonly kind: 'aligned';
+  readonly rows: readonly (readonly MathNode[])[]; // Lines, split into cells at & alignment points
+  readonly style: 'aligned' | 'align*' | 'gathered' | 'split';
+}
+
+export interface AccentNode extends BaseMathNode {
+  readonly kind: 'accent';
+  readonly accent:
+    | 'hat' | 'widehat' | 'check' | 'tilde' | 'widetilde' | 'acute' | 'grave' | 'breve'
+    | 'bar' | 'overline' | 'underline' | 'vec' | 'overrightarrow' | 'overleftarrow'
+    | 'dot' | 'ddot' | 'mathring'; // Command name without backslash
+  readonly body: MathNode; // Decorated content
+}
+
+export interface FontNode extends BaseMathNode {
+  readonly kind: 'font';
+  readonly variant:
+    | 'mathbb' | 'mathcal' | 'mathscr' | 'mathfrak'
+    | 'mathbf' | 'mathsf' | 'mathtt' | 'mathit' | 'mathrm' | 'boldsymbol'; // Command name without backslash
+  readonly body: MathNode; // Styled content
+}
+
+export interface OverUnderNode extends BaseMathNode {
+  readonly kind: 'overunder';
+  readonly command: 'overset' | 'underset' | 'stackrel' | 'overbrace' | 'underbrace';
+  readonly body: MathNode; // Main content
+  readonly over?: MathNode; // Annotation above
+  readonly under?: MathNode; // Annotation below
+}
+
+export interface ColorNode extends BaseMathNode {
+  readonly kind: 'color';
+  readonly command: 'color' | 'textcolor' | 'colorbox' | 'fcolorbox'; // \color colors the rest of its group
+  readonly color: string; // Text color, or background for the boxes (name or #rrggbb)
+  readonly frameColor?: string; // Border color of \fcolorbox
+  readonly body: MathNode;
+}
+
+export interface BinomNode extends BaseMathNode {
+  readonly kind: 'binom';
+  readonly top: MathNode;
+  readonly bottom: MathNode;
+  readonly variant: 'binom' | 'dbinom' | 'tbinom'; // Text/display size; \choose parses as binom
+}
+
+export interface MixedNumberNode extends BaseMathNode {
+  readonly kind: 'mixedNumber';
+  readonly whole: MathNode;
+  readonly numerator: MathNode;
+  readonly denominator: MathNode;
+}
+
+export interface RepeatingDecimalNode extends BaseMathNode {
+  readonly kind: 'repeatingDecimal';
+  readonly decimal: MathNode; // Digits up to the repeating block, including the point: 0.1
+  readonly repetend: MathNode; // Digits under the bar
+}
+
 // =============================================================================
 // Union Type
 // =============================================================================
@@ -146,15 +270,27 @@ export type MathNode =
   | TextNode
   | SpaceNode
   | PlaceholderNode
+  | MacroNode
+  | ErrorNode
   | RowNode
   | FractionNode
   | PowerNode
+  | PrimeNode
   | SubscriptNode
   | SubSupNode
   | SqrtNode
   | ParensNode
   | FunctionNode
-  | MatrixNode;
+  | MatrixNode
+  | CasesNode
+  | AlignedNode
+  | AccentNode
+  | FontNode
+  | OverUnderNode
+  | ColorNode
+  | BinomNode
+  | MixedNumberNode
+  | RepeatingDecimalNode;
 
 // =============================================================================
 // Node Builders (Factory Functions)
@@ -185,18 +321,31 @@ export const node = {
     return { kind: 'placeholder' };
   },
 
+  macro(name: string, args: readonly string[] = []): MacroNode {
+    return { kind: 'macro', name, args };
+  },
+
+  error(value: string, message?: string): ErrorNode {
+    return message ? { kind: 'error', value, message } : { kind: 'error', value };
+  },
+
   row(children: readonly MathNode[]): RowNode {
     return { kind: 'row', children };
   },
 
-  fraction(numerator: MathNode, denominator: MathNode): FractionNode {
-    return { kind: 'fraction', numerator, denominator };
+  fraction(numerator: MathNode, denominator: MathNode, style: FractionNode['style'] = 'frac'): FractionNode {
+    const base: FractionNode = { kind: 'fraction', numerator, denominator };
+    return style === 'frac' ? base : { ...base, style };
   },
 
   power(base: MathNode, exponent: MathNode): PowerNode {
     return { kind: 'power', base, exponent };
   },
 
+  prime(base: MathNode, count = 1): PrimeNode {
+    return { kind: 'prime', base, count };
+  },
+
   subscript(base: MathNode, subscript: MathNode): SubscriptNode {
     return { kind: 'subscript', base, subscript };
   },
@@ -213,16 +362,19 @@ export const node = {
     content: MathNode,
     open: ParensNode['open'] = '(',
     close: ParensNode['close'] = ')',
-    size?: ParensNode['size']
+    size?: ParensNode['size'],
+    sizing?: ParensNode['sizing']
   ): ParensNode {
     const base: ParensNode = { kind: 'parens', open, close, content };
-    return size ? { ...base, size } : base;
+    const sized = size ? { ...base, size } : base;
+    return sizing ? { ...sized, sizing } : sized;
   },
 
-  function(name: string, argument?: MathNode, limits?: FunctionNode['limits']): FunctionNode {
+  function(name: string, argument?: MathNode, limits?: FunctionNode['limits'], starred?: boolean): FunctionNode {
     const base: FunctionNode = { kind: 'function', name };
     if (argument) (base as { argument: MathNode }).argument = argument;
     if (limits) (base as { limits: FunctionNode['limits'] }).limits = limits;
+    if (starred) (base as { starred: boolean }).starred = true;
     return base;
   },
 
@@ -235,14 +387,60 @@ export const node = {
     if (colSpec) (base as { colSpec: string }).colSpec = colSpec;
     return base;
   },
+
+  cases(rows: CasesNode['rows'], style: CasesNode['style'] = 'cases'): CasesNode {
+    return { kind: 'cases', rows, style };
+  },
+
+  aligned(rows: AlignedNode['rows'], style: AlignedNode['style'] = 'aligned'): AlignedNode {
+    return { kind: 'aligned', rows, style };
+  },
+
+  accent(accent: AccentNode['accent'], body: MathNode): AccentNode {
+    return { kind: 'accent', accent, body };
+  },
+
+  font(variant: FontNode['variant'], body: MathNode): FontNode {
+    return { kind: 'font', variant, body };
+  },
+
+  overunder(
+    command: OverUnderNode['command'],
+    body: MathNode,
+    over?: MathNode,
+    under?: MathNode
+  ): OverUnderNode {
+    const base: OverUnderNode = { kind: 'overunder', command, body };
+    if (over) (base as { over: MathNode }).over = over;
+    if (under) (base as { under: MathNode }).under = under;
+    return base;
+  },
+
+  color(command: ColorNode['command'], color: string, body: MathNode, frameColor?: string): ColorNode {
+    const base: ColorNode = { kind: 'color', command, color, body };
+    if (frameColor) (base as { frameColor: string }).frameColor = frameColor;
+    return base;
+  },
+
+  binom(top: MathNode, bottom: MathNode, variant: BinomNode['variant'] = 'binom'): BinomNode {
+    return { kind: 'binom', top, bottom, variant };
+  },
+
+  mixedNumber(whole: MathNode, numerator: MathNode, denominator: MathNode): MixedNumberNode {
+    return { kind: 'mixedNumber', whole, numerator, denominator };
+  },
+
+  repeatingDecimal(decimal: MathNode, repetend: MathNode): RepeatingDecimalNode {
+    return { kind: 'repeatingDecimal', decimal, repetend };
+  },
 };
 
 // =============================================================================
 // Type Guards
 // =============================================================================
 
-export function isLeafNode(n: MathNode): n is NumberNode | SymbolNode | OperatorNode | TextNode | SpaceNode | PlaceholderNode {
-  return ['number', 'symbol', 'operator', 'text', 'space', 'placeholder'].includes(n.kind);
+export function isLeafNode(n: MathNode): n is NumberNode | SymbolNode | OperatorNode | TextNode | SpaceNode | PlaceholderNode | MacroNode | ErrorNode {
+  return ['number', 'symbol', 'operator', 'text', 'space', 'placeholder', 'macro', 'error'].includes(n.kind);
 }
 
 export function isContainerNode(n: MathNode): boolean {
@@ -262,8 +460,16 @@ export function getChildren(n: MathNode): readonly MathNode[] {
       return n.children;
     case 'fraction':
       return [n.numerator, n.denominator];
+    case 'binom':
+      return [n.top, n.bottom];
+    case 'mixedNumber':
+      return [n.whole, n.numerator, n.denominator];
+    case 'repeatingDecimal':
+      return [n.decimal, n.repetend];
     case 'power':
       return [n.base, n.exponent];
+    case 'prime':
+      return [n.base];
     case 'subscript':
       return [n.base, n.subscript];
     case 'subsup':
@@ -280,23 +486,48 @@ export function getChildren(n: MathNode): readonly MathNode[] {
       return children;
     }
     case 'matrix':
+    case 'cases':
+    case 'aligned':
       return n.rows.flat();
+    case 'accent':
+    case 'font':
+    case 'color':
+      return [n.body];
+    case 'overunder': {
+      const children: MathNode[] = [n.body];
+      if (n.over) children.push(n.over);
+      if (n.under) children.push(n.under);
+      return children;
+    }
     default:
       return [];
   }
 }
 
 /**
- * Map over all children of a node, creating a new node with transformed children
+ * Map over all children of a node, creating a new node with transformed children.
+ * The source span of the node itself is preserved.
  */
 export function mapChildren(n: MathNode, fn: (child: MathNode) => MathNode): MathNode {
+  return preserveSpan(n, mapChildNodes(n, fn));
+}
+
+function mapChildNodes(n: MathNode, fn: (child: MathNode) => MathNode): MathNode {
   switch (n.kind) {
     case 'row':
       return node.row(n.children.map(fn));
     case 'fraction':
-      return node.fraction(fn(n.numerator), fn(n.denominator));
+      return node.fraction(fn(n.numerator), fn(n.denominator), n.style);
+    case 'binom':
+      return node.binom(fn(n.top), fn(n.bottom), n.variant);
+    case 'mixedNumber':
+      return node.mixedNumber(fn(n.whole), fn(n.numerator), fn(n.denominator));
+    case 'repeatingDecimal':
+      return node.repeatingDecimal(fn(n.decimal), fn(n.repetend));
     case 'power':
       return node.power(fn(n.base), fn(n.exponent));
+    case 'prime':
+      return node.prime(fn(n.base), n.count);
     case 'subscript':
       return node.subscript(fn(n.base), fn(n.subscript));
     case 'subsup':
@@ -304,7 +535,7 @@ export function mapChildren(n: MathNode, fn: (child: MathNode) => MathNode): Mat
     case 'sqrt':
       return node.sqrt(fn(n.radicand), n.index ? fn(n.index) : undefined);
     case 'parens':
-      return node.parens(fn(n.content), n.open, n.close, n.size);
+      return node.parens(fn(n.content), n.open, n.close, n.size, n.sizing);
     case 'function':
       return node.function(
         n.name,
@@ -314,7 +545,8 @@ export function mapChildren(n: MathNode, fn: (child: MathNode) => MathNode): Mat
               lower: n.limits.lower ? fn(n.limits.lower) : undefined,
               upper: n.limits.upper ? fn(n.limits.upper) : undefined,
             }
-          : undefined
+          : undefined,
+        n.starred
       );
     case 'matrix':
       return node.matrix(
@@ -322,13 +554,42 @@ export function mapChildren(n: MathNode, fn: (child: MathNode) => MathNode): Mat
         n.style,
         n.colSpec
       );
+    case 'cases':
+      return node.cases(
+        n.rows.map(([value, condition]) => [fn(value), fn(condition)] as const),
+        n.style
+      );
+    case 'aligned':
+      return node.aligned(n.rows.map((row) => row.map(fn)), n.style);
+    case 'accent':
+      return node.accent(n.accent, fn(n.body));
+    case 'font':
+      return node.font(n.variant, fn(n.body));
+    case 'color':
+      return node.color(n.command, n.color, fn(n.body), n.frameColor);
+    case 'overunder':
+      return node.overunder(
+        n.command,
+        fn(n.body),
+        n.over ? fn(n.over) : undefined,
+        n.under ? fn(n.under) : undefined
+      );
     default:
       return n;
   }
 }
 
 /**
- * Deep equality check for two nodes
+ * Copy the source span of `from` onto a rebuilt node
+ */
+function preserveSpan<T extends MathNode>(from: MathNode, to: T): T {
+  if (from === to || !from.span) return to;
+  return { ...to, span: from.span };
+}
+
+/**
+ * Deep equality check for two nodes.
+ * Source spans and spellings are ignored: equal math parsed from different places is equal.
  */
 export function nodesEqual(a: MathNode, b: MathNode): boolean {
   if (a.kind !== b.kind) return false;
@@ -338,18 +599,46 @@ export function nodesEqual(a: MathNode, b: MathNode): boolean {
     case 'symbol':
     case 'operator':
     case 'text':
+    case 'error':
       return a.value === (b as typeof a).value;
     case 'space':
       return a.size === (b as SpaceNode).size;
     case 'placeholder':
       return true;
+    case 'macro': {
+      const bMacro = b as MacroNode;
+      return a.name === bMacro.name && a.args.length === bMacro.args.length && a.args.every((arg, i) => arg === bMacro.args[i]);
+    }
     case 'row': {
       const bRow = b as RowNode;
       return a.children.length === bRow.children.length && a.children.every((c, i) => nodesEqual(c, bRow.children[i]));
     }
     case 'fraction': {
       const bFrac = b as FractionNode;
-      return nodesEqual(a.numerator, bFrac.numerator) && nodesEqual(a.denominator, bFrac.denominator);
+      return (
+        (a.style ?? 'frac') === (bFrac.style ?? 'frac') &&
+        nodesEqual(a.numerator, bFrac.numerator) && nodesEqual(a.denominator, bFrac.denominator)
+      );
+    }
+    case 'binom': {
+      const bBinom = b as BinomNode;
+      return a.variant === bBinom.variant && nodesEqual(a.top, bBinom.top) && nodesEqual(a.bottom, bBinom.bottom);
+    }
+    case 'mixedNumber': {
+      const bMixed = b as MixedNumberNode;
+      return (
+        nodesEqual(a.whole, bMixed.whole) &&
+        nodesEqual(a.numerator, bMixed.numerator) &&
+        nodesEqual(a.denominator, bMixed.denominator)
+      );
+    }
+    case 'repeatingDecimal': {
+      const bRepeating = b as RepeatingDecimalNode;
+      return nodesEqual(a.decimal, bRepeating.decimal) && nodesEqual(a.repetend, bRepeating.repetend);
+    }
+    case 'prime': {
+      const bPrime = b as PrimeNode;
+      return a.count === bPrime.count && nodesEqual(a.base, bPrime.base);
     }
     case 'power': {
       const bPow = b as PowerNode;
@@ -379,12 +668,15 @@ export function nodesEqual(a: MathNode, b: MathNode): boolean {
         a.open === bParens.open &&
         a.close === bParens.close &&
         a.size === bParens.size &&
+        a.sizing?.[0] === bParens.sizing?.[0] &&
+        a.sizing?.[1] === bParens.sizing?.[1] &&
         nodesEqual(a.content, bParens.content)
       );
     }
     case 'function': {
       const bFunc = b as FunctionNode;
       if (a.name !== bFunc.name) return false;
+      if (!a.starred !== !bFunc.starred) return false;
       if (a.argument && bFunc.argument) {
         if (!nodesEqual(a.argument, bFunc.argument)) return false;
       } else if (a.argument || bFunc.argument) {
@@ -417,6 +709,49 @@ export function nodesEqual(a: MathNode, b: MathNode): boolean {
         return row.length === bRow.length && row.every((cell, j) => nodesEqual(cell, bRow[j]));
       });
     }
+    case 'cases': {
+      const bCases = b as CasesNode;
+      if (a.style !== bCases.style) return false;
+      if (a.rows.length !== bCases.rows.length) return false;
+      return a.rows.every((row, i) => row.every((cell, j) => nodesEqual(cell, bCases.rows[i][j])));
+    }
+    case 'aligned': {
+      const bAligned = b as AlignedNode;
+      if (a.style !== bAligned.style) return false;
+      if (a.rows.length !== bAligned.rows.length) return false;
+      return a.rows.every((row, i) => {
+        const bRow = bAligned.rows[i];
+        return row.length === bRow.length && row.every((cell, j) => nodesEqual(cell, bRow[j]));
+      });
+    }
+    case 'accent': {
+      const bAccent = b as AccentNode;
+      return a.accent === bAccent.accent && nodesEqual(a.body, bAccent.body);
+    }
+    case 'font': {
+      const bFont = b as FontNode;
+      return a.variant === bFont.variant && nodesEqual(a.body, bFont.body);
+    }
+    case 'color': {
+      const bColor = b as ColorNode;
+      return (
+        a.command === bColor.command &&
+        a.color === bColor.color &&
+        a.frameColor === bColor.frameColor &&
+        nodesEqual(a.body, bColor.body)
+      );
+    }
+    case 'overunder': {
+      const bOU = b as OverUnderNode;
+      if (a.command !== bOU.command || !nodesEqual(a.body, bOU.body)) return false;
+      if (a.over && bOU.over) {
+        if (!nodesEqual(a.over, bOU.over)) return false;
+      } else if (a.over || bOU.over) {
+        return false;
+      }
+      if (a.under && bOU.under) return nodesEqual(a.under, bOU.under);
+      return !a.under && !bOU.under;
+    }
     default:
       return false;
   }
@@ -457,19 +792,47 @@ export function normalizeForEditor(ast: MathNode): RowNode {
 /**
  * Recursively normalize structure slots to be rows.
  * This makes cursor navigation and insertion predictable.
+ * Source spans of the original nodes are kept, and so is their recorded
+ * source: wrapping slots in rows does not change the LaTeX they stand for.
  */
 function normalizeStructureSlots(n: MathNode): MathNode {
+  const normalized = preserveSpan(n, normalizeSlots(n));
+  if (normalized === n || n.source === undefined) return normalized;
+  return { ...normalized, source: n.source };
+}
+
+function normalizeSlots(n: MathNode): MathNode {
   switch (n.kind) {
     case 'fraction': {
       const num = ensureRow(normalizeStructureSlots(n.numerator));
       const den = ensureRow(normalizeStructureSlots(n.denominator));
-      return node.fraction(num, den);
+      return node.fraction(num, den, n.style);
+    }
+    case 'binom': {
+      const top = ensureRow(normalizeStructureSlots(n.top));
+      const bottom = ensureRow(normalizeStructureSlots(n.bottom));
+      return node.binom(top, bottom, n.variant);
+    }
+    case 'mixedNumber': {
+      const whole = ensureRow(normalizeStructureSlots(n.whole));
+      const num = ensureRow(normalizeStructureSlots(n.numerator));
+      const den = ensureRow(normalizeStructureSlots(n.denominator));
+      return node.mixedNumber(whole, num, den);
+    }
+    case 'repeatingDecimal': {
+      const decimal = ensureRow(normalizeStructureSlots(n.decimal));
+      const repetend = ensureRow(normalizeStructureSlots(n.repetend));
+      return node.repeatingDecimal(decimal, repetend);
     }
     case 'power': {
       const base = normalizeStructureSlots(n.base);
       const exp = ensureRow(normalizeStructureSlots(n.exponent));
       return node.power(base, exp);
     }
+    case 'prime': {
+      const base = normalizeStructureSlots(n.base);
+      return node.prime(base, n.count);
+    }
     case 'subscript': {
       const base = normalizeStructureSlots(n.base);
       const sub = ensureRow(normalizeStructureSlots(n.subscript));
@@ -488,7 +851,7 @@ function normalizeStructureSlots(n: MathNode): MathNode {
     }
     case 'parens': {
       const content = ensureRow(normalizeStructureSlots(n.content));
-      return node.parens(content, n.open, n.close, n.size);
+      return node.parens(content, n.open, n.close, n.size, n.sizing);
     }
     case 'row': {
       return node.row(n.children.map(normalizeStructureSlots));
@@ -499,7 +862,7 @@ function normalizeStructureSlots(n: MathNode): MathNode {
         lower: n.limits.lower ? ensureRow(normalizeStructureSlots(n.limits.lower)) : undefined,
         upper: n.limits.upper ? ensureRow(normalizeStructureSlots(n.limits.upper)) : undefined,
       } : undefined;
-      return node.function(n.name, arg, limits);
+      return node.function(n.name, arg, limits, n.starred);
     }
     case 'matrix': {
       const rows = n.rows.map(row =>
@@ -507,6 +870,37 @@ function normalizeStructureSlots(n: MathNode): MathNode {
       );
       return node.matrix(rows, n.style, n.colSpec);
     }
+    case 'cases': {
+      const rows = n.rows.map(([value, condition]) => [
+        ensureRow(normalizeStructureSlots(value)),
+        ensureRow(normalizeStructureSlots(condition)),
+      ] as const);
+      return node.cases(rows, n.style);
+    }
+    case 'aligned': {
+      const rows = n.rows.map(row =>
+        row.map(cell => ensureRow(normalizeStructureSlots(cell)))
+      );
+      return node.aligned(rows, n.style);
+    }
+    case 'accent': {
+      const body = ensureRow(normalizeStructureSlots(n.body));
+      return node.accent(n.accent, body);
+    }
+    case 'font': {
+      const body = ensureRow(normalizeStructureSlots(n.body));
+      return node.font(n.variant, body);
+    }
+    case 'color': {
+      const body = ensureRow(normalizeStructureSlots(n.body));
+      return node.color(n.command, n.color, body, n.frameColor);
+    }
+    case 'overunder': {
+      const body = ensureRow(normalizeStructureSlots(n.body));
+      const over = n.over ? ensureRow(normalizeStructureSlots(n.over)) : undefined;
+      const under = n.under ? ensureRow(normalizeStructureSlots(n.under)) : undefined;
+      return node.overunder(n.command, body, over, under);
+    }
     default:
       return n;
   }
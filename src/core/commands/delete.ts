@@ -4,7 +4,7 @@
  * Commands for deleting content from the math AST.
  */
 
-import { MathNode, node as nodeBuilder } from '../ast';
+import { MathNode, AlignedNode, PrimeNode, FunctionNode, node as nodeBuilder } from '../ast';
 import { EditorState, updateState } from '../model';
 import { Selection, collapsedSelection, isCollapsed, getStart, getEnd } from '../selection';
 import {
@@ -112,6 +112,11 @@ function deleteAtPosition(
         // This allows deleteBackward to fall back to moveLeft, which exits the structure
         // This is the expected UX: backspace at start of a nested row should exit, not delete
         if (pos.path.length > 0) {
+          // Except in aligned cells, where it removes the alignment point or line break before the cell
+          const parent = getNodeAtPath(root, parentPath(pos.path));
+          if (parent?.kind === 'aligned' && indexInParent(pos.path) > 0) {
+            return mergeAlignedCellBackward(root, parentPath(pos.path), indexInParent(pos.path));
+          }
           return null;
         }
 
@@ -133,6 +138,16 @@ function deleteAtPosition(
       const targetIdx = pos.offset - 1;
       const targetChild = children[targetIdx];
 
+      // Backspace after f'' removes one prime mark at a time
+      if (targetChild.kind === 'prime') {
+        return removePrimeMark(root, pos.path, targetIdx, targetChild);
+      }
+
+      // Backspace after \sum_{i=1}^{n} steps into the upper limit so typed bounds aren't lost
+      if (targetChild.kind === 'function' && hasTypedLimits(targetChild)) {
+        return enterLimit(root, pos.path, targetIdx, targetChild, 'backward');
+      }
+
       // If target is a structure, try to flatten it
       if (isStructuredNode(targetChild)) {
         return flattenStructureBackward(root, pos.path, targetIdx, targetChild);
@@ -156,6 +171,11 @@ function deleteAtPosition(
       const targetIdx = pos.offset;
       const targetChild = children[targetIdx];
 
+      // Delete before \sum_{i=1}^{n} steps into the lower limit
+      if (targetChild.kind === 'function' && hasTypedLimits(targetChild)) {
+        return enterLimit(root, pos.path, targetIdx, targetChild, 'forward');
+      }
+
       // If target is a structure, try to flatten it
       if (isStructuredNode(targetChild)) {
         return flattenStructureForward(root, pos.path, targetIdx, targetChild);
@@ -298,7 +318,7 @@ function findCommonAncestorPath(a: readonly number[], b: readonly number[]): rea
  * Check if a node is a structured node (fraction, power, etc.)
  */
 function isStructuredNode(node: MathNode): boolean {
-  return ['fraction', 'power', 'subscript', 'subsup', 'sqrt', 'parens', 'matrix'].includes(node.kind);
+  return ['fraction', 'binom', 'mixedNumber', 'repeatingDecimal', 'power', 'prime', 'subscript', 'subsup', 'sqrt', 'parens', 'matrix', 'cases', 'aligned', 'accent', 'font', 'color', 'overunder'].includes(node.kind);
 }
 
 /**
@@ -337,6 +357,56 @@ function flattenStructureBackward(
   return [newRoot, newPos];
 }
 
+/**
+ * Whether a large operator or limit has bounds with content in them
+ */
+function hasTypedLimits(fn: FunctionNode): boolean {
+  const bounds = [fn.limits?.lower, fn.limits?.upper].filter((b): b is MathNode => !!b);
+  return bounds.some((b) => (b.kind === 'row' ? b.children : [b]).some((n) => n.kind !== 'placeholder'));
+}
+
+/**
+ * Put the cursor at the end of the last limit (backward) or the start of the
+ * first (forward), leaving the tree as it is. Children are [argument?, lower?, upper?].
+ */
+function enterLimit(
+  root: MathNode,
+  rowPath: readonly number[],
+  targetIdx: number,
+  fn: FunctionNode,
+  direction: 'forward' | 'backward'
+): [MathNode, CursorPosition] | null {
+  const children = getChildNodes(fn);
+  const first = fn.argument ? 1 : 0;
+  const slotIdx = direction === 'backward' ? children.length - 1 : first;
+  const slot = children[slotIdx];
+  if (!slot || slot.kind !== 'row') return null;
+
+  const offset = direction === 'backward' ? slot.children.length : 0;
+  return [root, cursor([...rowPath, targetIdx, slotIdx], offset)];
+}
+
+/**
+ * Drop the last prime mark, unwrapping the base when none are left.
+ * The cursor stays after what remains.
+ */
+function removePrimeMark(
+  root: MathNode,
+  rowPath: readonly number[],
+  targetIdx: number,
+  prime: PrimeNode
+): [MathNode, CursorPosition] | null {
+  if (prime.count > 1) {
+    const newRoot = replaceNodeAtPath(root, [...rowPath, targetIdx], nodeBuilder.prime(prime.base, prime.count - 1));
+    return [newRoot, cursor(rowPath, targetIdx + 1)];
+  }
+
+  const result = flattenStructureBackward(root, rowPath, targetIdx, prime);
+  if (!result) return null;
+  const baseLength = prime.base.kind === 'row' ? prime.base.children.length : 1;
+  return [result[0], cursor(rowPath, targetIdx + baseLength)];
+}
+
 /**
  * Flatten a structure when deleting forward into it
  */
@@ -386,6 +456,49 @@ function deleteContainingStructure(
   return [newRoot, newPos];
 }
 
+/**
+ * Merge an aligned cell into the cell before it. At the start of a line this
+ * joins the line onto the previous one.
+ */
+function mergeAlignedCellBackward(
+  root: MathNode,
+  alignedPath: readonly number[],
+  cellIdx: number
+): [MathNode, CursorPosition] | null {
+  const aligned = getNodeAtPath(root, alignedPath) as AlignedNode;
+  const rows = aligned.rows.map((row) => [...row]);
+
+  let line = 0;
+  let col = cellIdx;
+  while (line < rows.length && col >= rows[line].length) {
+    col -= rows[line].length;
+    line++;
+  }
+  if (line >= rows.length) return null;
+
+  const prevLine = col > 0 ? line : line - 1;
+  const prevCol = col > 0 ? col - 1 : rows[prevLine].length - 1;
+  if (prevCol < 0) return null;
+
+  const withoutPlaceholders = (cell: MathNode) =>
+    (cell.kind === 'row' ? cell.children : [cell]).filter((n) => n.kind !== 'placeholder');
+  const before = withoutPlaceholders(rows[prevLine][prevCol]);
+  const merged = [...before, ...withoutPlaceholders(rows[line][col])];
+  rows[prevLine][prevCol] = nodeBuilder.row(merged.length > 0 ? merged : [nodeBuilder.placeholder()]);
+
+  if (col > 0) {
+    rows[line].splice(col, 1);
+  } else {
+    rows[prevLine].push(...rows[line].slice(1));
+    rows.splice(line, 1);
+  }
+
+  const newRoot = replaceNodeAtPath(root, alignedPath, nodeBuilder.aligned(rows, aligned.style));
+
+  // The merged cell keeps the previous cell's flat index
+  return [newRoot, cursor([...alignedPath, cellIdx - 1], before.length)];
+}
+
 /**
  * Get the "main" content of a structure
  */
@@ -393,8 +506,19 @@ function getMainContent(node: MathNode): MathNode | null {
   switch (node.kind) {
     case 'fraction':
       return node.numerator; // Keep numerator when flattening
+    case 'binom':
+      return node.top;
+    case 'mixedNumber':
+      return node.whole; // Keep the whole part, like a fraction keeps its numerator
+    case 'repeatingDecimal': {
+      // Drop the bar but keep all the digits
+      const digits = (n: MathNode) => (n.kind === 'row' ? n.children : [n]);
+      return nodeBuilder.row([...digits(node.decimal), ...digits(node.repetend)]);
+    }
     case 'power':
       return node.base;
+    case 'prime':
+      return node.base;
     case 'subscript':
       return node.base;
     case 'subsup':
@@ -403,6 +527,11 @@ function getMainContent(node: MathNode): MathNode | null {
       return node.radicand;
     case 'parens':
       return node.content;
+    case 'accent':
+    case 'font':
+    case 'color':
+    case 'overunder':
+      return node.body;
     default:
       return null;
   }
@@ -442,14 +571,43 @@ function replaceChild(parent: MathNode, index: number, newChild: MathNode): Math
 
     case 'fraction':
       return index === 0
-        ? nodeBuilder.fraction(newChild, parent.denominator)
-        : nodeBuilder.fraction(parent.numerator, newChild);
+        ? nodeBuilder.fraction(newChild, parent.denominator, parent.style)
+        : nodeBuilder.fraction(parent.numerator, newChild, parent.style);
+
+    case 'binom':
+      return index === 0
+        ? nodeBuilder.binom(newChild, parent.bottom, parent.variant)
+        : nodeBuilder.binom(parent.top, newChild, parent.variant);
+
+    case 'mixedNumber':
+      return nodeBuilder.mixedNumber(
+        index === 0 ? newChild : parent.whole,
+        index === 1 ? newChild : parent.numerator,
+        index === 2 ? newChild : parent.denominator
+      );
+
+    case 'repeatingDecimal':
+      return index === 0
+        ? nodeBuilder.repeatingDecimal(newChild, parent.repetend)
+        : nodeBuilder.repeatingDecimal(parent.decimal, newChild);
 
     case 'power':
       return index === 0
         ? nodeBuilder.power(newChild, parent.exponent)
         : nodeBuilder.power(parent.base, newChild);
 
+    case 'prime':
+      return nodeBuilder.prime(newChild, parent.count);
+
+    case 'function': {
+      // Children are [argument?, lower?, upper?]
+      let slot = 0;
+      const argument = parent.argument ? (slot++ === index ? newChild : parent.argument) : undefined;
+      const lower = parent.limits?.lower ? (slot++ === index ? newChild : parent.limits.lower) : undefined;
+      const upper = parent.limits?.upper ? (slot++ === index ? newChild : parent.limits.upper) : undefined;
+      return nodeBuilder.function(parent.name, argument, parent.limits ? { lower, upper } : undefined, parent.starred);
+    }
+
     case 'subscript':
       return index === 0
         ? nodeBuilder.subscript(newChild, parent.subscript)
@@ -466,7 +624,41 @@ function replaceChild(parent: MathNode, index: number, newChild: MathNode): Math
         : nodeBuilder.sqrt(parent.radicand, newChild);
 
     case 'parens':
-      return nodeBuilder.parens(newChild, parent.open, parent.close, parent.size);
+      return nodeBuilder.parens(newChild, parent.open, parent.close, parent.size, parent.sizing);
+
+    case 'cases': {
+      // Flat index alternates value (even) and condition (odd) per row
+      const rowIdx = Math.floor(index / 2);
+      const newRows = parent.rows.map((row, r) =>
+        r === rowIdx
+          ? (index % 2 === 0 ? [newChild, row[1]] as const : [row[0], newChild] as const)
+          : row
+      );
+      return nodeBuilder.cases(newRows, parent.style);
+    }
+
+    case 'aligned': {
+      // Cells are addressed by their index in the flattened lines
+      let cellIdx = 0;
+      const newRows = parent.rows.map((row) => row.map((cell) => (cellIdx++ === index ? newChild : cell)));
+      return nodeBuilder.aligned(newRows, parent.style);
+    }
+
+    case 'accent':
+      return nodeBuilder.accent(parent.accent, newChild);
+
+    case 'font':
+      return nodeBuilder.font(parent.variant, newChild);
+
+    case 'color':
+      return nodeBuilder.color(parent.command, parent.color, newChild, parent.frameColor);
+
+    case 'overunder': {
+      // Children are [body, over?, under?]
+      if (index === 0) return nodeBuilder.overunder(parent.command, newChild, parent.over, parent.under);
+      if (index === 1 && parent.over) return nodeBuilder.overunder(parent.command, parent.body, newChild, parent.under);
+      return nodeBuilder.overunder(parent.command, parent.body, parent.over, newChild);
+    }
 
     default:
       return parent;
@@ -29,6 +29,8 @@ export {
   selectAll,
   moveToNextPlaceholder,
   moveToPreviousPlaceholder,
+  moveToNextCell,
+  moveToPreviousCell,
 } from './navigate';
 
 // Insert
@@ -36,13 +38,33 @@ export {
   insertCharacter,
   insertOperator,
   insertGreek,
+  insertFunction,
+  insertLargeOperator,
+  type LargeOperatorName,
+  insertNode,
   insertFraction,
+  cycleFractionStyle,
+  insertBinomial,
+  insertMixedNumber,
+  insertRepeatingDecimal,
   insertSqrt,
+  insertNthRoot,
   insertParens,
   insertSuperscript,
   insertSubscript,
+  insertPrime,
+  insertAccent,
+  insertFont,
+  applyColor,
+  insertOverUnder,
   insertMatrix,
   type MatrixStyle,
+  insertCases,
+  addCaseRow,
+  removeCaseRow,
+  insertAligned,
+  insertLineBreak,
+  insertAlignmentPoint,
 } from './insert';
 
 // Delete
@@ -4,7 +4,7 @@
  * Commands for inserting content into the math AST.
  */
 
-import { MathNode, node as nodeBuilder, RowNode } from '../ast';
+import { MathNode, node as nodeBuilder, RowNode, FractionNode, AccentNode, FontNode, ColorNode, OverUnderNode, BinomNode, CasesNode, AlignedNode, normalizeForEditor } from '../ast';
 import { EditorState, updateState } from '../model';
 import { Selection, collapsedSelection, isCollapsed, getStart, getEnd, extractSelectedNodes } from '../selection';
 import {
@@ -13,6 +13,9 @@ import {
   getNodeAtPath,
   parentPath,
   indexInParent,
+  findAncestorOfKind,
+  findFirstFocusable,
+  findLastFocusable,
 } from '../cursor';
 import { Command } from './types';
 
@@ -134,14 +137,92 @@ export function insertGreek(name: string): Command {
   };
 }
 
+/**
+ * Insert a named function such as sin or a custom name like sgn.
+ * The name is a single atom; the cursor ends up after it.
+ */
+export function insertFunction(name: string): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, nodeBuilder.function(name));
+    if (!result) return null;
+
+    const [newRoot, newPos] = result;
+    return updateState(state, newRoot, collapsedSelection(newPos));
+  };
+}
+
+export type LargeOperatorName =
+  | 'sum' | 'prod' | 'coprod'
+  | 'int' | 'iint' | 'iiint' | 'oint'
+  | 'bigcup' | 'bigcap' | 'bigoplus' | 'bigotimes' | 'bigvee' | 'bigwedge'
+  | 'lim' | 'limsup' | 'liminf';
+
+// Limits of these only have a lower bound: \lim_{x \to 0}
+const LOWER_LIMIT_ONLY = new Set<LargeOperatorName>(['lim', 'limsup', 'liminf']);
+
+/**
+ * Insert a large operator (\sum, \int, \lim, ...) with empty limit slots.
+ * The cursor starts in the lower limit; the operand follows it in the row.
+ */
+export function insertLargeOperator(name: LargeOperatorName): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+    const upper = LOWER_LIMIT_ONLY.has(name) ? undefined : nodeBuilder.row([nodeBuilder.placeholder()]);
+    const operator = nodeBuilder.function(name, undefined, {
+      lower: nodeBuilder.row([nodeBuilder.placeholder()]),
+      upper,
+    });
+
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, operator);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Move cursor into the lower limit (child 0: there is no argument)
+    const cursorPos = cursor([...insertPos.path, insertPos.offset - 1, 0], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Insert an arbitrary node (e.g. parsed LaTeX), replacing the selection.
+ * A row is spliced in child by child; the cursor ends up after the content.
+ */
+export function insertNode(newNode: MathNode): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    let [newRoot, newPos] = deleteSelectionContent(root, selection);
+
+    // Normalize so structure slots are rows the cursor can enter
+    for (const child of normalizeForEditor(newNode).children) {
+      const result = insertNodeAtPosition(newRoot, newPos, child);
+      if (!result) return null;
+      [newRoot, newPos] = result;
+    }
+
+    return updateState(state, newRoot, collapsedSelection(newPos));
+  };
+}
+
 // =============================================================================
 // Structure Insert Commands
 // =============================================================================
 
 /**
- * Insert a fraction, wrapping selection as numerator
+ * Insert a fraction, wrapping selection as numerator.
+ * With `mixedNumber`, a fraction typed right after a whole number makes a
+ * mixed number of it instead (see insertMixedNumber).
  */
-export function insertFraction(): Command {
+export function insertFraction(options: { mixedNumber?: boolean } = {}): Command {
   return (state: EditorState) => {
     const { root, selection } = state;
 
@@ -150,6 +231,10 @@ export function insertFraction(): Command {
       return wrapSelectionInFraction(state);
     }
 
+    if (options.mixedNumber && findNumberBefore(root, selection.focus, false)) {
+      return insertMixedNumber()(state);
+    }
+
     // Insert empty fraction with cursor in numerator
     // Numerator and denominator are rows so they can contain multiple elements
     const pos = selection.focus;
@@ -173,6 +258,199 @@ export function insertFraction(): Command {
   };
 }
 
+// Styles cycleFractionStyle steps through, in order
+const FRACTION_STYLES: readonly NonNullable<FractionNode['style']>[] = ['frac', 'dfrac', 'tfrac', 'cfrac'];
+
+/**
+ * Switch the fraction containing the cursor, or else the one just before it,
+ * to the next style: \frac, \dfrac, \tfrac, \cfrac, then \frac again
+ */
+export function cycleFractionStyle(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+    const { path, offset } = selection.focus;
+
+    let fracPath = findAncestorOfKind(root, path, 'fraction');
+    if (!fracPath && offset > 0 && getNodeAtPath(root, [...path, offset - 1])?.kind === 'fraction') {
+      fracPath = [...path, offset - 1];
+    }
+    if (!fracPath) return null;
+    const fraction = getNodeAtPath(root, fracPath) as FractionNode;
+
+    const styleIdx = FRACTION_STYLES.indexOf(fraction.style ?? 'frac');
+    const style = FRACTION_STYLES[(styleIdx + 1) % FRACTION_STYLES.length];
+    const newRoot = replaceNodeAtPath(
+      root,
+      fracPath,
+      nodeBuilder.fraction(fraction.numerator, fraction.denominator, style)
+    );
+
+    return updateState(state, newRoot, selection);
+  };
+}
+
+/**
+ * Insert a binomial coefficient. A selection becomes the top and the cursor
+ * moves to the bottom; otherwise the cursor starts in the empty top.
+ */
+export function insertBinomial(variant: BinomNode['variant'] = 'binom'): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const selectedNode = isCollapsed(selection) ? null : extractSelectedNodes(root, selection);
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+    const top = selectedNode
+      ? (selectedNode.kind === 'row' ? selectedNode : nodeBuilder.row([selectedNode]))
+      : nodeBuilder.row([nodeBuilder.placeholder()]);
+    const binom = nodeBuilder.binom(top, nodeBuilder.row([nodeBuilder.placeholder()]), variant);
+
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, binom);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Top is child 0, bottom child 1
+    const binomPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...binomPath, selectedNode ? 1 : 0], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Insert a mixed number (2 ¾). The whole number just before the cursor, or
+ * the selection, becomes the whole part and the cursor moves to the
+ * numerator; otherwise the cursor starts in the empty whole part.
+ */
+export function insertMixedNumber(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+    const empty = () => nodeBuilder.row([nodeBuilder.placeholder()]);
+
+    if (isCollapsed(selection)) {
+      const digits = findNumberBefore(root, selection.focus, false);
+      if (digits) {
+        const [rowPath, start, whole] = digits;
+        const mixed = nodeBuilder.mixedNumber(nodeBuilder.row(whole), empty(), empty());
+        return replaceRunWith(state, rowPath, start, whole.length, mixed, 1);
+      }
+    }
+
+    const selectedNode = isCollapsed(selection) ? null : extractSelectedNodes(root, selection);
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+    const whole = selectedNode
+      ? (selectedNode.kind === 'row' ? selectedNode : nodeBuilder.row([selectedNode]))
+      : empty();
+    const mixed = nodeBuilder.mixedNumber(whole, empty(), empty());
+
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, mixed);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Whole part is child 0, numerator child 1
+    const mixedPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...mixedPath, selectedNode ? 1 : 0], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Insert a repeating decimal (0.3̅). The decimal just before the cursor (or
+ * before the selection) becomes the part ahead of the bar, gaining a point
+ * if it has none. A selection becomes the repeating block and the cursor
+ * ends after it; otherwise the cursor moves into the empty block.
+ */
+export function insertRepeatingDecimal(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+    const empty = () => nodeBuilder.row([nodeBuilder.placeholder()]);
+
+    const selectedNode = isCollapsed(selection) ? null : extractSelectedNodes(root, selection);
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+    const repetend = selectedNode
+      ? (selectedNode.kind === 'row' ? selectedNode : nodeBuilder.row([selectedNode]))
+      : empty();
+    const cleanState = updateState(state, cleanRoot, collapsedSelection(cleanPos));
+
+    const digits = findNumberBefore(cleanRoot, cleanPos, true);
+    if (digits) {
+      const [rowPath, start, decimal] = digits;
+      const hasPoint = decimal.some((n) => n.kind === 'operator' || (n.kind === 'number' && n.value.includes('.')));
+      const point = hasPoint ? [] : [nodeBuilder.operator('.')];
+      const repeating = nodeBuilder.repeatingDecimal(nodeBuilder.row([...decimal, ...point]), repetend);
+      const offset = selectedNode ? repetend.children.length : 0;
+      return replaceRunWith(cleanState, rowPath, start, decimal.length, repeating, 1, offset);
+    }
+
+    const repeating = nodeBuilder.repeatingDecimal(empty(), repetend);
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, repeating);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Decimal part is child 0, repeating block child 1
+    const repeatingPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = selectedNode
+      ? cursor([...repeatingPath, 1], repetend.children.length)
+      : cursor([...repeatingPath, 0], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Find the number typed just before the cursor: the run of digit atoms
+ * (and decimal points, when allowed) that ends at the cursor.
+ * Returns [rowPath, start index, atoms] or null if there is none.
+ */
+function findNumberBefore(
+  root: MathNode,
+  pos: CursorPosition,
+  allowPoint: boolean
+): [readonly number[], number, MathNode[]] | null {
+  const row = getNodeAtPath(root, pos.path);
+  if (!row || row.kind !== 'row') return null;
+
+  let start = pos.offset;
+  while (start > 0) {
+    const prev = row.children[start - 1];
+    const isDigits = prev.kind === 'number' && (allowPoint || /^[0-9]+$/.test(prev.value));
+    const isPoint = allowPoint && prev.kind === 'operator' && prev.value === '.';
+    if (!isDigits && !isPoint) break;
+    start--;
+  }
+
+  if (start === pos.offset) return null;
+  return [pos.path, start, row.children.slice(start, pos.offset)];
+}
+
+/**
+ * Replace `count` children of a row with a structure and put the cursor in
+ * one of its slots
+ */
+function replaceRunWith(
+  state: EditorState,
+  rowPath: readonly number[],
+  start: number,
+  count: number,
+  structure: MathNode,
+  slot: number,
+  offset: number = 0
+): EditorState | null {
+  const row = getNodeAtPath(state.root, rowPath);
+  if (!row || row.kind !== 'row') return null;
+
+  const newChildren = [...row.children.slice(0, start), structure, ...row.children.slice(start + count)];
+  const newRoot = replaceNodeAtPath(state.root, rowPath, nodeBuilder.row(newChildren));
+
+  return updateState(state, newRoot, collapsedSelection(cursor([...rowPath, start, slot], offset)));
+}
+
 /**
  * Insert a square root
  */
@@ -205,6 +483,37 @@ export function insertSqrt(): Command {
   };
 }
 
+/**
+ * Insert an nth root with the cursor in its index.
+ * A selection becomes the radicand.
+ */
+export function insertNthRoot(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    if (!isCollapsed(selection)) {
+      return wrapSelectionInSqrt(state, true);
+    }
+
+    const pos = selection.focus;
+    const sqrt = nodeBuilder.sqrt(
+      nodeBuilder.row([nodeBuilder.placeholder()]),
+      nodeBuilder.row([nodeBuilder.placeholder()])
+    );
+
+    const result = insertNodeAtPosition(root, pos, sqrt);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Index is child 1 of the sqrt
+    const sqrtPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...sqrtPath, 1], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
 /**
  * Insert parentheses, wrapping selection
  */
@@ -315,6 +624,164 @@ export function insertSubscript(): Command {
   };
 }
 
+/**
+ * Add a prime mark to the atom before the cursor (f → f', f' → f'')
+ */
+export function insertPrime(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+    const pos = selection.focus;
+
+    const rowInfo = findContainingRow(root, pos);
+    if (!rowInfo) return null;
+
+    const [rowPath, offset] = rowInfo;
+    const row = getNodeAtPath(root, rowPath);
+    if (!row || row.kind !== 'row') return null;
+
+    // Nothing to mark at the start of a row or after an operator
+    if (offset === 0 || offset > row.children.length) return null;
+    const childIdx = offset - 1;
+    const base = row.children[childIdx];
+    if (base.kind === 'placeholder' || base.kind === 'operator') return null;
+
+    const primed = base.kind === 'prime'
+      ? nodeBuilder.prime(base.base, base.count + 1)
+      : nodeBuilder.prime(base);
+
+    const newChildren = [...row.children.slice(0, childIdx), primed, ...row.children.slice(childIdx + 1)];
+    const newRoot = replaceNodeAtPath(root, rowPath, nodeBuilder.row(newChildren));
+
+    // Cursor stays after the primed atom
+    return updateState(state, newRoot, collapsedSelection(cursor(rowPath, offset)));
+  };
+}
+
+/**
+ * Insert an accent (\hat, \vec, \overline, ...), wrapping selection as its body
+ */
+export function insertAccent(accent: AccentNode['accent']): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    // If there's a selection, wrap it
+    if (!isCollapsed(selection)) {
+      return wrapSelectionInAccent(state, accent);
+    }
+
+    // Insert empty accent with cursor in body
+    const pos = selection.focus;
+    const accentNode = nodeBuilder.accent(accent, nodeBuilder.row([nodeBuilder.placeholder()]));
+
+    const result = insertNodeAtPosition(root, pos, accentNode);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Move cursor into body
+    // The accent was inserted at insertPos.path with index insertPos.offset - 1
+    // Body is child 0 of the accent
+    const accentPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...accentPath, 0], 0); // body row
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Insert a font style (\mathbb, \mathcal, \mathbf, ...), wrapping selection as its body
+ */
+export function insertFont(variant: FontNode['variant']): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    // If there's a selection, wrap it
+    if (!isCollapsed(selection)) {
+      return wrapSelectionInFont(state, variant);
+    }
+
+    // Insert empty font node with cursor in body
+    const pos = selection.focus;
+    const fontNode = nodeBuilder.font(variant, nodeBuilder.row([nodeBuilder.placeholder()]));
+
+    const result = insertNodeAtPosition(root, pos, fontNode);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Move cursor into body (child 0 of the font node)
+    const fontPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...fontPath, 0], 0); // body row
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Color the selection (\textcolor). A selection that is exactly one colored
+ * node is recolored instead of nested; with no selection an empty colored
+ * slot is inserted and the cursor moves into it.
+ */
+export function applyColor(color: string): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    if (!isCollapsed(selection)) {
+      return wrapSelectionInColor(state, color);
+    }
+
+    const pos = selection.focus;
+    const colorNode = nodeBuilder.color('textcolor', color, nodeBuilder.row([nodeBuilder.placeholder()]));
+
+    const result = insertNodeAtPosition(root, pos, colorNode);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Move cursor into body (child 0 of the color node)
+    const colorPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...colorPath, 0], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Insert a stacked annotation (\overset, \underbrace, ...).
+ * A selection becomes the body and the cursor moves to the annotation;
+ * otherwise the cursor starts in the empty body.
+ */
+export function insertOverUnder(command: OverUnderNode['command']): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const hasOver = command === 'overset' || command === 'stackrel' || command === 'overbrace';
+    const wrapping = !isCollapsed(selection);
+    const selectedNode = wrapping ? extractSelectedNodes(root, selection) : null;
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+    const body = selectedNode
+      ? (selectedNode.kind === 'row' ? selectedNode : nodeBuilder.row([selectedNode]))
+      : nodeBuilder.row([nodeBuilder.placeholder()]);
+    const annotation = nodeBuilder.row([nodeBuilder.placeholder()]);
+    const overUnder = hasOver
+      ? nodeBuilder.overunder(command, body, annotation)
+      : nodeBuilder.overunder(command, body, undefined, annotation);
+
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, overUnder);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // Body is child 0, the annotation child 1
+    const overUnderPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...overUnderPath, selectedNode ? 1 : 0], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
 // =============================================================================
 // Internal Helpers
 // =============================================================================
@@ -477,14 +944,43 @@ function replaceChild(parent: MathNode, index: number, newChild: MathNode): Math
 
     case 'fraction':
       return index === 0
-        ? nodeBuilder.fraction(newChild, parent.denominator)
-        : nodeBuilder.fraction(parent.numerator, newChild);
+        ? nodeBuilder.fraction(newChild, parent.denominator, parent.style)
+        : nodeBuilder.fraction(parent.numerator, newChild, parent.style);
+
+    case 'binom':
+      return index === 0
+        ? nodeBuilder.binom(newChild, parent.bottom, parent.variant)
+        : nodeBuilder.binom(parent.top, newChild, parent.variant);
+
+    case 'mixedNumber':
+      return nodeBuilder.mixedNumber(
+        index === 0 ? newChild : parent.whole,
+        index === 1 ? newChild : parent.numerator,
+        index === 2 ? newChild : parent.denominator
+      );
+
+    case 'repeatingDecimal':
+      return index === 0
+        ? nodeBuilder.repeatingDecimal(newChild, parent.repetend)
+        : nodeBuilder.repeatingDecimal(parent.decimal, newChild);
 
     case 'power':
       return index === 0
         ? nodeBuilder.power(newChild, parent.exponent)
         : nodeBuilder.power(parent.base, newChild);
 
+    case 'prime':
+      return nodeBuilder.prime(newChild, parent.count);
+
+    case 'function': {
+      // Children are [argument?, lower?, upper?]
+      let slot = 0;
+      const argument = parent.argument ? (slot++ === index ? newChild : parent.argument) : undefined;
+      const lower = parent.limits?.lower ? (slot++ === index ? newChild : parent.limits.lower) : undefined;
+      const upper = parent.limits?.upper ? (slot++ === index ? newChild : parent.limits.upper) : undefined;
+      return nodeBuilder.function(parent.name, argument, parent.limits ? { lower, upper } : undefined, parent.starred);
+    }
+
     case 'subscript':
       return index === 0
         ? nodeBuilder.subscript(newChild, parent.subscript)
@@ -501,7 +997,7 @@ function replaceChild(parent: MathNode, index: number, newChild: MathNode): Math
         : nodeBuilder.sqrt(parent.radicand, newChild);
 
     case 'parens':
-      return nodeBuilder.parens(newChild, parent.open, parent.close, parent.size);
+      return nodeBuilder.parens(newChild, parent.open, parent.close, parent.size, parent.sizing);
 
     case 'matrix': {
       // Convert flat index back to row/col indices
@@ -519,6 +1015,40 @@ function replaceChild(parent: MathNode, index: number, newChild: MathNode): Math
       return nodeBuilder.matrix(newRows, parent.style, parent.colSpec);
     }
 
+    case 'cases': {
+      // Flat index alternates value (even) and condition (odd) per row
+      const rowIdx = Math.floor(index / 2);
+      const newRows = parent.rows.map((row, r) =>
+        r === rowIdx
+          ? (index % 2 === 0 ? [newChild, row[1]] as const : [row[0], newChild] as const)
+          : row
+      );
+      return nodeBuilder.cases(newRows, parent.style);
+    }
+
+    case 'aligned': {
+      // Cells are addressed by their index in the flattened lines
+      let cellIdx = 0;
+      const newRows = parent.rows.map((row) => row.map((cell) => (cellIdx++ === index ? newChild : cell)));
+      return nodeBuilder.aligned(newRows, parent.style);
+    }
+
+    case 'accent':
+      return nodeBuilder.accent(parent.accent, newChild);
+
+    case 'font':
+      return nodeBuilder.font(parent.variant, newChild);
+
+    case 'color':
+      return nodeBuilder.color(parent.command, parent.color, newChild, parent.frameColor);
+
+    case 'overunder': {
+      // Children are [body, over?, under?]
+      if (index === 0) return nodeBuilder.overunder(parent.command, newChild, parent.over, parent.under);
+      if (index === 1 && parent.over) return nodeBuilder.overunder(parent.command, parent.body, newChild, parent.under);
+      return nodeBuilder.overunder(parent.command, parent.body, parent.over, newChild);
+    }
+
     default:
       return parent;
   }
@@ -567,14 +1097,15 @@ function wrapSelectionInFraction(state: EditorState): EditorState | null {
 /**
  * Wrap selection in sqrt
  */
-function wrapSelectionInSqrt(state: EditorState): EditorState | null {
+function wrapSelectionInSqrt(state: EditorState, withIndex: boolean = false): EditorState | null {
   const { root, selection } = state;
 
   // Extract the selected content
   const selectedNode = extractSelectedNodes(root, selection);
   if (!selectedNode) {
     // Fallback: just insert empty sqrt
-    return insertSqrt()(updateState(state, root, collapsedSelection(getStart(selection))));
+    const insert = withIndex ? insertNthRoot() : insertSqrt();
+    return insert(updateState(state, root, collapsedSelection(getStart(selection))));
   }
 
   // Delete the selection content first
@@ -586,7 +1117,9 @@ function wrapSelectionInSqrt(state: EditorState): EditorState | null {
     : nodeBuilder.row([selectedNode]);
 
   // Create sqrt with selected content as radicand
-  const sqrt = nodeBuilder.sqrt(radicandContent);
+  const sqrt = withIndex
+    ? nodeBuilder.sqrt(radicandContent, nodeBuilder.row([nodeBuilder.placeholder()]))
+    : nodeBuilder.sqrt(radicandContent);
 
   // Insert the sqrt at the cleaned position
   const result = insertNodeAtPosition(cleanRoot, cleanPos, sqrt);
@@ -594,6 +1127,12 @@ function wrapSelectionInSqrt(state: EditorState): EditorState | null {
 
   const [newRoot, insertPos] = result;
 
+  // An nth root leaves the cursor in the empty index
+  if (withIndex) {
+    const indexPos = cursor([...insertPos.path, insertPos.offset - 1, 1], 0);
+    return updateState(state, newRoot, collapsedSelection(indexPos));
+  }
+
   // Position cursor at the end of the radicand content
   const sqrtPath = [...insertPos.path, insertPos.offset - 1];
   const radicandPath = [...sqrtPath, 0];
@@ -654,6 +1193,125 @@ function wrapSelectionInParens(
   return updateState(state, newRoot, collapsedSelection(cursorPos));
 }
 
+/**
+ * Wrap selection in an accent
+ */
+function wrapSelectionInAccent(state: EditorState, accent: AccentNode['accent']): EditorState | null {
+  const { root, selection } = state;
+
+  // Extract the selected content
+  const selectedNode = extractSelectedNodes(root, selection);
+  if (!selectedNode) {
+    // Fallback: just insert empty accent
+    return insertAccent(accent)(updateState(state, root, collapsedSelection(getStart(selection))));
+  }
+
+  // Delete the selection content first
+  const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+  // Wrap in a row if not already a row
+  const bodyContent = selectedNode.kind === 'row'
+    ? selectedNode
+    : nodeBuilder.row([selectedNode]);
+
+  const accentNode = nodeBuilder.accent(accent, bodyContent);
+
+  // Insert the accent at the cleaned position
+  const result = insertNodeAtPosition(cleanRoot, cleanPos, accentNode);
+  if (!result) return null;
+
+  const [newRoot, insertPos] = result;
+
+  // Position cursor at the end of the body content
+  const accentPath = [...insertPos.path, insertPos.offset - 1];
+  const bodyPath = [...accentPath, 0];
+  const bodyNode = getNodeAtPath(newRoot, bodyPath);
+  const endOffset = bodyNode?.kind === 'row' ? bodyNode.children.length : 0;
+  const cursorPos = cursor(bodyPath, endOffset);
+
+  return updateState(state, newRoot, collapsedSelection(cursorPos));
+}
+
+/**
+ * Wrap selection in a font style
+ */
+function wrapSelectionInFont(state: EditorState, variant: FontNode['variant']): EditorState | null {
+  const { root, selection } = state;
+
+  // Extract the selected content
+  const selectedNode = extractSelectedNodes(root, selection);
+  if (!selectedNode) {
+    // Fallback: just insert empty font node
+    return insertFont(variant)(updateState(state, root, collapsedSelection(getStart(selection))));
+  }
+
+  // Delete the selection content first
+  const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+  // Wrap in a row if not already a row
+  const bodyContent = selectedNode.kind === 'row'
+    ? selectedNode
+    : nodeBuilder.row([selectedNode]);
+
+  const fontNode = nodeBuilder.font(variant, bodyContent);
+
+  const result = insertNodeAtPosition(cleanRoot, cleanPos, fontNode);
+  if (!result) return null;
+
+  const [newRoot, insertPos] = result;
+
+  // Position cursor at the end of the body content
+  const fontPath = [...insertPos.path, insertPos.offset - 1];
+  const bodyPath = [...fontPath, 0];
+  const bodyNode = getNodeAtPath(newRoot, bodyPath);
+  const endOffset = bodyNode?.kind === 'row' ? bodyNode.children.length : 0;
+  const cursorPos = cursor(bodyPath, endOffset);
+
+  return updateState(state, newRoot, collapsedSelection(cursorPos));
+}
+
+/**
+ * Wrap selection in a \textcolor node, or recolor a selected color node
+ */
+function wrapSelectionInColor(state: EditorState, color: string): EditorState | null {
+  const { root, selection } = state;
+
+  const selectedNode = extractSelectedNodes(root, selection);
+  if (!selectedNode) {
+    return applyColor(color)(updateState(state, root, collapsedSelection(getStart(selection))));
+  }
+
+  const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+  const single = selectedNode.kind === 'row' && selectedNode.children.length === 1
+    ? selectedNode.children[0]
+    : selectedNode;
+
+  let colorNode: ColorNode;
+  if (single.kind === 'color') {
+    // \fcolorbox keeps its frame; the new color replaces the text or background color
+    colorNode = nodeBuilder.color(single.command, color, single.body, single.frameColor);
+  } else {
+    const bodyContent = selectedNode.kind === 'row'
+      ? selectedNode
+      : nodeBuilder.row([selectedNode]);
+    colorNode = nodeBuilder.color('textcolor', color, bodyContent);
+  }
+
+  const result = insertNodeAtPosition(cleanRoot, cleanPos, colorNode);
+  if (!result) return null;
+
+  const [newRoot, insertPos] = result;
+
+  // Position cursor at the end of the body content
+  const bodyPath = [...insertPos.path, insertPos.offset - 1, 0];
+  const bodyNode = getNodeAtPath(newRoot, bodyPath);
+  const endOffset = bodyNode?.kind === 'row' ? bodyNode.children.length : 0;
+  const cursorPos = cursor(bodyPath, endOffset);
+
+  return updateState(state, newRoot, collapsedSelection(cursorPos));
+}
+
 // =============================================================================
 // Matrix Commands
 // =============================================================================
@@ -701,3 +1359,244 @@ export function insertMatrix(
     return updateState(state, newRoot, collapsedSelection(cursorPos));
   };
 }
+
+// =============================================================================
+// Cases Commands
+// =============================================================================
+
+/**
+ * Create an empty case: a value cell and a condition cell
+ */
+function emptyCase(): readonly [MathNode, MathNode] {
+  return [nodeBuilder.row([nodeBuilder.placeholder()]), nodeBuilder.row([nodeBuilder.placeholder()])];
+}
+
+/**
+ * Insert a piecewise definition with the given number of cases
+ */
+export function insertCases(rows: number = 2, style: CasesNode['style'] = 'cases'): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+    const caseRows = Array.from({ length: Math.max(1, rows) }, emptyCase);
+    const casesNode = nodeBuilder.cases(caseRows, style);
+
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, casesNode);
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+
+    // First value cell is child 0
+    const casesPath = [...insertPos.path, insertPos.offset - 1];
+    const cursorPos = cursor([...casesPath, 0], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Add an empty case below the one containing the cursor and move into its value cell
+ */
+export function addCaseRow(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const casesPath = findAncestorOfKind(root, selection.focus.path, 'cases');
+    if (!casesPath) return null;
+    const casesNode = getNodeAtPath(root, casesPath) as CasesNode;
+
+    const rowIdx = Math.floor(selection.focus.path[casesPath.length] / 2);
+    const newRows = [
+      ...casesNode.rows.slice(0, rowIdx + 1),
+      emptyCase(),
+      ...casesNode.rows.slice(rowIdx + 1),
+    ];
+
+    const newRoot = replaceNodeAtPath(root, casesPath, nodeBuilder.cases(newRows, casesNode.style));
+    const cursorPos = cursor([...casesPath, (rowIdx + 1) * 2], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Remove the case containing the cursor. The last remaining case cannot be removed.
+ */
+export function removeCaseRow(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const casesPath = findAncestorOfKind(root, selection.focus.path, 'cases');
+    if (!casesPath) return null;
+    const casesNode = getNodeAtPath(root, casesPath) as CasesNode;
+    if (casesNode.rows.length <= 1) return null;
+
+    const rowIdx = Math.floor(selection.focus.path[casesPath.length] / 2);
+    const newRows = casesNode.rows.filter((_, r) => r !== rowIdx);
+
+    const newRoot = replaceNodeAtPath(root, casesPath, nodeBuilder.cases(newRows, casesNode.style));
+
+    // End of the previous case's value, or start of the case that moved up
+    const cursorPos = rowIdx > 0
+      ? findLastFocusable(newRoot, [...casesPath, (rowIdx - 1) * 2])
+      : findFirstFocusable(newRoot, [...casesPath, 0]);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+// =============================================================================
+// Aligned (Multi-line) Commands
+// =============================================================================
+
+/**
+ * Build a cell from top-level nodes, dropping empty slots; an empty cell gets a placeholder
+ */
+function alignedCell(nodes: readonly MathNode[]): RowNode {
+  const content = nodes.filter((n) => n.kind !== 'placeholder');
+  return nodeBuilder.row(content.length > 0 ? content : [nodeBuilder.placeholder()]);
+}
+
+/**
+ * Locate the cursor inside an aligned node: the node's path, the line and
+ * column of the cell, and the offset in the cell's row to split at. A cursor
+ * nested deeper in the cell splits after the structure containing it.
+ */
+function findAlignedCell(
+  root: MathNode,
+  pos: CursorPosition
+): { alignedPath: readonly number[]; aligned: AlignedNode; line: number; col: number; splitAt: number } | null {
+  const alignedPath = findAncestorOfKind(root, pos.path, 'aligned');
+  if (!alignedPath) return null;
+  const aligned = getNodeAtPath(root, alignedPath) as AlignedNode;
+
+  const cellDepth = alignedPath.length + 1;
+  const splitAt = pos.path.length === cellDepth ? pos.offset : pos.path[cellDepth] + 1;
+
+  let line = 0;
+  let col = pos.path[alignedPath.length];
+  while (line < aligned.rows.length && col >= aligned.rows[line].length) {
+    col -= aligned.rows[line].length;
+    line++;
+  }
+  if (line >= aligned.rows.length) return null;
+
+  return { alignedPath, aligned, line, col, splitAt };
+}
+
+/**
+ * Get the top-level nodes of a cell
+ */
+function cellChildren(cell: MathNode): readonly MathNode[] {
+  return cell.kind === 'row' ? cell.children : [cell];
+}
+
+/**
+ * Insert an empty aligned structure with the given number of lines
+ */
+export function insertAligned(lines: number = 2, style: AlignedNode['style'] = 'aligned'): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+
+    const rows = Array.from({ length: Math.max(1, lines) }, () => [alignedCell([])]);
+    const result = insertNodeAtPosition(cleanRoot, cleanPos, nodeBuilder.aligned(rows, style));
+    if (!result) return null;
+
+    const [newRoot, insertPos] = result;
+    const alignedPath = [...insertPos.path, insertPos.offset - 1];
+
+    return updateState(state, newRoot, collapsedSelection(cursor([...alignedPath, 0], 0)));
+  };
+}
+
+/**
+ * Break the line at the cursor. The rest of the cell and the cells after it
+ * move to a new line, keeping their columns; the cursor moves to the start of
+ * the moved content.
+ *
+ * Outside an aligned structure this returns null, unless `startStyle` is
+ * given: then the whole expression is split into the first two lines of a new
+ * aligned structure of that style.
+ */
+export function insertLineBreak(startStyle?: AlignedNode['style']): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+    const found = findAlignedCell(cleanRoot, cleanPos);
+
+    if (!found) {
+      if (!startStyle || cleanRoot.kind !== 'row') return null;
+
+      // A cursor inside a structure splits after that structure
+      const splitAt = cleanPos.path.length === 0 ? cleanPos.offset : cleanPos.path[0] + 1;
+      const lines = [
+        [alignedCell(cleanRoot.children.slice(0, splitAt))],
+        [alignedCell(cleanRoot.children.slice(splitAt))],
+      ];
+      const newRoot = nodeBuilder.row([nodeBuilder.aligned(lines, startStyle)]);
+      return updateState(state, newRoot, collapsedSelection(cursor([0, 1], 0)));
+    }
+
+    const { alignedPath, aligned, line, col, splitAt } = found;
+    const row = aligned.rows[line];
+    const content = cellChildren(row[col]);
+
+    const currentLine = [...row.slice(0, col), alignedCell(content.slice(0, splitAt))];
+    const newLine = [
+      ...Array.from({ length: col }, () => alignedCell([])),
+      alignedCell(content.slice(splitAt)),
+      ...row.slice(col + 1),
+    ];
+    const newRows = [
+      ...aligned.rows.slice(0, line),
+      currentLine,
+      newLine,
+      ...aligned.rows.slice(line + 1),
+    ];
+
+    const newRoot = replaceNodeAtPath(cleanRoot, alignedPath, nodeBuilder.aligned(newRows, aligned.style));
+
+    // The moved content is at the same column of the next line
+    const newLineStart = newRows.slice(0, line + 1).reduce((sum, r) => sum + r.length, 0);
+    const cursorPos = cursor([...alignedPath, newLineStart + col], 0);
+
+    return updateState(state, newRoot, collapsedSelection(cursorPos));
+  };
+}
+
+/**
+ * Split the current cell at the cursor with an & alignment point.
+ * Returns null outside aligned structures and in gathered (which has no columns).
+ */
+export function insertAlignmentPoint(): Command {
+  return (state: EditorState) => {
+    const { root, selection } = state;
+
+    const [cleanRoot, cleanPos] = deleteSelectionContent(root, selection);
+    const found = findAlignedCell(cleanRoot, cleanPos);
+    if (!found || found.aligned.style === 'gathered') return null;
+
+    const { alignedPath, aligned, line, col, splitAt } = found;
+    const row = aligned.rows[line];
+    const content = cellChildren(row[col]);
+
+    const newLine = [
+      ...row.slice(0, col),
+      alignedCell(content.slice(0, splitAt)),
+      alignedCell(content.slice(splitAt)),
+      ...row.slice(col + 1),
+    ];
+    const newRows = aligned.rows.map((r, i) => (i === line ? newLine : r));
+
+    const newRoot = replaceNodeAtPath(cleanRoot, alignedPath, nodeBuilder.aligned(newRows, aligned.style));
+
+    // The new cell directly follows the split one
+    const cellIdx = cleanPos.path[alignedPath.length];
+    return updateState(state, newRoot, collapsedSelection(cursor([...alignedPath, cellIdx + 1], 0)));
+  };
+}
@@ -18,8 +18,9 @@ import {
   findLastFocusable,
   hasDescendantRow,
   compareCursors,
+  findAncestorOfKind,
 } from '../cursor';
-import { MathNode } from '../ast';
+import { MathNode, AlignedNode, FunctionNode } from '../ast';
 import { Command, Direction } from './types';
 
 // =============================================================================
@@ -216,6 +217,38 @@ export function selectAll(): Command {
   };
 }
 
+// =============================================================================
+// Cell Navigation
+// =============================================================================
+
+/**
+ * Move to the start of the next cell of the enclosing cases structure.
+ * Returns null outside cases or in the last cell.
+ */
+export function moveToNextCell(): Command {
+  return (state: EditorState) => moveToCell(state, 1);
+}
+
+/**
+ * Move to the start of the previous cell of the enclosing cases structure.
+ * Returns null outside cases or in the first cell.
+ */
+export function moveToPreviousCell(): Command {
+  return (state: EditorState) => moveToCell(state, -1);
+}
+
+function moveToCell(state: EditorState, step: 1 | -1): EditorState | null {
+  const { root, selection } = state;
+  const casesPath = findAncestorOfKind(root, selection.focus.path, 'cases');
+  if (!casesPath) return null;
+
+  const casesNode = getNodeAtPath(root, casesPath)!;
+  const target = selection.focus.path[casesPath.length] + step;
+  if (target < 0 || target >= getChildNodes(casesNode).length) return null;
+
+  return updateSelection(state, collapsedSelection(findFirstFocusable(root, [...casesPath, target])));
+}
+
 // =============================================================================
 // Placeholder Navigation
 // =============================================================================
@@ -273,9 +306,10 @@ function findNextPlaceholder(
         }
       }
     } else {
-      // For structures, recurse into children
+      // For structures, recurse into children (an nth root's index comes first)
       const children = getChildNodes(node);
-      for (let i = 0; i < children.length; i++) {
+      const order = node.kind === 'sqrt' ? children.map((_, i) => i).reverse() : children.map((_, i) => i);
+      for (const i of order) {
         collectPlaceholders(children[i], [...path, i]);
       }
     }
@@ -384,8 +418,8 @@ function moveCursorRight(root: MathNode, pos: CursorPosition): CursorPosition |
  */
 function isStructure(node: MathNode): boolean {
   return [
-    'fraction', 'power', 'subscript', 'subsup',
-    'sqrt', 'parens', 'matrix', 'function'
+    'fraction', 'binom', 'mixedNumber', 'repeatingDecimal', 'power', 'prime', 'subscript', 'subsup',
+    'sqrt', 'parens', 'matrix', 'cases', 'aligned', 'function', 'accent', 'font', 'color', 'overunder'
   ].includes(node.kind);
 }
 
@@ -412,7 +446,8 @@ function moveCursorUp(root: MathNode, pos: CursorPosition): CursorPosition | nul
     currentPath = parentP;
   }
 
-  return null;
+  // Right after \sum_{}^{}, \int, ...: go into its upper limit
+  return enterLimitBefore(root, pos, 'upper');
 }
 
 /**
@@ -438,7 +473,22 @@ function moveCursorDown(root: MathNode, pos: CursorPosition): CursorPosition | n
     currentPath = parentP;
   }
 
-  return null;
+  // Right after \sum_{}^{}, \lim_{}, ...: go into its lower limit
+  return enterLimitBefore(root, pos, 'lower');
+}
+
+/**
+ * Enter a limit of the function just before the cursor, at its end
+ */
+function enterLimitBefore(root: MathNode, pos: CursorPosition, target: 'lower' | 'upper'): CursorPosition | null {
+  const row = getNodeAtPath(root, pos.path);
+  if (!row || row.kind !== 'row' || pos.offset === 0) return null;
+
+  const prev = row.children[pos.offset - 1];
+  if (prev.kind !== 'function') return null;
+
+  const slot = getLimitSlot(prev, -1, target);
+  return slot === null ? null : findLastFocusable(root, [...pos.path, pos.offset - 1, slot]);
 }
 
 /**
@@ -468,6 +518,16 @@ function exitNodeLeft(root: MathNode, path: readonly number[]): CursorPosition |
     return exitNodeLeft(root, parentP);
   }
 
+  // Cases and aligned cells are visited in reading order, like matrix cells
+  if ((parent.kind === 'cases' || parent.kind === 'aligned') && childIdx > 0) {
+    return findLastFocusable(root, [...parentP, childIdx - 1]);
+  }
+
+  // The index of an nth root sits left of its radicand
+  if (parent.kind === 'sqrt' && parent.index && childIdx === 0) {
+    return findLastFocusable(root, [...parentP, 1]);
+  }
+
   // For structured nodes, exit to the left of the parent
   return exitNodeLeft(root, parentP);
 }
@@ -500,6 +560,15 @@ function exitNodeRight(root: MathNode, path: readonly number[]): CursorPosition
     return exitNodeRight(root, parentP);
   }
 
+  if ((parent.kind === 'cases' || parent.kind === 'aligned') && childIdx < getChildNodes(parent).length - 1) {
+    return findFirstFocusable(root, [...parentP, childIdx + 1]);
+  }
+
+  // From the index of an nth root, continue into the radicand
+  if (parent.kind === 'sqrt' && childIdx === 1) {
+    return findFirstFocusable(root, [...parentP, 0]);
+  }
+
   // For structured nodes, exit to the right of the parent
   return exitNodeRight(root, parentP);
 }
@@ -510,8 +579,12 @@ function exitNodeRight(root: MathNode, path: readonly number[]): CursorPosition
 function getUpSlot(parent: MathNode, currentSlot: number): number | null {
   switch (parent.kind) {
     case 'fraction':
-      // In denominator (1), go to numerator (0)
+    case 'binom':
+      // In denominator/bottom (1), go to numerator/top (0)
       return currentSlot === 1 ? 0 : null;
+    case 'mixedNumber':
+      // From the whole part (0) or denominator (2), go to the numerator (1)
+      return currentSlot === 1 ? null : 1;
     case 'power':
       // In base (0), go to exponent (1)
       return currentSlot === 0 ? 1 : null;
@@ -533,6 +606,20 @@ function getUpSlot(parent: MathNode, currentSlot: number): number | null {
       const newSlot = currentSlot - cols;
       return newSlot >= 0 ? newSlot : null;
     }
+    case 'cases':
+      // Same column of the previous case
+      return currentSlot >= 2 ? currentSlot - 2 : null;
+    case 'aligned':
+      return getAlignedLineSlot(parent, currentSlot, -1);
+    case 'function':
+      return getLimitSlot(parent, currentSlot, 'upper');
+    case 'overunder': {
+      // Children are [body, over?, under?]: under -> body -> over
+      const underSlot = parent.over ? 2 : 1;
+      if (currentSlot === 0) return parent.over ? 1 : null;
+      if (parent.under && currentSlot === underSlot) return 0;
+      return null;
+    }
     default:
       return null;
   }
@@ -544,8 +631,12 @@ function getUpSlot(parent: MathNode, currentSlot: number): number | null {
 function getDownSlot(parent: MathNode, currentSlot: number): number | null {
   switch (parent.kind) {
     case 'fraction':
-      // In numerator (0), go to denominator (1)
+    case 'binom':
+      // In numerator/top (0), go to denominator/bottom (1)
       return currentSlot === 0 ? 1 : null;
+    case 'mixedNumber':
+      // From the whole part (0) or numerator (1), go to the denominator (2)
+      return currentSlot === 2 ? null : 2;
     case 'power':
       // In exponent (1), go to base (0)
       return currentSlot === 1 ? 0 : null;
@@ -568,11 +659,60 @@ function getDownSlot(parent: MathNode, currentSlot: number): number | null {
       const newSlot = currentSlot + cols;
       return newSlot < totalCells ? newSlot : null;
     }
+    case 'cases':
+      // Same column of the next case
+      return currentSlot + 2 < parent.rows.length * 2 ? currentSlot + 2 : null;
+    case 'aligned':
+      return getAlignedLineSlot(parent, currentSlot, 1);
+    case 'function':
+      return getLimitSlot(parent, currentSlot, 'lower');
+    case 'overunder': {
+      // Children are [body, over?, under?]: over -> body -> under
+      const underSlot = parent.over ? 2 : 1;
+      if (currentSlot === 0) return parent.under ? underSlot : null;
+      if (parent.over && currentSlot === 1) return 0;
+      return null;
+    }
     default:
       return null;
   }
 }
 
+/**
+ * Get the upper or lower limit slot of a function (children are
+ * [argument?, lower?, upper?]), or null when already there or it has none
+ */
+function getLimitSlot(parent: FunctionNode, currentSlot: number, target: 'lower' | 'upper'): number | null {
+  const limit = parent.limits?.[target];
+  if (!limit) return null;
+  const offset = parent.argument ? 1 : 0;
+  const slot = target === 'lower' ? offset : offset + (parent.limits?.lower ? 1 : 0);
+  return slot === currentSlot ? null : slot;
+}
+
+/**
+ * Get the slot of the cell one line up or down in an aligned node, keeping the
+ * column where the other line has one (lines may have different cell counts)
+ */
+function getAlignedLineSlot(parent: AlignedNode, currentSlot: number, step: 1 | -1): number | null {
+  // Flat index of each line's first cell
+  const lineStarts: number[] = [];
+  let total = 0;
+  for (const row of parent.rows) {
+    lineStarts.push(total);
+    total += row.length;
+  }
+
+  let line = 0;
+  while (line + 1 < lineStarts.length && lineStarts[line + 1] <= currentSlot) line++;
+
+  const target = line + step;
+  if (target < 0 || target >= parent.rows.length || parent.rows[target].length === 0) return null;
+
+  const col = Math.min(currentSlot - lineStarts[line], parent.rows[target].length - 1);
+  return lineStarts[target] + col;
+}
+
 /**
  * Find the path to the row containing this path
  */
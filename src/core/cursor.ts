@@ -35,11 +35,18 @@ export interface CursorPosition {
  */
 export type SlotName =
   | 'numerator' | 'denominator'  // Fraction
+  | 'top' | 'bottom'  // Binomial
+  | 'whole'  // Mixed number (with numerator/denominator)
+  | 'decimal' | 'repetend'  // Repeating decimal
   | 'base' | 'exponent' | 'subscript' | 'superscript'  // Power/Sub/Sup
   | 'radicand' | 'index'  // Sqrt
   | 'content'  // Parens
   | 'argument' | 'lower' | 'upper'  // Function with limits
-  | 'cell';  // Matrix
+  | 'cell'  // Matrix
+  | 'value' | 'condition'  // Cases
+  | 'line'  // Aligned (one slot per cell of each line)
+  | 'body'  // Accent/Font/OverUnder
+  | 'over' | 'under';  // OverUnder
 
 /**
  * Information about a focusable slot
@@ -156,8 +163,16 @@ export function getChildNodes(node: MathNode): readonly MathNode[] {
       return node.children;
     case 'fraction':
       return [node.numerator, node.denominator];
+    case 'binom':
+      return [node.top, node.bottom];
+    case 'mixedNumber':
+      return [node.whole, node.numerator, node.denominator];
+    case 'repeatingDecimal':
+      return [node.decimal, node.repetend];
     case 'power':
       return [node.base, node.exponent];
+    case 'prime':
+      return [node.base];
     case 'subscript':
       return [node.base, node.subscript];
     case 'subsup':
@@ -173,7 +188,19 @@ export function getChildNodes(node: MathNode): readonly MathNode[] {
       if (node.limits?.upper) children.push(node.limits.upper);
       return children;
     case 'matrix':
+    case 'cases':
+    case 'aligned':
       return node.rows.flat();
+    case 'accent':
+    case 'font':
+    case 'color':
+      return [node.body];
+    case 'overunder': {
+      const children: MathNode[] = [node.body];
+      if (node.over) children.push(node.over);
+      if (node.under) children.push(node.under);
+      return children;
+    }
     default:
       return [];
   }
@@ -209,11 +236,37 @@ export function getSlots(node: MathNode, basePath: readonly number[] = []): Slot
         { name: 'numerator', path: [...basePath, 0], node: node.numerator },
         { name: 'denominator', path: [...basePath, 1], node: node.denominator },
       ];
+    case 'binom':
+      return [
+        { name: 'top', path: [...basePath, 0], node: node.top },
+        { name: 'bottom', path: [...basePath, 1], node: node.bottom },
+      ];
+    case 'mixedNumber':
+      return [
+        { name: 'whole', path: [...basePath, 0], node: node.whole },
+        { name: 'numerator', path: [...basePath, 1], node: node.numerator },
+        { name: 'denominator', path: [...basePath, 2], node: node.denominator },
+      ];
+    case 'repeatingDecimal':
+      return [
+        { name: 'decimal', path: [...basePath, 0], node: node.decimal },
+        { name: 'repetend', path: [...basePath, 1], node: node.repetend },
+      ];
     case 'power':
       return [
         { name: 'base', path: [...basePath, 0], node: node.base },
         { name: 'exponent', path: [...basePath, 1], node: node.exponent },
       ];
+    case 'prime':
+      return [
+        { name: 'base', path: [...basePath, 0], node: node.base },
+      ];
+    case 'function':
+      return getFunctionSlotNames(node).map((name, i) => ({
+        name,
+        path: [...basePath, i],
+        node: getChildNodes(node)[i],
+      }));
     case 'subscript':
       return [
         { name: 'base', path: [...basePath, 0], node: node.base },
@@ -254,11 +307,46 @@ export function getSlots(node: MathNode, basePath: readonly number[] = []): Slot
       }
       return slots;
     }
+    case 'aligned':
+      return node.rows.flat().map((cell, i) => ({
+        name: 'line' as SlotName,
+        path: [...basePath, i],
+        node: cell,
+      }));
+    case 'cases':
+      // Flat children alternate value, condition per row
+      return node.rows.flatMap(([value, condition], rowIdx) => [
+        { name: 'value' as SlotName, path: [...basePath, rowIdx * 2], node: value },
+        { name: 'condition' as SlotName, path: [...basePath, rowIdx * 2 + 1], node: condition },
+      ]);
+    case 'accent':
+    case 'font':
+    case 'color':
+      return [
+        { name: 'body', path: [...basePath, 0], node: node.body },
+      ];
+    case 'overunder': {
+      const slots: SlotInfo[] = [{ name: 'body', path: [...basePath, 0], node: node.body }];
+      if (node.over) slots.push({ name: 'over', path: [...basePath, slots.length], node: node.over });
+      if (node.under) slots.push({ name: 'under', path: [...basePath, slots.length], node: node.under });
+      return slots;
+    }
     default:
       return [];
   }
 }
 
+/**
+ * Slot names of a function's children, which are [argument?, lower?, upper?]
+ */
+function getFunctionSlotNames(node: FunctionNode): SlotName[] {
+  const names: SlotName[] = [];
+  if (node.argument) names.push('argument');
+  if (node.limits?.lower) names.push('lower');
+  if (node.limits?.upper) names.push('upper');
+  return names;
+}
+
 /**
  * Get slot name for a child index
  */
@@ -266,8 +354,18 @@ export function getSlotName(parent: MathNode, childIndex: number): SlotName | nu
   switch (parent.kind) {
     case 'fraction':
       return childIndex === 0 ? 'numerator' : 'denominator';
+    case 'binom':
+      return childIndex === 0 ? 'top' : 'bottom';
+    case 'mixedNumber':
+      return (['whole', 'numerator', 'denominator'] as const)[childIndex] ?? null;
+    case 'repeatingDecimal':
+      return childIndex === 0 ? 'decimal' : 'repetend';
     case 'power':
       return childIndex === 0 ? 'base' : 'exponent';
+    case 'prime':
+      return 'base';
+    case 'function':
+      return getFunctionSlotNames(parent)[childIndex] ?? null;
     case 'subscript':
       return childIndex === 0 ? 'base' : 'subscript';
     case 'subsup':
@@ -278,6 +376,17 @@ export function getSlotName(parent: MathNode, childIndex: number): SlotName | nu
       return 'content';
     case 'matrix':
       return 'cell';
+    case 'cases':
+      return childIndex % 2 === 0 ? 'value' : 'condition';
+    case 'aligned':
+      return 'line';
+    case 'accent':
+    case 'font':
+    case 'color':
+      return 'body';
+    case 'overunder':
+      if (childIndex === 0) return 'body';
+      return childIndex === 1 && parent.over ? 'over' : 'under';
     default:
       return null;
   }
@@ -394,6 +503,24 @@ export function hasDescendantRow(node: MathNode): boolean {
   return children.some((child) => hasDescendantRow(child));
 }
 
+/**
+ * Find the path of the nearest ancestor of `path` (excluding the node at
+ * `path` itself) with the given kind, or null if there is none
+ */
+export function findAncestorOfKind(
+  root: MathNode,
+  path: readonly number[],
+  kind: MathNode['kind']
+): readonly number[] | null {
+  for (let depth = path.length - 1; depth >= 0; depth--) {
+    const ancestorPath = path.slice(0, depth);
+    if (getNodeAtPath(root, ancestorPath)?.kind === kind) {
+      return ancestorPath;
+    }
+  }
+  return null;
+}
+
 /**
  * Find the first focusable position within a node
  * Returns cursor at start of the first row found
@@ -407,6 +534,11 @@ export function findFirstFocusable(root: MathNode, basePath: readonly number[] =
     return { path: basePath, offset: 0 };
   }
 
+  // An nth root draws its index (child 1) before the radicand
+  if (node.kind === 'sqrt' && node.index) {
+    return findFirstFocusable(root, [...basePath, 1]);
+  }
+
   // Container (fraction, sqrt, etc.): find the first child that is or contains a row
   const children = getChildNodes(node);
   for (let i = 0; i < children.length; i++) {
@@ -439,6 +571,11 @@ export function findLastFocusable(root: MathNode, basePath: readonly number[] =
     return { path: basePath, offset: node.children.length };
   }
 
+  // The radicand of an nth root is drawn last, after its index
+  if (node.kind === 'sqrt') {
+    return findLastFocusable(root, [...basePath, 0]);
+  }
+
   // Container (fraction, sqrt, etc.): find the last child that is or contains a row
   const children = getChildNodes(node);
   for (let i = children.length - 1; i >= 0; i--) {
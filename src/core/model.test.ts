@@ -4,6 +4,8 @@
 
 import { describe, it, expect } from 'vitest';
 import { node } from './ast';
+import { parseLatex } from '../parser/latex-to-ast';
+import { serializeToLatex } from '../parser/ast-to-latex';
 import {
   createEmptyState,
   createStateFromAST,
@@ -27,6 +29,26 @@ import {
   moveDown,
   insertCharacter,
   insertFraction,
+  cycleFractionStyle,
+  insertMixedNumber,
+  insertRepeatingDecimal,
+  insertNthRoot,
+  insertPrime,
+  insertBinomial,
+  insertAccent,
+  insertFont,
+  applyColor,
+  insertNode,
+  insertOverUnder,
+  insertCases,
+  addCaseRow,
+  removeCaseRow,
+  moveToNextCell,
+  moveToPreviousCell,
+  insertLineBreak,
+  insertAlignmentPoint,
+  insertFunction,
+  insertLargeOperator,
   deleteBackward,
   selectAll,
 } from './commands';
@@ -273,6 +295,105 @@ describe('Navigation Commands', () => {
     expect(result!.selection.focus.path[1]).toBe(1);
   });
 
+  it('moveUp/moveDown move between body and annotations', () => {
+    const ast = node.row([
+      node.overunder(
+        'overbrace',
+        node.row([node.symbol('x')]),
+        node.row([node.symbol('a')]),
+        node.row([node.symbol('b')])
+      ),
+    ]);
+    const state = {
+      root: ast,
+      selection: collapsedSelection(cursor([0, 0], 0)),
+    };
+
+    const up = moveUp(false)(state);
+    expect(up!.selection.focus.path).toEqual([0, 1]);
+    const down = moveDown(false)(state);
+    expect(down!.selection.focus.path).toEqual([0, 2]);
+    const back = moveUp(false)(down!);
+    expect(back!.selection.focus.path).toEqual([0, 0]);
+  });
+
+  it('moveUp/moveDown move between binomial top and bottom', () => {
+    const ast = node.row([
+      node.binom(node.row([node.symbol('n')]), node.row([node.symbol('k')])),
+    ]);
+    const state = {
+      root: ast,
+      selection: collapsedSelection(cursor([0, 0], 0)),
+    };
+
+    const down = moveDown(false)(state);
+    expect(down!.selection.focus.path).toEqual([0, 1]);
+    const up = moveUp(false)(down!);
+    expect(up!.selection.focus.path).toEqual([0, 0]);
+  });
+
+  it('moveToNextCell/moveToPreviousCell step through cases cells', () => {
+    const state = insertCases(2)(createEmptyState())!;
+    expect(state.selection.focus.path).toEqual([0, 0]);
+
+    const next = moveToNextCell()(state);
+    expect(next!.selection.focus.path).toEqual([0, 1]);
+    const third = moveToNextCell()(next!);
+    expect(third!.selection.focus.path).toEqual([0, 2]);
+    expect(moveToPreviousCell()(third!)!.selection.focus.path).toEqual([0, 1]);
+    expect(moveToPreviousCell()(state)).toBeNull();
+    expect(moveToNextCell()(createEmptyState())).toBeNull();
+
+    // Down keeps the column
+    expect(moveDown(false)(next!)!.selection.focus.path).toEqual([0, 3]);
+  });
+
+  it('moveUp/moveDown move between aligned lines, keeping the column', () => {
+    const root = createStateFromAST(parseLatex('\\begin{aligned}x&=1 \\\\ y \\\\ &=2\\end{aligned}')).root;
+    const state = { root, selection: collapsedSelection(cursor([0, 1], 0)) };
+
+    const down = moveDown(false)(state);
+    expect(down!.selection.focus.path).toEqual([0, 2]);
+    const downAgain = moveDown(false)(down!);
+    expect(downAgain!.selection.focus.path).toEqual([0, 3]);
+    expect(moveUp(false)(state)).toBeNull();
+  });
+
+  it('moveUp and moveDown switch between the limits of an operator', () => {
+    const root = createStateFromAST(parseLatex('\\sum_{i=1}^{n}x')).root;
+    const state = {
+      root,
+      selection: collapsedSelection(cursor([], 1)),
+    };
+
+    // From just after the operator into its limits
+    const upper = moveUp()(state);
+    expect(upper!.selection.focus).toEqual(cursor([0, 1], 1));
+    const lower = moveDown()(upper!);
+    expect(lower!.selection.focus).toEqual(cursor([0, 0], 0));
+    expect(moveDown()(lower!)).toBeNull();
+    expect(moveDown()(state)!.selection.focus).toEqual(cursor([0, 0], 3));
+  });
+
+  it('moveLeft and moveRight visit an nth root index before its radicand', () => {
+    const root = createStateFromAST(parseLatex('\\sqrt[3]{x}')).root;
+    const state = { root, selection: collapsedSelection(cursor([], 0)) };
+
+    // Entering from the left lands in the index, then continues into the radicand
+    const index = moveRight()(state);
+    expect(index!.selection.focus).toEqual(cursor([0, 1], 0));
+    const radicand = moveRight()(moveRight()(index!)!);
+    expect(radicand!.selection.focus).toEqual(cursor([0, 0], 0));
+
+    // Left from the start of the radicand goes back to the end of the index
+    expect(moveLeft()(radicand!)!.selection.focus).toEqual(cursor([0, 1], 1));
+    expect(moveUp()(radicand!)!.selection.focus).toEqual(cursor([0, 1], 0));
+
+    // Entering from the right lands in the radicand
+    const end = { root, selection: collapsedSelection(cursor([], 1)) };
+    expect(moveLeft()(end)!.selection.focus).toEqual(cursor([0, 0], 1));
+  });
+
   it('selectAll selects entire content', () => {
     const ast = node.row([node.symbol('x'), node.symbol('y'), node.symbol('z')]);
     const state = {
@@ -322,6 +443,305 @@ describe('Insert Commands', () => {
     }
   });
 
+  it('insertAccent inserts an accent with cursor in its body', () => {
+    const state = createEmptyState();
+
+    const result = insertAccent('hat')(state);
+    expect(result).not.toBeNull();
+    if (result!.root.kind === 'row') {
+      expect(result!.root.children[0]).toMatchObject({ kind: 'accent', accent: 'hat' });
+    }
+    expect(result!.selection.focus.path).toEqual([0, 0]);
+  });
+
+  it('insertAccent wraps the selection', () => {
+    const ast = node.row([node.symbol('x'), node.symbol('y')]);
+    const state = {
+      root: ast,
+      selection: selection(cursor([], 0), cursor([], 2)),
+    };
+
+    const result = insertAccent('vec')(state);
+    expect(result).not.toBeNull();
+    const accent = getNodeAtPath(result!.root, [0]);
+    expect(accent?.kind).toBe('accent');
+    if (accent?.kind === 'accent' && accent.body.kind === 'row') {
+      expect(accent.body.children.map((c) => c.kind)).toEqual(['symbol', 'symbol']);
+    }
+  });
+
+  it('moveRight enters and leaves an accent body', () => {
+    const ast = node.row([node.accent('bar', node.row([node.symbol('x')]))]);
+    const state = {
+      root: ast,
+      selection: collapsedSelection(cursor([], 0)),
+    };
+
+    const inside = moveRight(false)(state);
+    expect(inside!.selection.focus.path).toEqual([0, 0]);
+    const end = moveRight(false)(inside!);
+    const out = moveRight(false)(end!);
+    expect(out!.selection.focus).toEqual(cursor([], 1));
+  });
+
+  it('insertFont inserts a font node with cursor in its body', () => {
+    const state = createEmptyState();
+
+    const result = insertFont('mathbb')(state);
+    expect(result).not.toBeNull();
+    expect(getNodeAtPath(result!.root, [0])).toMatchObject({ kind: 'font', variant: 'mathbb' });
+    expect(result!.selection.focus.path).toEqual([0, 0]);
+  });
+
+  it('applyColor wraps the selection in \\textcolor', () => {
+    const ast = node.row([node.symbol('x'), node.operator('+'), node.symbol('y')]);
+    const state = {
+      root: ast,
+      selection: selection(cursor([], 0), cursor([], 2)),
+    };
+
+    const result = applyColor('red')(state);
+    expect(result).not.toBeNull();
+    expect(getNodeAtPath(result!.root, [0])).toMatchObject({ kind: 'color', command: 'textcolor', color: 'red' });
+    expect(getNodeAtPath(result!.root, [1])).toMatchObject({ kind: 'symbol', value: 'y' });
+    expect(result!.selection.focus).toEqual(cursor([0, 0], 2));
+  });
+
+  it('applyColor recolors a selected color node instead of nesting', () => {
+    const ast = node.row([node.color('colorbox', 'yellow', node.row([node.symbol('x')]))]);
+    const state = {
+      root: ast,
+      selection: selection(cursor([], 0), cursor([], 1)),
+    };
+
+    const result = applyColor('green')(state);
+    expect(getNodeAtPath(result!.root, [0])).toMatchObject({ kind: 'color', command: 'colorbox', color: 'green' });
+    expect(getNodeAtPath(result!.root, [0, 0])).toMatchObject({ kind: 'row', children: [{ kind: 'symbol' }] });
+  });
+
+  it('insertNode splices a row and normalizes its slots', () => {
+    const ast = node.row([node.symbol('x')]);
+    const state = {
+      root: ast,
+      selection: collapsedSelection(cursor([], 1)),
+    };
+
+    const inserted = node.row([node.operator('in'), node.font('mathbb', node.symbol('R'))]);
+    const result = insertNode(inserted)(state);
+    expect(result).not.toBeNull();
+    expect(result!.selection.focus).toEqual(cursor([], 3));
+    expect(getNodeAtPath(result!.root, [2, 0])?.kind).toBe('row');
+  });
+
+  it('insertOverUnder wraps the selection and moves to the annotation', () => {
+    const ast = node.row([node.symbol('x'), node.symbol('y')]);
+    const state = {
+      root: ast,
+      selection: selection(cursor([], 0), cursor([], 2)),
+    };
+
+    const result = insertOverUnder('underbrace')(state);
+    expect(result).not.toBeNull();
+    const ou = getNodeAtPath(result!.root, [0]);
+    expect(ou).toMatchObject({ kind: 'overunder', command: 'underbrace' });
+    expect(ou?.kind === 'overunder' && ou.under).toBeTruthy();
+    expect(result!.selection.focus.path).toEqual([0, 1]);
+  });
+
+  it('insertBinomial starts in the top, or the bottom after a selection', () => {
+    const empty = insertBinomial()(createEmptyState());
+    expect(getNodeAtPath(empty!.root, [0])).toMatchObject({ kind: 'binom', variant: 'binom' });
+    expect(empty!.selection.focus.path).toEqual([0, 0]);
+
+    const state = {
+      root: node.row([node.symbol('n')]),
+      selection: selection(cursor([], 0), cursor([], 1)),
+    };
+    const wrapped = insertBinomial('dbinom')(state);
+    expect(getNodeAtPath(wrapped!.root, [0, 0, 0])).toMatchObject({ kind: 'symbol', value: 'n' });
+    expect(wrapped!.selection.focus.path).toEqual([0, 1]);
+  });
+
+  it('addCaseRow and removeCaseRow edit the enclosing cases', () => {
+    const state = insertCases(1)(createEmptyState())!;
+    expect(removeCaseRow()(state)).toBeNull();
+
+    const added = addCaseRow()(state);
+    const cases = getNodeAtPath(added!.root, [0]);
+    expect(cases?.kind === 'cases' && cases.rows.length).toBe(2);
+    expect(added!.selection.focus).toEqual(cursor([0, 2], 0));
+
+    const removed = removeCaseRow()(added!);
+    const after = getNodeAtPath(removed!.root, [0]);
+    expect(after?.kind === 'cases' && after.rows.length).toBe(1);
+    expect(removed!.selection.focus.path).toEqual([0, 0]);
+
+    expect(addCaseRow()(createEmptyState())).toBeNull();
+  });
+
+  it('insertLineBreak splits the line at the cursor, keeping the column', () => {
+    const root = createStateFromAST(parseLatex('\\begin{aligned}x&=1+1\\end{aligned}')).root;
+    const state = { root, selection: collapsedSelection(cursor([0, 1], 2)) };
+
+    const result = insertLineBreak()(state);
+    expect(serializeToLatex(result!.root, { includePlaceholders: false }))
+      .toBe('\\begin{aligned}x&=1 \\\\ &+1\\end{aligned}');
+    expect(result!.selection.focus).toEqual(cursor([0, 3], 0));
+  });
+
+  it('insertLineBreak starts aligned content only when given a style', () => {
+    const state = createStateFromAST(parseLatex('a+b'));
+    const atPlus = { ...state, selection: collapsedSelection(cursor([], 1)) };
+
+    expect(insertLineBreak()(atPlus)).toBeNull();
+    const result = insertLineBreak('aligned')(atPlus);
+    expect(serializeToLatex(result!.root)).toBe('\\begin{aligned}a \\\\ +b\\end{aligned}');
+    expect(result!.selection.focus).toEqual(cursor([0, 1], 0));
+  });
+
+  it('insertAlignmentPoint splits the cell at the cursor', () => {
+    const root = createStateFromAST(parseLatex('\\begin{aligned}x=1\\end{aligned}')).root;
+    const state = { root, selection: collapsedSelection(cursor([0, 0], 1)) };
+
+    const result = insertAlignmentPoint()(state);
+    expect(serializeToLatex(result!.root)).toBe('\\begin{aligned}x&=1\\end{aligned}');
+    expect(result!.selection.focus).toEqual(cursor([0, 1], 0));
+    expect(insertAlignmentPoint()(createEmptyState())).toBeNull();
+  });
+
+  it('insertFunction inserts the name as one function node', () => {
+    const result = insertFunction('sgn')(createEmptyState());
+    expect(getNodeAtPath(result!.root, [0])).toMatchObject({ kind: 'function', name: 'sgn' });
+    expect(result!.selection.focus).toEqual(cursor([], 1));
+    expect(serializeToLatex(result!.root)).toBe('\\operatorname{sgn}');
+  });
+
+  it('insertPrime adds marks to the previous atom', () => {
+    const ast = node.row([node.symbol('f')]);
+    const state = {
+      root: ast,
+      selection: collapsedSelection(cursor([], 1)),
+    };
+
+    const once = insertPrime()(state);
+    const twice = insertPrime()(once!);
+    expect(getNodeAtPath(twice!.root, [0])).toEqual(node.prime(node.symbol('f'), 2));
+    expect(twice!.selection.focus).toEqual(cursor([], 1));
+
+    // Nothing to mark at the start of the row
+    expect(insertPrime()({ root: ast, selection: collapsedSelection(cursor([], 0)) })).toBeNull();
+  });
+
+  it('insertLargeOperator adds limit slots with the cursor in the lower one', () => {
+    const state = createEmptyState();
+
+    const result = insertLargeOperator('sum')(state);
+    expect(result).not.toBeNull();
+    expect(getNodeAtPath(result!.root, [0])).toMatchObject({
+      kind: 'function',
+      name: 'sum',
+      limits: { lower: { kind: 'row' }, upper: { kind: 'row' } },
+    });
+    expect(result!.selection.focus).toEqual(cursor([0, 0], 0));
+
+    const lim = insertLargeOperator('lim')(state);
+    expect(getNodeAtPath(lim!.root, [0, 1])).toBeNull();
+  });
+
+  it('typing into a limit slot edits the bound', () => {
+    const state = insertLargeOperator('int')(createEmptyState())!;
+    const typed = insertCharacter('0')(state);
+    expect(serializeToLatex(typed!.root, { includePlaceholders: false })).toBe('\\int_{0}^{}');
+  });
+
+  it('insertNthRoot inserts a root with the cursor in its index', () => {
+    const result = insertNthRoot()(createEmptyState());
+    expect(result).not.toBeNull();
+    expect(result!.selection.focus).toEqual(cursor([0, 1], 0));
+
+    const typed = insertCharacter('x')(moveRight()(insertCharacter('3')(result!)!)!);
+    expect(serializeToLatex(typed!.root)).toBe('\\sqrt[3]{x}');
+  });
+
+  it('insertNthRoot wraps the selection as the radicand', () => {
+    const root = createStateFromAST(parseLatex('a+b')).root;
+    const state = { root, selection: selection(cursor([], 0), cursor([], 3)) };
+
+    const result = insertNthRoot()(state);
+    expect(serializeToLatex(result!.root)).toBe('\\sqrt[{}]{a+b}');
+    expect(result!.selection.focus).toEqual(cursor([0, 1], 0));
+  });
+
+  it('insertFraction makes a mixed number after a whole number when enabled', () => {
+    const state = insertCharacter('2')(insertCharacter('1')(createEmptyState())!)!;
+
+    expect(getNodeAtPath(insertFraction()(state)!.root, [0])!.kind).toBe('number');
+
+    const mixed = insertFraction({ mixedNumber: true })(state);
+    expect(getNodeAtPath(mixed!.root, [0])!.kind).toBe('mixedNumber');
+    expect(mixed!.selection.focus).toEqual(cursor([0, 1], 0));
+
+    const typed = insertCharacter('4')(moveDown()(insertCharacter('3')(mixed!)!)!);
+    expect(serializeToLatex(typed!.root)).toBe('12\\frac{3}{4}');
+  });
+
+  it('insertMixedNumber starts in the whole part when no number precedes it', () => {
+    const result = insertMixedNumber()(createEmptyState());
+    expect(result!.selection.focus).toEqual(cursor([0, 0], 0));
+    expect(serializeToLatex(result!.root, { includePlaceholders: false })).toBe('\\frac{}{}');
+  });
+
+  it('insertRepeatingDecimal puts the bar after the decimal before the cursor', () => {
+    const state = insertRepeatingDecimal()(insertCharacter('0')(createEmptyState())!);
+    expect(state!.selection.focus).toEqual(cursor([0, 1], 0));
+
+    const typed = insertCharacter('3')(state!);
+    expect(serializeToLatex(typed!.root)).toBe('0.\\overline{3}');
+  });
+
+  it('insertRepeatingDecimal repeats the selected digits', () => {
+    // Typed digit by digit: 0 . 1 6
+    const root = node.row(['0', '.', '1', '6'].map((c) => (c === '.' ? node.operator(c) : node.number(c))));
+    const state = { root, selection: selection(cursor([], 3), cursor([], 4)) };
+
+    const result = insertRepeatingDecimal()(state);
+    expect(serializeToLatex(result!.root)).toBe('0.1\\overline{6}');
+    expect(result!.selection.focus).toEqual(cursor([0, 1], 1));
+  });
+
+  it('backspace after a repeating decimal drops the bar but keeps the digits', () => {
+    const root = createStateFromAST(parseLatex('0.\\overline{3}')).root;
+    const result = deleteBackward()({ root, selection: collapsedSelection(cursor([], 1)) });
+    expect(serializeToLatex(result!.root)).toBe('0.3');
+  });
+
+  it('keeps the source spelling of untouched nodes around an edit', () => {
+    const ast = parseLatex('\\frac{x^{2}}{y} \\le a', { preserveSource: true });
+    const state = createStateFromAST(ast);
+    expect(serializeToLatex(state.root, { preserveSource: true })).toBe('\\frac{x^{2}}{y} \\le a');
+
+    const result = insertCharacter('z')(updateSelection(state, collapsedSelection(cursor([0, 1], 1))));
+    expect(serializeToLatex(result!.root, { preserveSource: true })).toBe('\\frac{x^{2}}{yz}\\le a');
+  });
+
+  it('cycleFractionStyle steps the fraction at the cursor through its styles', () => {
+    const state = createStateFromAST(parseLatex('\\frac{1}{x}+y'));
+    const inDenominator = updateSelection(state, collapsedSelection(cursor([0, 1], 1)));
+
+    const once = cycleFractionStyle()(inDenominator);
+    expect(serializeToLatex(once!.root)).toBe('\\dfrac{1}{x}+y');
+    expect(once!.selection).toEqual(inDenominator.selection);
+
+    // Right after the fraction
+    const twice = cycleFractionStyle()(updateSelection(once!, collapsedSelection(cursor([], 1))));
+    expect(serializeToLatex(twice!.root)).toBe('\\tfrac{1}{x}+y');
+    const thrice = cycleFractionStyle()(twice!);
+    expect(serializeToLatex(thrice!.root)).toBe('\\cfrac{1}{x}+y');
+    expect(serializeToLatex(cycleFractionStyle()(thrice!)!.root)).toBe('\\frac{1}{x}+y');
+
+    expect(cycleFractionStyle()(updateSelection(state, collapsedSelection(cursor([], 3))))).toBeNull();
+  });
+
   it('insertFraction inserts a fraction', () => {
     const state = createEmptyState();
 
@@ -369,6 +789,49 @@ describe('Delete Commands', () => {
     expect((result!.root as any).children[0].kind).toBe('placeholder');
   });
 
+  it('deleteBackward at the start of an aligned cell removes the & or line break', () => {
+    const root = createStateFromAST(parseLatex('\\begin{aligned}x&=1 \\\\ &+1\\end{aligned}')).root;
+    const state = { root, selection: collapsedSelection(cursor([0, 3], 0)) };
+
+    const noAmp = deleteBackward()(state);
+    expect(serializeToLatex(noAmp!.root)).toBe('\\begin{aligned}x&=1 \\\\ +1\\end{aligned}');
+    expect(noAmp!.selection.focus).toEqual(cursor([0, 2], 0));
+
+    const joined = deleteBackward()(noAmp!);
+    expect(serializeToLatex(joined!.root)).toBe('\\begin{aligned}x&=1+1\\end{aligned}');
+    expect(joined!.selection.focus).toEqual(cursor([0, 1], 2));
+  });
+
+  it('deleteBackward removes one prime mark at a time', () => {
+    const state = {
+      root: node.row([node.prime(node.symbol('f'), 2), node.symbol('x')]),
+      selection: collapsedSelection(cursor([], 1)),
+    };
+
+    const once = deleteBackward()(state);
+    expect(getNodeAtPath(once!.root, [0])).toEqual(node.prime(node.symbol('f'), 1));
+    const twice = deleteBackward()(once!);
+    expect(twice!.root).toEqual(node.row([node.symbol('f'), node.symbol('x')]));
+    expect(twice!.selection.focus).toEqual(cursor([], 1));
+  });
+
+  it('deleteBackward after a large operator steps into its limits before deleting it', () => {
+    const root = createStateFromAST(parseLatex('\\sum_{i=1}^{n}')).root;
+    const state = { root, selection: collapsedSelection(cursor([], 1)) };
+
+    const entered = deleteBackward()(state);
+    expect(entered!.root).toEqual(root);
+    expect(entered!.selection.focus).toEqual(cursor([0, 1], 1));
+
+    const emptied = deleteBackward()(entered!);
+    expect(serializeToLatex(emptied!.root, { includePlaceholders: false })).toBe('\\sum_{i=1}^{}');
+
+    // Once the bounds are empty the operator goes
+    const bare = insertLargeOperator('sum')(createEmptyState())!;
+    const removed = deleteBackward()({ ...bare, selection: collapsedSelection(cursor([], 1)) });
+    expect(getNodeAtPath(removed!.root, [0])).toMatchObject({ kind: 'placeholder' });
+  });
+
   it('deleteBackward at start of empty row returns null', () => {
     const ast = node.row([node.placeholder()]);
     const state = {
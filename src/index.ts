@@ -14,15 +14,31 @@ export {
   type TextNode,
   type SpaceNode,
   type PlaceholderNode,
+  type MacroNode,
   type RowNode,
   type FractionNode,
   type PowerNode,
+  type PrimeNode,
   type SubscriptNode,
   type SubSupNode,
   type SqrtNode,
   type ParensNode,
+  type Delimiter,
+  type DelimiterSize,
+  type SizingCommand,
   type FunctionNode,
   type MatrixNode,
+  type CasesNode,
+  type AlignedNode,
+  type AccentNode,
+  type FontNode,
+  type ColorNode,
+  type OverUnderNode,
+  type BinomNode,
+  type MixedNumberNode,
+  type RepeatingDecimalNode,
+  type ErrorNode,
+  type SourceSpan,
   node,
   isLeafNode,
   isContainerNode,
@@ -33,9 +49,40 @@ export {
 } from './core/ast';
 
 // Parser
-export { parseLatex } from './parser/latex-to-ast';
+export {
+  parseLatex,
+  parseLatexWithDiagnostics,
+  LatexParseError,
+  type ParseOptions,
+  type ParseResult,
+  type ParseDiagnostic,
+  type ParseDiagnosticCode,
+} from './parser/latex-to-ast';
 export { serializeToLatex, type SerializeOptions } from './parser/ast-to-latex';
+export { formatLatex, HOUSE_STYLE, type FormatOptions } from './parser/format-latex';
+export { serializeToMathML, type MathMLOptions } from './parser/ast-to-mathml';
+export { serializeToUnicode } from './parser/ast-to-unicode';
+export {
+  parseMathML,
+  parseMathMLWithDiagnostics,
+  MathMLParseError,
+  type MathMLParseResult,
+  type MathMLDiagnostic,
+  type MathMLDiagnosticCode,
+} from './parser/mathml-to-ast';
+export {
+  toMathJSON,
+  fromMathJSON,
+  fromMathJSONWithDiagnostics,
+  MathJSONError,
+  type MathJSON,
+  type MathJSONResult,
+  type MathJSONDiagnostic,
+  type MathJSONDiagnosticCode,
+} from './parser/mathjson';
+export { parseAsciiMath, serializeToAsciiMath } from './parser/asciimath';
 export { tokenize, type Token, type TokenType } from './parser/tokens';
+export { FUNCTIONS, LARGE_OPERATORS, LIMIT_FUNCTIONS, isFunctionCommand } from './parser/functions';
 
 // Renderer
 export {
@@ -141,6 +188,7 @@ export {
   type Direction,
   type Unit,
   type MatrixStyle,
+  type LargeOperatorName,
   executeCommand,
   chainCommands,
   tryCommands,
@@ -156,16 +204,37 @@ export {
   selectAll,
   moveToNextPlaceholder,
   moveToPreviousPlaceholder,
+  moveToNextCell,
+  moveToPreviousCell,
   // Insert
   insertCharacter,
   insertOperator,
   insertGreek,
+  insertFunction,
+  insertLargeOperator,
+  insertNode,
   insertFraction,
+  cycleFractionStyle,
+  insertBinomial,
+  insertMixedNumber,
+  insertRepeatingDecimal,
   insertSqrt,
+  insertNthRoot,
   insertParens,
   insertSuperscript,
   insertSubscript,
+  insertPrime,
+  insertAccent,
+  insertFont,
+  applyColor,
+  insertOverUnder,
   insertMatrix,
+  insertCases,
+  addCaseRow,
+  removeCaseRow,
+  insertAligned,
+  insertLineBreak,
+  insertAlignmentPoint,
   // Delete
   deleteBackward,
   deleteForward,
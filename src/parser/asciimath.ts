@@ -0,0 +1,581 @@
+/**
+ * AsciiMath Conversion
+ *
+ * Reads and writes AsciiMath (sqrt(x)/2, sum_(i=1)^n i^2, x^(2n)), the
+ * plain-text notation many students type and older content is stored in.
+ * The parser follows AsciiMath's grammar: brackets around fraction parts,
+ * scripts and function arguments only group and are dropped.
+ */
+
+import { MathNode, Delimiter, MatrixNode, AccentNode, FontNode, ParensNode, node } from '../core/ast';
+import { serializeToLatex } from './ast-to-latex';
+import { FUNCTIONS, LARGE_OPERATORS, LIMIT_FUNCTIONS } from './functions';
+import { COMMAND_CHARACTERS } from './symbols';
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+// AsciiMath operators and the operator value they read as; the first spelling is the one written
+const OPERATORS: Readonly<Record<string, string>> = {
+  '+': '+', '-': '-', '*': 'cdot', '**': 'ast', '***': 'star', '//': '/', xx: 'times', '-:': 'div',
+  '@': 'circ', 'o+': 'oplus', ox: 'otimes', 'o.': 'odot', '^^': 'land', vv: 'lor', nn: 'cap', uu: 'cup',
+  '=': '=', '!=': 'neq', '<': '<', '>': '>', '<=': 'leq', '>=': 'geq', lt: '<', gt: '>', le: 'leq', ge: 'geq',
+  in: 'in', '!in': 'notin', sub: 'subset', sup: 'supset', sube: 'subseteq', supe: 'supseteq',
+  '-=': 'equiv', '~=': 'cong', '~~': 'approx', '~': 'sim', prop: 'propto',
+  not: 'neg', '=>': 'implies', '<=>': 'iff', iff: 'iff', AA: 'forall', EE: 'exists',
+  '+-': 'pm', '-+': 'mp', 'O/': 'emptyset', oo: 'infty', del: 'partial', grad: 'nabla',
+  '...': 'ldots', cdots: 'cdots', vdots: 'vdots', ddots: 'ddots',
+  '->': 'to', rarr: 'rightarrow', larr: 'leftarrow', harr: 'leftrightarrow',
+  rArr: 'Rightarrow', lArr: 'Leftarrow', hArr: 'Leftrightarrow', '|->': 'mapsto', uarr: 'uparrow', darr: 'downarrow',
+  setminus: 'setminus', ',': ',', '!': '!', ':': ':', ';': ';',
+};
+
+// Large operators written as symbols in AsciiMath
+const LARGE_OPERATOR_NAMES: Readonly<Record<string, string>> = {
+  sum: 'sum', prod: 'prod', int: 'int', oint: 'oint', uuu: 'bigcup', nnn: 'bigcap', vvv: 'bigvee', '^^^': 'bigwedge',
+};
+
+// Number sets: RR is \mathbb{R}
+const DOUBLE_STRUCK: Readonly<Record<string, string>> = { CC: 'C', NN: 'N', QQ: 'Q', RR: 'R', ZZ: 'Z' };
+
+const ACCENTS: Readonly<Record<string, AccentNode['accent']>> = {
+  hat: 'hat', bar: 'bar', overline: 'overline', vec: 'vec', dot: 'dot', ddot: 'ddot',
+  tilde: 'tilde', ul: 'underline', underline: 'underline',
+};
+
+const FONTS: Readonly<Record<string, FontNode['variant']>> = {
+  bb: 'mathbf', bbb: 'mathbb', cc: 'mathcal', tt: 'mathtt', fr: 'mathfrak', sf: 'mathsf',
+};
+
+// Functions of one argument written as delimiters: abs(x) is |x|
+const DELIMITER_FUNCTIONS: Readonly<Record<string, readonly [Delimiter, Delimiter]>> = {
+  abs: ['|', '|'],
+  norm: ['\\|', '\\|'],
+  floor: ['\\lfloor', '\\rfloor'],
+  ceil: ['\\lceil', '\\rceil'],
+};
+
+const UNARY = new Set(['sqrt', 'text', 'obrace', 'ubrace', 'cancel', ...Object.keys(ACCENTS), ...Object.keys(FONTS), ...Object.keys(DELIMITER_FUNCTIONS)]);
+const BINARY = new Set(['frac', 'root', 'stackrel', 'overset', 'underset', 'color']);
+
+// Brackets and the delimiter each stands for; {: :} are invisible
+const LEFT_BRACKETS: Readonly<Record<string, Delimiter>> = {
+  '(': '(', '[': '[', '{': '{', '(:': '\\langle', '<<': '\\langle', '{:': '.', '|__': '\\lfloor', '|~': '\\lceil',
+};
+const RIGHT_BRACKETS: Readonly<Record<string, Delimiter>> = {
+  ')': ')', ']': ']', '}': '}', ':)': '\\rangle', '>>': '\\rangle', ':}': '.', '__|': '\\rfloor', '~|': '\\rceil',
+};
+
+const MATRIX_STYLES: Readonly<Record<string, MatrixNode['style']>> = {
+  '()': 'pmatrix',
+  '[]': 'bmatrix',
+  '{}': 'Bmatrix',
+  '||': 'vmatrix',
+  '..': 'matrix',
+};
+
+// Greek letter names: the symbols among the command characters
+const GREEK_LETTERS = new Set(Object.keys(COMMAND_CHARACTERS).filter((name) => /^[Ͱ-Ͽ]$/.test(COMMAND_CHARACTERS[name])));
+
+// Function names, less sup: AsciiMath's sup is superset
+const FUNCTION_NAMES = new Set([...FUNCTIONS].filter((name) => name !== 'sup'));
+
+// Every multi-character token, longest first so <=> wins over <=
+const TOKENS = [
+  ...Object.keys(OPERATORS),
+  ...Object.keys(LARGE_OPERATOR_NAMES),
+  ...Object.keys(DOUBLE_STRUCK),
+  ...Object.keys(LEFT_BRACKETS),
+  ...Object.keys(RIGHT_BRACKETS),
+  ...UNARY,
+  ...BINARY,
+  ...FUNCTION_NAMES,
+  ...GREEK_LETTERS,
+  'quad', 'qquad',
+].sort((a, b) => b.length - a.length);
+
+// =============================================================================
+// Parser
+// =============================================================================
+
+interface AsciiToken {
+  readonly type: 'number' | 'text' | 'token';
+  readonly value: string;
+}
+
+function tokenize(text: string): AsciiToken[] {
+  const tokens: AsciiToken[] = [];
+  let pos = 0;
+  while (pos < text.length) {
+    if (/\s/.test(text[pos])) {
+      pos++;
+      continue;
+    }
+    // A trailing point stays on its number, as in 0.bar(3), but 1... keeps its ellipsis
+    const number = /^(\d+(\.\d+|\.(?!\.))?|\.\d+)/.exec(text.slice(pos));
+    if (number) {
+      tokens.push({ type: 'number', value: number[0] });
+      pos += number[0].length;
+      continue;
+    }
+    if (text[pos] === '"') {
+      const end = text.indexOf('"', pos + 1);
+      const close = end === -1 ? text.length : end;
+      tokens.push({ type: 'text', value: text.slice(pos + 1, close) });
+      pos = close + 1;
+      continue;
+    }
+    const token = TOKENS.find((t) => text.startsWith(t, pos)) ?? String.fromCodePoint(text.codePointAt(pos)!);
+    if (token === 'text' && text[pos + 4] === '(') {
+      // text(...) keeps its content verbatim
+      const end = text.indexOf(')', pos + 5);
+      const close = end === -1 ? text.length : end;
+      tokens.push({ type: 'text', value: text.slice(pos + 5, close) });
+      pos = close + 1;
+      continue;
+    }
+    tokens.push({ type: 'token', value: token });
+    pos += token.length;
+  }
+  return tokens;
+}
+
+/**
+ * Recursive descent over AsciiMath's grammar:
+ *   E ::= I E | I / I E       expression
+ *   I ::= S | S_S | S^S | S_S^S   intermediate
+ *   S ::= v | (E) | u S | b S S   simple
+ */
+class AsciiMathParser {
+  private pos = 0;
+
+  constructor(private readonly tokens: readonly AsciiToken[]) {}
+
+  parse(): MathNode {
+    const nodes: MathNode[] = [];
+    while (this.pos < this.tokens.length) {
+      nodes.push(...this.expression());
+      // A right bracket nothing opened stands for itself
+      const stray = this.tokens[this.pos];
+      if (stray) {
+        this.pos++;
+        nodes.push(this.character(stray.value));
+      }
+    }
+    return nodes.length === 1 ? nodes[0] : node.row(nodes);
+  }
+
+  private peek(): AsciiToken | undefined {
+    return this.tokens[this.pos];
+  }
+
+  private isToken(value: string): boolean {
+    const token = this.peek();
+    return token?.type === 'token' && token.value === value;
+  }
+
+  /**
+   * Whether a right bracket is next; | only closes what a | opened
+   */
+  private atRightBracket(bar = false): boolean {
+    const token = this.peek();
+    return token?.type === 'token' && (token.value in RIGHT_BRACKETS || (bar && token.value === '|'));
+  }
+
+  /**
+   * Intermediates up to a right bracket or the end; a / b becomes a fraction
+   */
+  private expression(bar = false): MathNode[] {
+    const nodes: MathNode[] = [];
+    while (this.peek() && !this.atRightBracket(bar)) {
+      const item = this.intermediate();
+      if (!item) continue;
+      const previous = nodes[nodes.length - 1];
+      if (this.isToken('/') && this.tokens[this.pos + 1]) {
+        this.pos++;
+        const denominator = this.intermediate() ?? node.placeholder();
+        nodes.push(node.fraction(unbracket(item), unbracket(denominator)));
+      } else if (previous && isRepetend(previous, item)) {
+        nodes[nodes.length - 1] = node.repeatingDecimal(previous, item.body);
+      } else {
+        nodes.push(item);
+      }
+    }
+    return nodes;
+  }
+
+  private intermediate(): MathNode | null {
+    let base = this.simple();
+    if (!base) return null;
+
+    let sub: MathNode | undefined;
+    let sup: MathNode | undefined;
+    if (this.isToken('_')) {
+      this.pos++;
+      sub = unbracket(this.simple() ?? node.placeholder());
+    }
+    if (this.isToken('^')) {
+      this.pos++;
+      sup = unbracket(this.simple() ?? node.placeholder());
+    }
+
+    // Limits of \sum and \lim
+    if (base.kind === 'function' && (LARGE_OPERATORS.has(base.name) || LIMIT_FUNCTIONS.has(base.name)) && (sub || sup)) {
+      base = node.function(base.name, undefined, { lower: sub, upper: sup });
+    } else if (sub && sup) {
+      base = node.subsup(base, sub, sup);
+    } else if (sub) {
+      base = node.subscript(base, sub);
+    } else if (sup) {
+      base = node.power(base, sup);
+    }
+
+    let primes = 0;
+    while (this.isToken("'")) {
+      this.pos++;
+      primes++;
+    }
+    return primes > 0 ? node.prime(base, primes) : base;
+  }
+
+  private simple(): MathNode | null {
+    if (this.atRightBracket()) return null;
+    const token = this.tokens[this.pos++];
+    if (!token) return null;
+    if (token.type === 'number') return node.number(token.value);
+    if (token.type === 'text') return node.text(token.value);
+
+    const value = token.value;
+    if (value in LEFT_BRACKETS) return this.bracketed(LEFT_BRACKETS[value]);
+    if (value === '|' && this.hasClosingBar()) return this.bracketed('|');
+    if (UNARY.has(value)) return this.unary(value);
+    if (BINARY.has(value)) return this.binary(value);
+    if (value in LARGE_OPERATOR_NAMES) return node.function(LARGE_OPERATOR_NAMES[value]);
+    if (FUNCTION_NAMES.has(value)) return node.function(value, this.argument());
+    if (value in DOUBLE_STRUCK) return node.font('mathbb', node.symbol(DOUBLE_STRUCK[value]));
+    if (value === 'quad' || value === 'qquad') return node.space(value);
+    // A script with nothing before it goes on a placeholder
+    if (value === '_' || value === '^') {
+      this.pos--;
+      return node.placeholder();
+    }
+    return this.character(value);
+  }
+
+  /**
+   * What a function applies to: the simple expression after it (sin x,
+   * ln(x+1)), unless scripts, an operator or nothing follow
+   */
+  private argument(): MathNode | undefined {
+    const token = this.peek();
+    if (!token || this.atRightBracket()) return undefined;
+    if (token.type === 'token' && (token.value in OPERATORS || ['_', '^', '/', '|'].includes(token.value))) return undefined;
+    return this.simple() ?? undefined;
+  }
+
+  private character(value: string): MathNode {
+    if (value in OPERATORS) return node.operator(OPERATORS[value]);
+    if (value in RIGHT_BRACKETS || value === '|') {
+      return value === '}' ? node.symbol('}') : node.operator(value);
+    }
+    return node.symbol(value);
+  }
+
+  private hasClosingBar(): boolean {
+    return this.tokens.slice(this.pos).some((t) => t.type === 'token' && t.value === '|');
+  }
+
+  /**
+   * Content up to the matching right bracket (any closes any, as in AsciiMath)
+   */
+  private bracketed(open: Delimiter): MathNode {
+    const content = this.expression(open === '|');
+    let close: Delimiter = open === '|' ? '|' : MATCHING[open] ?? '.';
+    const token = this.peek();
+    if (token && this.atRightBracket(open === '|')) {
+      this.pos++;
+      close = token.value === '|' ? '|' : RIGHT_BRACKETS[token.value];
+    }
+
+    const matrix = this.matrix(content, open, close);
+    if (matrix) return matrix;
+    if (open === '.' && close === '.') return node.row(content);
+    // \lfloor and \langle only stretch as \left...\right
+    const size: ParensNode['size'] = open.startsWith('\\') || close.startsWith('\\') ? 'auto' : undefined;
+    return node.parens(single(content), open, close, size);
+  }
+
+  /**
+   * [[1,2],[3,4]]: bracketed rows of equal length separated by commas
+   */
+  private matrix(content: readonly MathNode[], open: Delimiter, close: Delimiter): MathNode | null {
+    const rows = content.filter((_, i) => i % 2 === 0);
+    const commas = content.filter((_, i) => i % 2 === 1);
+    if (rows.length < 2 || !commas.every((c) => c.kind === 'operator' && c.value === ',')) return null;
+    if (!rows.every((row) => row.kind === 'parens' && (row.open === '(' || row.open === '['))) return null;
+
+    const cells = rows.map((row) => splitCommas((row as ParensNode).content));
+    if (!cells.every((row) => row.length === cells[0].length)) return null;
+
+    // {(x, x > 0), (0, x <= 0):} is a piecewise definition
+    if (open === '{' && close === '.' && cells[0].length === 2) {
+      return node.cases(cells.map((row) => [row[0], row[1]] as const));
+    }
+    const style = MATRIX_STYLES[open + close];
+    if (!style) return null;
+    return node.matrix(cells, style);
+  }
+
+  private unary(name: string): MathNode {
+    const argument = unbracket(this.simple() ?? node.placeholder());
+    if (name === 'sqrt') return node.sqrt(argument);
+    if (name === 'text') return node.text(serializeToAsciiMath(argument));
+    if (name === 'obrace') return node.overunder('overbrace', argument);
+    if (name === 'ubrace') return node.overunder('underbrace', argument);
+    if (name === 'cancel') return argument;
+    if (ACCENTS[name]) return node.accent(ACCENTS[name], argument);
+    if (FONTS[name]) return node.font(FONTS[name], argument);
+    const [open, close] = DELIMITER_FUNCTIONS[name];
+    return node.parens(argument, open, close, open.startsWith('\\') ? 'auto' : undefined);
+  }
+
+  private binary(name: string): MathNode {
+    const first = unbracket(this.simple() ?? node.placeholder());
+    const second = unbracket(this.simple() ?? node.placeholder());
+    switch (name) {
+      case 'frac':
+        return node.fraction(first, second);
+      case 'root':
+        return node.sqrt(second, first);
+      case 'stackrel':
+      case 'overset':
+        return node.overunder('overset', second, first);
+      case 'underset':
+        return node.overunder('underset', second, undefined, first);
+      default:
+        // color(red)(x): the color name was read as letters
+        return node.color('textcolor', serializeToAsciiMath(first).replace(/\s+/g, ''), second);
+    }
+  }
+}
+
+/**
+ * Whether an item is the overlined repeating block of the decimal before it: 0.bar(3)
+ */
+function isRepetend(previous: MathNode, item: MathNode): item is AccentNode {
+  return (
+    previous.kind === 'number' && previous.value.includes('.') &&
+    item.kind === 'accent' && (item.accent === 'bar' || item.accent === 'overline') &&
+    item.body.kind === 'number' && /^[0-9]+$/.test(item.body.value)
+  );
+}
+
+const MATCHING: Partial<Record<Delimiter, Delimiter>> = {
+  '(': ')', '[': ']', '{': '}', '\\langle': '\\rangle', '\\lfloor': '\\rfloor', '\\lceil': '\\rceil', '.': '.',
+};
+
+/**
+ * Brackets around a fraction part, script or argument only group: (a+b)/2
+ */
+function unbracket(n: MathNode): MathNode {
+  if (n.kind === 'parens' && !n.size && ['()', '[]', '{}'].includes(n.open + n.close)) return n.content;
+  return n;
+}
+
+function single(nodes: readonly MathNode[]): MathNode {
+  return nodes.length === 1 ? nodes[0] : node.row(nodes);
+}
+
+function splitCommas(n: MathNode): MathNode[] {
+  const children = n.kind === 'row' ? n.children : [n];
+  const cells: MathNode[][] = [[]];
+  for (const child of children) {
+    if (child.kind === 'operator' && child.value === ',') cells.push([]);
+    else cells[cells.length - 1].push(child);
+  }
+  return cells.map(single);
+}
+
+/**
+ * Whether plain text is LaTeX rather than AsciiMath: it has commands,
+ * Unicode math (α ≤ x²) or braced scripts (x^{2}), which AsciiMath never needs
+ */
+export function isLatexSource(text: string): boolean {
+  return text.includes('\\') || /[^\x00-\x7f]/.test(text) || /[\^_]\{/.test(text);
+}
+
+/**
+ * Parse AsciiMath into an AST. AsciiMath has no syntax errors: anything
+ * not understood is read as the characters it is made of.
+ */
+export function parseAsciiMath(text: string): MathNode {
+  return new AsciiMathParser(tokenize(text)).parse();
+}
+
+// =============================================================================
+// Serializer
+// =============================================================================
+
+function invert(table: Readonly<Record<string, string>>): Record<string, string> {
+  const inverted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(table)) {
+    if (!(value in inverted)) inverted[value] = key;
+  }
+  return inverted;
+}
+
+const OPERATOR_SPELLINGS: Record<string, string> = { ...invert(OPERATORS), le: '<=', ge: '>=', ne: '!=', gets: 'larr' };
+const LARGE_OPERATOR_SPELLINGS = invert(LARGE_OPERATOR_NAMES);
+const ACCENT_SPELLINGS: Record<string, string> = { ...invert(ACCENTS), widehat: 'hat', widetilde: 'tilde', overrightarrow: 'vec' };
+const FONT_SPELLINGS = invert(FONTS);
+const DELIMITER_SPELLINGS: Record<string, string> = { ...invert(LEFT_BRACKETS), ...invert(RIGHT_BRACKETS), '|': '|', '\\|': '||', '.': '' };
+
+/**
+ * Serialize an AST to AsciiMath
+ */
+export function serializeToAsciiMath(ast: MathNode): string {
+  return serialize(ast);
+}
+
+function serialize(n: MathNode): string {
+  switch (n.kind) {
+    case 'row':
+      return join(n.children.map(serialize));
+    case 'number':
+      return n.value;
+    case 'symbol':
+      if (n.value === '{' || n.value === '}') return n.value;
+      return n.value.length === 1 || GREEK_LETTERS.has(n.value) ? n.value : COMMAND_CHARACTERS[n.value] ?? n.value;
+    case 'operator':
+      return OPERATOR_SPELLINGS[n.value] ?? COMMAND_CHARACTERS[n.value] ?? n.value;
+    case 'text':
+      return n.value.includes('"') ? `text(${n.value})` : `"${n.value}"`;
+    case 'space':
+      return n.size === 'quad' || n.size === 'qquad' ? n.size : ' ';
+    case 'placeholder':
+      return '';
+    case 'macro':
+    case 'error':
+      return serializeToLatex(n);
+    case 'fraction':
+      return `${group(n.numerator)}/${group(n.denominator)}`;
+    case 'binom':
+      return `((${serialize(n.top)}),(${serialize(n.bottom)}))`;
+    case 'mixedNumber':
+      return `${serialize(n.whole)} ${group(n.numerator)}/${group(n.denominator)}`;
+    case 'repeatingDecimal':
+      return `${serialize(n.decimal)}bar(${serialize(n.repetend)})`;
+    case 'power':
+      return `${base(n.base)}^${group(n.exponent)}`;
+    case 'prime':
+      return base(n.base) + "'".repeat(n.count);
+    case 'subscript':
+      return `${base(n.base)}_${group(n.subscript)}`;
+    case 'subsup':
+      return `${base(n.base)}_${group(n.subscript)}^${group(n.superscript)}`;
+    case 'sqrt':
+      return n.index ? `root(${serialize(n.index)})(${serialize(n.radicand)})` : `sqrt(${serialize(n.radicand)})`;
+    case 'parens':
+      return serializeParens(n);
+    case 'function': {
+      let result = LARGE_OPERATOR_SPELLINGS[n.name] ?? n.name;
+      if (n.limits?.lower) result += `_${group(n.limits.lower)}`;
+      if (n.limits?.upper) result += `^${group(n.limits.upper)}`;
+      if (!n.argument) return result;
+      return join([result, n.argument.kind === 'parens' ? serialize(n.argument) : group(n.argument)]);
+    }
+    case 'matrix': {
+      const [open, close] = n.style === 'pmatrix' ? ['(', ')'] : n.style === 'bmatrix' ? ['[', ']'] : n.style === 'Bmatrix' ? ['{', '}'] : n.style === 'vmatrix' ? ['|', '|'] : ['{:', ':}'];
+      const [rowOpen, rowClose] = n.style === 'bmatrix' ? ['[', ']'] : ['(', ')'];
+      const rows = n.rows.map((row) => `${rowOpen}${row.map(serialize).join(',')}${rowClose}`);
+      return `${open}${rows.join(',')}${close}`;
+    }
+    case 'cases':
+      return `{${n.rows.map(([value, condition]) => `(${serialize(value)},${serialize(condition)})`).join(',')}:}`;
+    case 'aligned':
+      return `{:${n.rows.map((row) => `(${row.map(serialize).join(',')})`).join(',')}:}`;
+    case 'accent':
+      return `${ACCENT_SPELLINGS[n.accent] ?? 'bar'}(${serialize(n.body)})`;
+    case 'font':
+      return FONT_SPELLINGS[n.variant] ? `${FONT_SPELLINGS[n.variant]}(${serialize(n.body)})` : serialize(n.body);
+    case 'color':
+      return n.command === 'color' || n.command === 'textcolor' ? `color(${n.color})(${serialize(n.body)})` : serialize(n.body);
+    case 'overunder':
+      switch (n.command) {
+        case 'overbrace':
+          return `obrace(${serialize(n.body)})${n.over ? `^${group(n.over)}` : ''}`;
+        case 'underbrace':
+          return `ubrace(${serialize(n.body)})${n.under ? `_${group(n.under)}` : ''}`;
+        case 'underset':
+          return `underset(${serialize(n.under ?? node.placeholder())})(${serialize(n.body)})`;
+        default:
+          return `overset(${serialize(n.over ?? node.placeholder())})(${serialize(n.body)})`;
+      }
+  }
+}
+
+function serializeParens(n: ParensNode): string {
+  const content = serialize(n.content);
+  if (n.open === '|' && n.close === '|') return `abs(${content})`;
+  if (n.open === '\\|' && n.close === '\\|') return `norm(${content})`;
+  return `${DELIMITER_SPELLINGS[n.open] ?? n.open}${content}${DELIMITER_SPELLINGS[n.close] ?? n.close}`;
+}
+
+/**
+ * A script or fraction part: bracketed unless it reads back as one simple
+ * expression. Plain brackets are doubled since the parser drops a pair.
+ */
+function group(n: MathNode): string {
+  const text = serialize(n);
+  return isSimple(n) ? text : `(${text})`;
+}
+
+/**
+ * A script base: bracketed when it would otherwise lose part of itself
+ */
+function base(n: MathNode): string {
+  if (n.kind === 'placeholder') return '';
+  const text = serialize(n);
+  return isSimple(n) || n.kind === 'parens' || n.kind === 'function' ? text : `(${text})`;
+}
+
+function isSimple(n: MathNode): boolean {
+  switch (n.kind) {
+    case 'number':
+    case 'symbol':
+    case 'text':
+    case 'sqrt':
+    case 'accent':
+    case 'matrix':
+    case 'binom':
+    case 'cases':
+      return true;
+    case 'operator':
+      return n.value !== '-';
+    case 'font':
+      return n.variant in FONT_SPELLINGS || isSimple(n.body);
+    case 'function':
+      return n.argument !== undefined && !n.limits;
+    case 'parens':
+      return unbracket(n) === n;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Join serialized nodes, with a space wherever two words would run together (s in → sin)
+ */
+function join(parts: readonly string[]): string {
+  let result = '';
+  for (const part of parts) {
+    if (part === '') continue;
+    const last = result[result.length - 1] ?? '';
+    if (/[a-zA-Z0-9.]/.test(last) && /^[a-zA-Z0-9."]/.test(part) && !(/\d/.test(last) && /^[a-zA-Z]/.test(part))) {
+      result += ' ';
+    }
+    result += part;
+  }
+  return result;
+}
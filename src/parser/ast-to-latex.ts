@@ -14,15 +14,28 @@ import {
   TextNode,
   SpaceNode,
   PlaceholderNode,
+  MacroNode,
+  ErrorNode,
   FractionNode,
   PowerNode,
+  PrimeNode,
   SubscriptNode,
   SubSupNode,
   SqrtNode,
   ParensNode,
   FunctionNode,
   MatrixNode,
+  CasesNode,
+  AlignedNode,
+  AccentNode,
+  FontNode,
+  ColorNode,
+  OverUnderNode,
+  BinomNode,
+  MixedNumberNode,
+  RepeatingDecimalNode,
 } from '../core/ast';
+import { isFunctionCommand } from './functions';
 
 // =============================================================================
 // Greek Letters (need backslash prefix)
@@ -42,6 +55,9 @@ const GREEK_LETTERS = new Set([
 // Operators that need backslash
 // =============================================================================
 
+// Special characters written escaped: \& \# \$ \_ \% \{ \}
+const ESCAPED_SYMBOLS = new Set(['&', '#', '$', '_', '%', '{', '}']);
+
 const COMMAND_OPERATORS = new Set([
   'times', 'div', 'cdot', 'pm', 'mp', 'ast', 'star', 'circ', 'bullet',
   'oplus', 'ominus', 'otimes', 'oslash', 'odot',
@@ -66,23 +82,19 @@ const COMMAND_OPERATORS = new Set([
   '%',
 ]);
 
-// =============================================================================
-// Functions
-// =============================================================================
+// Relations and binary operators, spaced out with prettyPrint
+const RELATIONS = new Set([
+  '=', '<', '>', 'le', 'leq', 'ge', 'geq', 'neq', 'ne', 'approx', 'equiv', 'sim', 'simeq',
+  'll', 'gg', 'subset', 'supset', 'subseteq', 'supseteq', 'in', 'notin', 'ni',
+  'implies', 'iff', 'to', 'gets', 'leftarrow', 'rightarrow', 'leftrightarrow',
+  'Leftarrow', 'Rightarrow', 'Leftrightarrow', 'mapsto', 'longmapsto',
+  'uparrow', 'downarrow', 'updownarrow', 'Uparrow', 'Downarrow', 'Updownarrow',
+  'nearrow', 'searrow', 'swarrow', 'nwarrow', 'propto', 'cong', 'mid',
+]);
 
-const FUNCTIONS = new Set([
-  'sin', 'cos', 'tan', 'cot', 'sec', 'csc',
-  'arcsin', 'arccos', 'arctan', 'arccot',
-  'sinh', 'cosh', 'tanh', 'coth',
-  'log', 'ln', 'lg', 'exp',
-  'lim', 'limsup', 'liminf',
-  'min', 'max', 'sup', 'inf',
-  'det', 'dim', 'ker', 'hom', 'arg',
-  'deg', 'gcd', 'lcm', 'mod', 'bmod', 'pmod',
-  'Pr',
-  // Large operators
-  'sum', 'prod', 'coprod', 'int', 'oint', 'iint', 'iiint',
-  'bigcup', 'bigcap', 'bigoplus', 'bigotimes', 'bigvee', 'bigwedge',
+const BINARY_OPERATORS = new Set([
+  '+', '-', 'times', 'div', 'cdot', 'pm', 'mp', 'ast', 'star', 'circ', 'bullet',
+  'oplus', 'ominus', 'otimes', 'oslash', 'odot', 'cup', 'cap', 'setminus', 'land', 'lor',
 ]);
 
 // =============================================================================
@@ -102,10 +114,23 @@ const SPACE_COMMANDS: Record<string, string> = {
 // =============================================================================
 
 export interface SerializeOptions {
-  /** Add spaces around operators for readability */
+  /** Spaces around relations and binary operators (not unary signs) and after commas */
   prettyPrint?: boolean;
+  /**
+   * Write each row of matrices, cases and aligned environments on its own
+   * line, indented by this string once per level of nesting
+   */
+  indent?: string;
   /** Include placeholders in output (default: true). Set false for external/UI output */
   includePlaceholders?: boolean;
+  /** Extra function names written as commands (\sgn) instead of \operatorname{sgn} */
+  functions?: readonly string[];
+  /**
+   * Write nodes that carry a recorded `source` (parseLatex with preserveSource)
+   * exactly as they were read. Edited nodes are rebuilt without one, so only
+   * they are written in canonical form.
+   */
+  preserveSource?: boolean;
 }
 
 /**
@@ -116,6 +141,10 @@ export function serializeToLatex(ast: MathNode, options: SerializeOptions = {}):
 }
 
 function serializeNode(n: MathNode, options: SerializeOptions): string {
+  if (options.preserveSource && n.source !== undefined) {
+    return n.source;
+  }
+
   switch (n.kind) {
     case 'number':
       return serializeNumber(n);
@@ -129,12 +158,24 @@ function serializeNode(n: MathNode, options: SerializeOptions): string {
       return serializeSpace(n);
     case 'placeholder':
       return serializePlaceholder(n, options);
+    case 'macro':
+      return serializeMacro(n);
+    case 'error':
+      return serializeError(n);
     case 'row':
       return serializeRow(n, options);
     case 'fraction':
       return serializeFraction(n, options);
+    case 'binom':
+      return serializeBinom(n, options);
+    case 'mixedNumber':
+      return serializeMixedNumber(n, options);
+    case 'repeatingDecimal':
+      return serializeRepeatingDecimal(n, options);
     case 'power':
       return serializePower(n, options);
+    case 'prime':
+      return serializePrime(n, options);
     case 'subscript':
       return serializeSubscript(n, options);
     case 'subsup':
@@ -147,6 +188,18 @@ function serializeNode(n: MathNode, options: SerializeOptions): string {
       return serializeFunction(n, options);
     case 'matrix':
       return serializeMatrix(n, options);
+    case 'cases':
+      return serializeCases(n, options);
+    case 'aligned':
+      return serializeAligned(n, options);
+    case 'accent':
+      return serializeAccent(n, options);
+    case 'font':
+      return serializeFont(n, options);
+    case 'color':
+      return serializeColor(n, options);
+    case 'overunder':
+      return serializeOverUnder(n, options);
     default:
       return '';
   }
@@ -157,7 +210,8 @@ function serializeNumber(n: NumberNode): string {
 }
 
 function serializeSymbol(n: SymbolNode): string {
-  if (GREEK_LETTERS.has(n.value)) {
+  // A name is a command: Greek letters, and ones the parser kept as written (\ell, \displaystyle)
+  if (GREEK_LETTERS.has(n.value) || ESCAPED_SYMBOLS.has(n.value) || /^[a-zA-Z]{2,}$/.test(n.value)) {
     return '\\' + n.value;
   }
   // Single letter symbols don't need special treatment
@@ -165,29 +219,25 @@ function serializeSymbol(n: SymbolNode): string {
 }
 
 function serializeOperator(n: OperatorNode, options: SerializeOptions): string {
-  const space = options.prettyPrint ? ' ' : '';
-
   if (COMMAND_OPERATORS.has(n.value)) {
-    // Command operators always need a trailing space to prevent merging with next token
-    // e.g., \times followed by 'y' should be '\times y' not '\timesy'
-    return space + '\\' + n.value + ' ';
-  }
-
-  // Simple operators
-  switch (n.value) {
-    case '+':
-    case '-':
-    case '=':
-    case '<':
-    case '>':
-      return space + n.value + space;
-    default:
-      return n.value;
+    // Command operators need a trailing space to prevent merging with next token
+    // e.g., \times followed by 'y' should be '\times y' not '\timesy'.
+    // prettyPrint rows space them out themselves.
+    return '\\' + n.value + (options.prettyPrint ? '' : ' ');
   }
+  return n.value;
 }
 
 function serializeText(n: TextNode): string {
-  return `\\text{${n.value}}`;
+  return `\\text{${escapeText(n.value)}}`;
+}
+
+/**
+ * Escape the characters text mode treats as special (a & b → a \& b),
+ * leaving ones already escaped as they are
+ */
+function escapeText(value: string): string {
+  return value.replace(/\\?[&#$_%]/g, (match) => (match.length === 2 ? match : '\\' + match));
 }
 
 function serializeSpace(n: SpaceNode): string {
@@ -203,14 +253,86 @@ function serializePlaceholder(_n: PlaceholderNode, options: SerializeOptions): s
   return '{}';
 }
 
+function serializeMacro(n: MacroNode): string {
+  return `\\${n.name}` + n.args.map((arg) => `{${arg}}`).join('');
+}
+
+function serializeError(n: ErrorNode): string {
+  // Emit the source verbatim; a trailing command name must not merge with what follows
+  return /\\[a-zA-Z]+$/.test(n.value) ? n.value + ' ' : n.value;
+}
+
 function serializeRow(n: RowNode, options: SerializeOptions): string {
-  return n.children.map((child) => serializeNode(child, options)).join('');
+  return serializeRowParts(n, options).map((part) => part.latex).join('');
+}
+
+/**
+ * A row child as written, with the space before it
+ */
+export interface RowPart {
+  readonly latex: string;
+  /** A relation or binary operator, before which a long line may break */
+  readonly breakable: boolean;
+}
+
+/**
+ * Serialize the children of a row one by one (used by formatLatex to wrap lines)
+ */
+export function serializeRowParts(n: RowNode, options: SerializeOptions): RowPart[] {
+  const parts: RowPart[] = [];
+  let previous = '';
+
+  n.children.forEach((child, i) => {
+    let latex = serializeNode(child, options);
+    // \color runs to the end of its group, so scope it when more follows
+    if (child.kind === 'color' && child.command === 'color' && i < n.children.length - 1) {
+      latex = `{${latex}}`;
+    }
+
+    const spacing = operatorSpacing(n.children, i);
+    const spaced = options.prettyPrint ? spacing : 'none';
+    if (spaced === 'around' && i < n.children.length - 1) {
+      latex += ' ';
+    }
+    if (spaced === 'around' && i > 0) {
+      latex = ' ' + latex;
+    } else if (/\\[a-zA-Z]+$/.test(previous) && /^[a-zA-Z]/.test(latex)) {
+      // A command name followed by a letter needs a space: \sin x, not \sinx
+      latex = ' ' + latex;
+    }
+    if (spaced === 'after' && i < n.children.length - 1) {
+      latex += ' ';
+    }
+
+    parts.push({ latex, breakable: spacing === 'around' && i > 0 });
+    previous = latex;
+  });
+
+  return parts;
+}
+
+/**
+ * How prettyPrint spaces the i-th child of a row: relations and binary
+ * operators get spaces around them, commas after them. A sign that starts
+ * the row or follows another operator is unary and stays attached (-x, a=-b).
+ */
+function operatorSpacing(children: readonly MathNode[], i: number): 'none' | 'around' | 'after' {
+  const child = children[i];
+  if (child.kind !== 'operator') return 'none';
+  if (child.value === ',') return 'after';
+  if (RELATIONS.has(child.value)) return 'around';
+  if (!BINARY_OPERATORS.has(child.value)) return 'none';
+
+  const previous = children[i - 1];
+  const unary = !previous || (previous.kind === 'operator' &&
+    (RELATIONS.has(previous.value) || BINARY_OPERATORS.has(previous.value) || previous.value === ','));
+  return unary ? 'none' : 'around';
 }
 
 function serializeFraction(n: FractionNode, options: SerializeOptions): string {
   const num = serializeNode(n.numerator, options);
   const den = serializeNode(n.denominator, options);
-  return `\\frac{${num}}{${den}}`;
+  return `\\${n.style ?? 'frac'}{${num}}{${den}}`;
 }
 
 function serializePower(n: PowerNode, options: SerializeOptions): string {
@@ -224,6 +346,12 @@ function serializePower(n: PowerNode, options: SerializeOptions): string {
   return `${base}^${exp}`;
 }
 
+function serializePrime(n: PrimeNode, options: SerializeOptions): string {
+  // f_1' needs no braces: the marks join the subscripted base as a superscript
+  const base = n.base.kind === 'subscript' ? serializeNode(n.base, options) : serializeBase(n.base, options);
+  return base + "'".repeat(n.count);
+}
+
 function serializeSubscript(n: SubscriptNode, options: SerializeOptions): string {
   const base = serializeBase(n.base, options);
   const sub = serializeNode(n.subscript, options);
@@ -265,7 +393,9 @@ function serializeBase(n: MathNode, options: SerializeOptions): string {
 
   // Complex bases need braces
   if (n.kind === 'row' || n.kind === 'fraction' || n.kind === 'power' ||
-      n.kind === 'subscript' || n.kind === 'subsup') {
+      n.kind === 'subscript' || n.kind === 'subsup' ||
+      n.kind === 'mixedNumber' || n.kind === 'repeatingDecimal' ||
+      (n.kind === 'color' && n.command === 'color')) {
     return `{${serialized}}`;
   }
 
@@ -279,8 +409,9 @@ function needsBraces(n: MathNode): boolean {
   if (n.kind === 'row') return true;
   if (n.kind === 'number' && n.value.length > 1) return true;
   if (n.kind === 'symbol' && n.value.length > 1 && !GREEK_LETTERS.has(n.value)) return true;
-  if (n.kind === 'placeholder') return true;
+  if (n.kind === 'placeholder' || n.kind === 'error') return true;
   if (n.kind === 'fraction' || n.kind === 'sqrt' || n.kind === 'parens') return true;
+  if (n.kind === 'mixedNumber' || n.kind === 'repeatingDecimal') return true;
   // Nested powers/subscripts need braces to avoid ambiguity
   if (n.kind === 'power' || n.kind === 'subscript' || n.kind === 'subsup') return true;
   return false;
@@ -300,16 +431,29 @@ function serializeSqrt(n: SqrtNode, options: SerializeOptions): string {
 function serializeParens(n: ParensNode, options: SerializeOptions): string {
   const content = serializeNode(n.content, options);
 
-  if (n.size === 'auto') {
-    // Use \left \right
+  if (n.size) {
     const open = serializeDelimiter(n.open, 'left');
     const close = serializeDelimiter(n.close, 'right');
-    return `\\left${open}${content}\\right${close}`;
+    // \left\langle x, not \left\langlex
+    const body = /\\[a-zA-Z]+$/.test(open) && /^[a-zA-Z]/.test(content) ? ` ${content}` : content;
+    if (n.size === 'auto') {
+      // Use \left \right
+      return `\\left${open}${body}\\right${close}`;
+    }
+    if (n.sizing) {
+      // Sizing as written: \bigl( ... \Bigr), \Big| or \bigm| alone
+      const [openSizing, closeSizing] = n.sizing;
+      const left = openSizing ? `\\${openSizing}${open}` : '';
+      const right = closeSizing ? `\\${closeSizing}${close}` : '';
+      return `${left}${openSizing ? body : content}${right}`;
+    }
+    // Explicit size: \bigl( ... \bigr)
+    return `\\${n.size}l${open}${body}\\${n.size}r${close}`;
   }
 
-  // Simple delimiters
-  const open = n.open === '{' ? '\\{' : n.open;
-  const close = n.close === '}' ? '\\}' : n.close;
+  // Simple delimiters; an invisible one has nothing to write
+  const open = n.open === '{' ? '\\{' : n.open === '.' ? '' : n.open;
+  const close = n.close === '}' ? '\\}' : n.close === '.' ? '' : n.close;
 
   return `${open}${content}${close}`;
 }
@@ -329,9 +473,12 @@ function serializeDelimiter(delim: string, side: 'left' | 'right'): string {
     case '\\|':
       return '\\|';
     case '\\langle':
-      return '\\langle';
     case '\\rangle':
-      return '\\rangle';
+    case '\\lfloor':
+    case '\\rfloor':
+    case '\\lceil':
+    case '\\rceil':
+      return delim;
     case '.':
       return '.'; // Invisible delimiter
     default:
@@ -342,10 +489,12 @@ function serializeDelimiter(delim: string, side: 'left' | 'right'): string {
 function serializeFunction(n: FunctionNode, options: SerializeOptions): string {
   let result = '';
 
-  if (FUNCTIONS.has(n.name)) {
+  if (n.starred) {
+    result = `\\operatorname*{${n.name}}`;
+  } else if (isFunctionCommand(n.name, options.functions)) {
     result = '\\' + n.name;
   } else {
-    result = n.name;
+    result = `\\operatorname{${n.name}}`;
   }
 
   // Add limits if present
@@ -391,8 +540,102 @@ function serializeMatrix(n: MatrixNode, options: SerializeOptions): string {
     row.map((cell) => serializeNode(cell, options)).join(' & ')
   );
 
-  result += rowStrings.join(' \\\\ ');
-  result += `\\end{${envName}}`;
+  return result + environmentBody(rowStrings, options) + `\\end{${envName}}`;
+}
 
-  return result;
+/**
+ * Join the rows of an environment: on one line, or with `indent` one per line
+ */
+function environmentBody(rowStrings: readonly string[], options: SerializeOptions): string {
+  if (options.indent === undefined) {
+    return rowStrings.join(' \\\\ ');
+  }
+  const indent = options.indent;
+  const lines = rowStrings.map((row) => indent + row.split('\n').join('\n' + indent));
+  return '\n' + lines.join(' \\\\\n') + '\n';
+}
+
+function serializeCases(n: CasesNode, options: SerializeOptions): string {
+  const rowStrings = n.rows.map((row) =>
+    row.map((cell) => serializeNode(cell, options)).join(' & ')
+  );
+  return `\\begin{${n.style}}${environmentBody(rowStrings, options)}\\end{${n.style}}`;
+}
+
+function serializeAligned(n: AlignedNode, options: SerializeOptions): string {
+  // An empty cell is just an alignment point (e.g. the start of "&= x"), no braces needed
+  const serializeCell = (cell: MathNode): string => {
+    const only = cell.kind === 'row' && cell.children.length === 1 ? cell.children[0] : cell;
+    return only.kind === 'placeholder' ? '' : serializeNode(cell, options);
+  };
+  // prettyPrint: x &= 1
+  const lineStrings = n.rows.map((row) => row.map(serializeCell).join(options.prettyPrint ? ' &' : '&').trimStart());
+  return `\\begin{${n.style}}${environmentBody(lineStrings, options)}\\end{${n.style}}`;
+}
+
+function serializeAccent(n: AccentNode, options: SerializeOptions): string {
+  return `\\${n.accent}{${serializeNode(n.body, options)}}`;
+}
+
+function serializeFont(n: FontNode, options: SerializeOptions): string {
+  return `\\${n.variant}{${serializeNode(n.body, options)}}`;
+}
+
+function serializeColor(n: ColorNode, options: SerializeOptions): string {
+  switch (n.command) {
+    case 'color':
+      return `\\color{${n.color}}${serializeNode(n.body, options)}`;
+    case 'textcolor':
+      return `\\textcolor{${n.color}}{${serializeNode(n.body, options)}}`;
+    case 'colorbox':
+      return `\\colorbox{${n.color}}{${serializeBoxContent(n.body, options)}}`;
+    case 'fcolorbox':
+      return `\\fcolorbox{${n.frameColor ?? n.color}}{${n.color}}{${serializeBoxContent(n.body, options)}}`;
+  }
+}
+
+/**
+ * Box arguments are text mode: plain text stays as is, math goes between $...$
+ */
+function serializeBoxContent(n: MathNode, options: SerializeOptions): string {
+  const single = n.kind === 'row' && n.children.length === 1 ? n.children[0] : n;
+  if (single.kind === 'text') return escapeText(single.value);
+  return `$${serializeNode(n, options)}$`;
+}
+
+function serializeOverUnder(n: OverUnderNode, options: SerializeOptions): string {
+  const body = serializeNode(n.body, options);
+  const over = n.over ? serializeNode(n.over, options) : '';
+  const under = n.under ? serializeNode(n.under, options) : '';
+
+  switch (n.command) {
+    case 'overset':
+    case 'stackrel':
+      return `\\${n.command}{${over}}{${body}}`;
+    case 'underset':
+      return `\\underset{${under}}{${body}}`;
+    case 'overbrace':
+      return `\\overbrace{${body}}` + (n.over ? `^{${over}}` : '');
+    case 'underbrace':
+      return `\\underbrace{${body}}` + (n.under ? `_{${under}}` : '');
+  }
+}
+
+function serializeBinom(n: BinomNode, options: SerializeOptions): string {
+  const top = serializeNode(n.top, options);
+  const bottom = serializeNode(n.bottom, options);
+  return `\\${n.variant}{${top}}{${bottom}}`;
+}
+
+function serializeMixedNumber(n: MixedNumberNode, options: SerializeOptions): string {
+  const whole = serializeNode(n.whole, options);
+  const num = serializeNode(n.numerator, options);
+  const den = serializeNode(n.denominator, options);
+  return `${whole}\\frac{${num}}{${den}}`;
+}
+
+function serializeRepeatingDecimal(n: RepeatingDecimalNode, options: SerializeOptions): string {
+  const decimal = serializeNode(n.decimal, options);
+  const repetend = serializeNode(n.repetend, options);
+  return `${decimal}\\overline{${repetend}}`;
 }
@@ -0,0 +1,468 @@
+/**
+ * AST to MathML Serializer
+ *
+ * Converts our AST format to Presentation MathML, walking the tree directly
+ * rather than going through KaTeX. Output sticks to the elements MathML Core
+ * and MathML 3 readers share (<mi>, <mn>, <mo>, <mfrac>, <msqrt>, <mroot>,
+ * <msubsup>, <mtable>, ...).
+ */
+
+import {
+  MathNode,
+  Delimiter,
+  DelimiterSize,
+  OperatorNode,
+  SymbolNode,
+  MacroNode,
+  FractionNode,
+  BinomNode,
+  PrimeNode,
+  ParensNode,
+  FunctionNode,
+  MatrixNode,
+  CasesNode,
+  AlignedNode,
+  AccentNode,
+  FontNode,
+  ColorNode,
+  OverUnderNode,
+} from '../core/ast';
+import { parseLatex } from './latex-to-ast';
+import { serializeToLatex } from './ast-to-latex';
+import { LARGE_OPERATORS, LIMIT_FUNCTIONS } from './functions';
+import { COMMAND_CHARACTERS, DELIMITER_CHARACTERS, LARGE_OPERATOR_CHARACTERS } from './symbols';
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+const MATHML_NAMESPACE = 'http://www.w3.org/1998/Math/MathML';
+
+// Operators that are really ordinary symbols: written as upright <mi>
+const ORDINARY_OPERATORS = new Set([
+  'infty', 'partial', 'nabla', 'degree', 'emptyset', 'varnothing',
+  'forall', 'exists', 'nexists', 'neg', 'ldots', '%',
+]);
+
+// Escaped specials: \& and the braces are operators, \# \$ \_ upright symbols
+const SPECIAL_OPERATORS = new Set(['&', '{', '}']);
+const SPECIAL_SYMBOLS = new Set(['#', '$', '_']);
+
+// Large operators whose limits are scripts at the side rather than stacked
+const SIDE_LIMIT_OPERATORS = new Set(['int', 'iint', 'iiint', 'oint']);
+
+const SPACE_WIDTHS: Record<string, string> = {
+  thin: '0.1667em',
+  medium: '0.2222em',
+  thick: '0.2778em',
+  quad: '1em',
+  qquad: '2em',
+};
+
+// Size of \big ... \Bigg delimiters
+const DELIMITER_SIZES: Record<string, string> = {
+  big: '1.2em',
+  Big: '1.8em',
+  bigg: '2.4em',
+  Bigg: '3em',
+};
+
+// U+2061 FUNCTION APPLICATION joins a function name to its argument
+const APPLY = '<mo>\u2061</mo>';
+
+// U+2064 INVISIBLE PLUS joins the whole part of a mixed number to its fraction
+const INVISIBLE_PLUS = '<mo>\u2064</mo>';
+
+const PRIME_CHARACTERS = ['′', '″', '‴', '⁗'];
+
+const MATRIX_FENCES: Record<MatrixNode['style'], readonly [string, string] | null> = {
+  matrix: null,
+  array: null,
+  pmatrix: ['(', ')'],
+  bmatrix: ['[', ']'],
+  Bmatrix: ['{', '}'],
+  vmatrix: ['|', '|'],
+  Vmatrix: ['‖', '‖'],
+};
+
+// Accent marks; the wide and arrow accents stretch over their body. The hat
+// and tilde are the combining U+0302 and U+0303 renderers expect, not ASCII ^ and ~
+const ACCENT_CHARACTERS: Record<AccentNode['accent'], string> = {
+  hat: '\u0302', widehat: '\u0302', check: 'ˇ', tilde: '\u0303', widetilde: '\u0303', acute: '´', grave: '`',
+  breve: '˘', bar: '¯', overline: '‾', underline: '‾', vec: '→', overrightarrow: '→', overleftarrow: '←',
+  dot: '˙', ddot: '¨', mathring: '˚',
+};
+
+const STRETCHY_ACCENTS = new Set(['widehat', 'widetilde', 'overline', 'underline', 'overrightarrow', 'overleftarrow']);
+
+const FONT_VARIANTS: Record<FontNode['variant'], string> = {
+  mathbb: 'double-struck',
+  mathcal: 'script',
+  mathscr: 'script',
+  mathfrak: 'fraktur',
+  mathbf: 'bold',
+  mathsf: 'sans-serif',
+  mathtt: 'monospace',
+  mathit: 'italic',
+  mathrm: 'normal',
+  boldsymbol: 'bold-italic',
+};
+
+// =============================================================================
+// Serializer
+// =============================================================================
+
+export interface MathMLOptions {
+  /** Typeset as a display formula: <math display="block"> */
+  display?: boolean;
+  /** Attach the LaTeX as an application/x-tex annotation inside <semantics> */
+  annotation?: boolean;
+  /** Macro definitions, as for parseLatex, used to write macro nodes out; others become <mtext> */
+  macros?: Record<string, string>;
+}
+
+/**
+ * State passed down the tree
+ */
+interface Context {
+  readonly options: MathMLOptions;
+  readonly variant?: string; // mathvariant set by an enclosing \mathbb, \mathbf, ...
+}
+
+/**
+ * Serialize an AST node to a <math> element
+ */
+export function serializeToMathML(ast: MathNode, options: MathMLOptions = {}): string {
+  const ctx: Context = { options };
+  const display = options.display ? ' display="block"' : '';
+
+  if (options.annotation) {
+    const latex = escapeXml(serializeToLatex(ast, { includePlaceholders: false }));
+    const annotation = `<annotation encoding="application/x-tex">${latex}</annotation>`;
+    return `<math xmlns="${MATHML_NAMESPACE}"${display}><semantics>${element(ast, ctx)}${annotation}</semantics></math>`;
+  }
+
+  return `<math xmlns="${MATHML_NAMESPACE}"${display}>${contents(ast, ctx)}</math>`;
+}
+
+/**
+ * A node as a single element (rows become <mrow>)
+ */
+function element(n: MathNode, ctx: Context): string {
+  if (n.kind === 'row' && n.children.length !== 1) {
+    return `<mrow>${contents(n, ctx)}</mrow>`;
+  }
+  return contents(n, ctx);
+}
+
+/**
+ * A node as a sequence of elements, for places that take several (rows are spread)
+ */
+function contents(n: MathNode, ctx: Context): string {
+  if (n.kind === 'row') {
+    return n.children
+      .map((child, i) => {
+        // \sin x: the argument follows the function in the row
+        const applied = child.kind === 'function' && !child.argument && !LARGE_OPERATORS.has(child.name);
+        return serializeNode(child, ctx) + (applied && i < n.children.length - 1 ? APPLY : '');
+      })
+      .join('');
+  }
+  return serializeNode(n, ctx);
+}
+
+function serializeNode(n: MathNode, ctx: Context): string {
+  switch (n.kind) {
+    case 'number':
+      return token('mn', n.value, ctx);
+    case 'symbol':
+      return serializeSymbol(n, ctx);
+    case 'operator':
+      return serializeOperator(n, ctx);
+    case 'text':
+      return token('mtext', n.value, ctx);
+    case 'space':
+      return `<mspace width="${SPACE_WIDTHS[n.size]}"/>`;
+    case 'placeholder':
+      // Empty slot, marked so it can be styled or found
+      return '<mi class="pmf-placeholder">⬚</mi>';
+    case 'macro':
+      return serializeMacro(n, ctx);
+    case 'error':
+      return `<merror>${token('mtext', n.value, ctx)}</merror>`;
+    case 'row':
+      return element(n, ctx);
+    case 'fraction':
+      return serializeFraction(n, ctx);
+    case 'binom':
+      return serializeBinom(n, ctx);
+    case 'mixedNumber':
+      return `<mrow>${element(n.whole, ctx)}${INVISIBLE_PLUS}<mfrac>${element(n.numerator, ctx)}${element(n.denominator, ctx)}</mfrac></mrow>`;
+    case 'repeatingDecimal':
+      return `<mrow>${element(n.decimal, ctx)}<mover accent="true">${element(n.repetend, ctx)}<mo stretchy="true">‾</mo></mover></mrow>`;
+    case 'power':
+      return `<msup>${element(n.base, ctx)}${element(n.exponent, ctx)}</msup>`;
+    case 'prime':
+      return serializePrime(n, ctx);
+    case 'subscript':
+      return `<msub>${element(n.base, ctx)}${element(n.subscript, ctx)}</msub>`;
+    case 'subsup':
+      return `<msubsup>${element(n.base, ctx)}${element(n.subscript, ctx)}${element(n.superscript, ctx)}</msubsup>`;
+    case 'sqrt':
+      return n.index
+        ? `<mroot>${element(n.radicand, ctx)}${element(n.index, ctx)}</mroot>`
+        : `<msqrt>${contents(n.radicand, ctx)}</msqrt>`;
+    case 'parens':
+      return serializeParens(n, ctx);
+    case 'function':
+      return serializeFunction(n, ctx);
+    case 'matrix':
+      return serializeMatrix(n, ctx);
+    case 'cases':
+      return serializeCases(n, ctx);
+    case 'aligned':
+      return serializeAligned(n, ctx);
+    case 'accent':
+      return serializeAccent(n, ctx);
+    case 'font':
+      return element(n.body, { ...ctx, variant: FONT_VARIANTS[n.variant] });
+    case 'color':
+      return serializeColor(n, ctx);
+    case 'overunder':
+      return serializeOverUnder(n, ctx);
+    default:
+      return '';
+  }
+}
+
+/**
+ * A token element; an enclosing font's mathvariant wins over `variant`
+ */
+function token(tag: 'mi' | 'mn' | 'mo' | 'mtext', text: string, ctx: Context, variant?: string): string {
+  const mathvariant = ctx.variant ?? variant;
+  const attr = mathvariant ? ` mathvariant="${mathvariant}"` : '';
+  return `<${tag}${attr}>${escapeXml(text)}</${tag}>`;
+}
+
+function serializeSymbol(n: SymbolNode, ctx: Context): string {
+  if (n.value === 'prime') {
+    return token('mo', COMMAND_CHARACTERS.prime, ctx);
+  }
+  if (SPECIAL_OPERATORS.has(n.value)) {
+    return token('mo', n.value, ctx);
+  }
+  if (SPECIAL_SYMBOLS.has(n.value)) {
+    return token('mi', n.value, ctx, 'normal');
+  }
+  const char = COMMAND_CHARACTERS[n.value];
+  if (char) {
+    // Capital Greek is upright, as in TeX
+    return token('mi', char, ctx, /^[A-Z]/.test(n.value) ? 'normal' : undefined);
+  }
+  return token('mi', n.value, ctx);
+}
+
+function serializeOperator(n: OperatorNode, ctx: Context): string {
+  const char = COMMAND_CHARACTERS[n.value] ?? n.value;
+  if (ORDINARY_OPERATORS.has(n.value)) {
+    return token('mi', char, ctx, 'normal');
+  }
+  return token('mo', char, ctx);
+}
+
+function serializeMacro(n: MacroNode, ctx: Context): string {
+  const latex = serializeToLatex(n);
+  const macros = ctx.options.macros;
+  if (macros?.[`\\${n.name}`] === undefined) {
+    return token('mtext', latex, ctx);
+  }
+  return element(parseLatex(latex, { macros, macroMode: 'expand' }), ctx);
+}
+
+/**
+ * Set content in display (\dfrac) or text (\tfrac) style
+ */
+function withStyle(content: string, style: string): string {
+  if (style === 'dfrac' || style === 'cfrac' || style === 'dbinom') {
+    return `<mstyle displaystyle="true">${content}</mstyle>`;
+  }
+  if (style === 'tfrac' || style === 'tbinom') {
+    return `<mstyle displaystyle="false">${content}</mstyle>`;
+  }
+  return content;
+}
+
+function serializeFraction(n: FractionNode, ctx: Context): string {
+  const fraction = `<mfrac>${element(n.numerator, ctx)}${element(n.denominator, ctx)}</mfrac>`;
+  return withStyle(fraction, n.style ?? 'frac');
+}
+
+function serializeBinom(n: BinomNode, ctx: Context): string {
+  const stack = `<mfrac linethickness="0">${element(n.top, ctx)}${element(n.bottom, ctx)}</mfrac>`;
+  return withStyle(`<mrow><mo>(</mo>${stack}<mo>)</mo></mrow>`, n.variant);
+}
+
+function serializePrime(n: PrimeNode, ctx: Context): string {
+  const marks = token('mo', PRIME_CHARACTERS[n.count - 1] ?? '′'.repeat(n.count), ctx);
+  // f_1' sets its marks as a superscript next to the subscript
+  if (n.base.kind === 'subscript') {
+    return `<msubsup>${element(n.base.base, ctx)}${element(n.base.subscript, ctx)}${marks}</msubsup>`;
+  }
+  return `<msup>${element(n.base, ctx)}${marks}</msup>`;
+}
+
+/**
+ * A delimiter as a fence: stretchy for \left...\right, fixed for \big and plain ones
+ */
+function fence(delim: Delimiter, size: ParensNode['size']): string {
+  const char = DELIMITER_CHARACTERS[delim];
+  if (!char) return '';
+  if (size === 'auto') {
+    return `<mo fence="true">${escapeXml(char)}</mo>`;
+  }
+  if (size) {
+    const em = DELIMITER_SIZES[size];
+    return `<mo fence="true" minsize="${em}" maxsize="${em}">${escapeXml(char)}</mo>`;
+  }
+  return `<mo stretchy="false">${escapeXml(char)}</mo>`;
+}
+
+// Size of one side, which differs from the other in \bigl( ... \Bigr)
+function sideSize(n: ParensNode, side: 0 | 1): ParensNode['size'] {
+  const command = n.sizing?.[side];
+  return command ? (command.replace(/[lmr]$/, '') as DelimiterSize) : n.size;
+}
+
+function serializeParens(n: ParensNode, ctx: Context): string {
+  const open = fence(n.open, sideSize(n, 0));
+  const close = fence(n.close, sideSize(n, 1));
+  return `<mrow>${open}${contents(n.content, ctx)}${close}</mrow>`;
+}
+
+function serializeFunction(n: FunctionNode, ctx: Context): string {
+  const lower = n.limits?.lower && element(n.limits.lower, ctx);
+  const upper = n.limits?.upper && element(n.limits.upper, ctx);
+
+  const large = LARGE_OPERATORS.has(n.name);
+  const name = large
+    ? token('mo', LARGE_OPERATOR_CHARACTERS[n.name] ?? n.name, ctx)
+    : token('mi', n.name, ctx, n.name.length === 1 ? 'normal' : undefined);
+
+  // Limits go below/above for \sum, \lim and \operatorname*; scripts otherwise
+  const stacked = (large && !SIDE_LIMIT_OPERATORS.has(n.name)) || LIMIT_FUNCTIONS.has(n.name) || n.starred;
+  let result = name;
+  if (lower && upper) {
+    result = stacked ? `<munderover>${name}${lower}${upper}</munderover>` : `<msubsup>${name}${lower}${upper}</msubsup>`;
+  } else if (lower) {
+    result = stacked ? `<munder>${name}${lower}</munder>` : `<msub>${name}${lower}</msub>`;
+  } else if (upper) {
+    result = stacked ? `<mover>${name}${upper}</mover>` : `<msup>${name}${upper}</msup>`;
+  }
+
+  if (!n.argument) return result;
+  return `<mrow>${result}${large ? '' : APPLY}${element(n.argument, ctx)}</mrow>`;
+}
+
+/**
+ * Rows of cells as an <mtable>
+ */
+function table(rows: readonly (readonly MathNode[])[], ctx: Context, attrs = ''): string {
+  const rowStrings = rows.map((row) => {
+    const cells = row.map((cell, i) => {
+      // An empty cell (x & \\) has nothing to show
+      if (cell.kind === 'placeholder') return '<mtd><mrow/></mtd>';
+      // A cell starting with a relation (&= x) keeps the spacing of an infix operator
+      const first = cell.kind === 'row' ? cell.children[0] : cell;
+      const content = contents(cell, ctx);
+      const infix = i > 0 && first?.kind === 'operator' ? content.replace(/^<mo>/, '<mo form="infix">') : content;
+      return `<mtd>${infix}</mtd>`;
+    });
+    return `<mtr>${cells.join('')}</mtr>`;
+  });
+  return `<mtable${attrs}>${rowStrings.join('')}</mtable>`;
+}
+
+function serializeMatrix(n: MatrixNode, ctx: Context): string {
+  let attrs = '';
+  if (n.style === 'array' && n.colSpec) {
+    const names: Record<string, string> = { l: 'left', c: 'center', r: 'right' };
+    const align = [...n.colSpec].filter((c) => c in names).map((c) => names[c]);
+    attrs = ` columnalign="${align.join(' ')}"`;
+  }
+
+  const body = table(n.rows, ctx, attrs);
+  const fences = MATRIX_FENCES[n.style];
+  if (!fences) return body;
+  return `<mrow><mo fence="true">${fences[0]}</mo>${body}<mo fence="true">${fences[1]}</mo></mrow>`;
+}
+
+function serializeCases(n: CasesNode, ctx: Context): string {
+  const display = n.style === 'dcases' ? ' displaystyle="true"' : '';
+  const body = table(n.rows, ctx, ` columnalign="left left"${display}`);
+  return n.style === 'rcases'
+    ? `<mrow>${body}<mo fence="true">}</mo></mrow>`
+    : `<mrow><mo fence="true">{</mo>${body}</mrow>`;
+}
+
+function serializeAligned(n: AlignedNode, ctx: Context): string {
+  if (n.style === 'gathered') {
+    return table(n.rows, ctx, ' displaystyle="true"');
+  }
+  // Columns alternate right and left around each alignment point
+  const columns = Math.max(...n.rows.map((row) => row.length));
+  const align = Array.from({ length: columns }, (_, i) => (i % 2 === 0 ? 'right' : 'left'));
+  return table(n.rows, ctx, ` columnalign="${align.join(' ')}" displaystyle="true"`);
+}
+
+function serializeAccent(n: AccentNode, ctx: Context): string {
+  const stretchy = STRETCHY_ACCENTS.has(n.accent) ? 'true' : 'false';
+  const mark = `<mo stretchy="${stretchy}">${escapeXml(ACCENT_CHARACTERS[n.accent])}</mo>`;
+  if (n.accent === 'underline') {
+    return `<munder accentunder="true">${element(n.body, ctx)}${mark}</munder>`;
+  }
+  return `<mover accent="true">${element(n.body, ctx)}${mark}</mover>`;
+}
+
+function serializeColor(n: ColorNode, ctx: Context): string {
+  const color = escapeXml(n.color);
+  switch (n.command) {
+    case 'color':
+    case 'textcolor':
+      return `<mrow mathcolor="${color}">${contents(n.body, ctx)}</mrow>`;
+    case 'colorbox':
+      return `<mrow mathbackground="${color}">${contents(n.body, ctx)}</mrow>`;
+    case 'fcolorbox': {
+      const frame = escapeXml(n.frameColor ?? n.color);
+      return `<mrow mathbackground="${color}" style="border: 1px solid ${frame}">${contents(n.body, ctx)}</mrow>`;
+    }
+  }
+}
+
+function serializeOverUnder(n: OverUnderNode, ctx: Context): string {
+  const body = element(n.body, ctx);
+  const over = n.over ? element(n.over, ctx) : '<mrow></mrow>';
+  const under = n.under ? element(n.under, ctx) : '<mrow></mrow>';
+
+  switch (n.command) {
+    case 'overset':
+    case 'stackrel':
+      return `<mover>${body}${over}</mover>`;
+    case 'underset':
+      return `<munder>${body}${under}</munder>`;
+    case 'overbrace': {
+      const braced = `<mover accent="true">${body}<mo stretchy="true">⏞</mo></mover>`;
+      return n.over ? `<mover>${braced}${over}</mover>` : braced;
+    }
+    case 'underbrace': {
+      const braced = `<munder accentunder="true">${body}<mo stretchy="true">⏟</mo></munder>`;
+      return n.under ? `<munder>${braced}${under}</munder>` : braced;
+    }
+  }
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
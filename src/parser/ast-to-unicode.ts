@@ -0,0 +1,296 @@
+/**
+ * AST to Unicode Serializer
+ *
+ * Converts our AST format to linear plain text (x² + √(y) = ½) for places
+ * that show neither LaTeX nor MathML: chat, plain-text answer boxes, the
+ * text/plain flavour of a copy. Scripts use Unicode superscript and
+ * subscript characters where every character has one, brackets otherwise.
+ */
+
+import {
+  MathNode,
+  RowNode,
+  OperatorNode,
+  FractionNode,
+  SqrtNode,
+  ParensNode,
+  FunctionNode,
+  MatrixNode,
+  AccentNode,
+  OverUnderNode,
+  node,
+} from '../core/ast';
+import { serializeToLatex } from './ast-to-latex';
+import { COMMAND_CHARACTERS, DELIMITER_CHARACTERS, LARGE_OPERATOR_CHARACTERS, styleCharacters } from './symbols';
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+const SUPERSCRIPTS: Readonly<Record<string, string>> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '−': '⁻', '=': '⁼', '(': '⁽', ')': '⁾',
+  a: 'ᵃ', b: 'ᵇ', c: 'ᶜ', d: 'ᵈ', e: 'ᵉ', f: 'ᶠ', g: 'ᵍ', h: 'ʰ', i: 'ⁱ', j: 'ʲ', k: 'ᵏ', l: 'ˡ', m: 'ᵐ',
+  n: 'ⁿ', o: 'ᵒ', p: 'ᵖ', r: 'ʳ', s: 'ˢ', t: 'ᵗ', u: 'ᵘ', v: 'ᵛ', w: 'ʷ', x: 'ˣ', y: 'ʸ', z: 'ᶻ',
+  '′': '′', '∘': '°',
+};
+
+const SUBSCRIPTS: Readonly<Record<string, string>> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '−': '₋', '=': '₌', '(': '₍', ')': '₎',
+  a: 'ₐ', e: 'ₑ', h: 'ₕ', i: 'ᵢ', j: 'ⱼ', k: 'ₖ', l: 'ₗ', m: 'ₘ', n: 'ₙ', o: 'ₒ', p: 'ₚ', r: 'ᵣ',
+  s: 'ₛ', t: 'ₜ', u: 'ᵤ', v: 'ᵥ', x: 'ₓ',
+};
+
+const VULGAR_FRACTIONS: Readonly<Record<string, string>> = {
+  '1/2': '½', '1/3': '⅓', '2/3': '⅔', '1/4': '¼', '3/4': '¾', '1/5': '⅕', '2/5': '⅖', '3/5': '⅗', '4/5': '⅘',
+  '1/6': '⅙', '5/6': '⅚', '1/7': '⅐', '1/8': '⅛', '3/8': '⅜', '5/8': '⅝', '7/8': '⅞', '1/9': '⅑', '1/10': '⅒',
+};
+
+// Roots with a character of their own
+const ROOT_CHARACTERS: Readonly<Record<string, string>> = { '2': '√', '3': '∛', '4': '∜' };
+
+// Operators that are really ordinary symbols, and postfix ones: written without spaces
+const UNSPACED_OPERATORS = new Set([
+  'infty', 'partial', 'nabla', 'degree', 'emptyset', 'varnothing',
+  'forall', 'exists', 'nexists', 'neg', 'ldots', 'cdots', 'vdots', 'ddots', '%', '!', '/',
+]);
+
+const PRIME_CHARACTERS = ['′', '″', '‴', '⁗'];
+
+const MATRIX_FENCES: Record<MatrixNode['style'], readonly [string, string]> = {
+  matrix: ['', ''],
+  array: ['', ''],
+  pmatrix: ['(', ')'],
+  bmatrix: ['[', ']'],
+  Bmatrix: ['{', '}'],
+  vmatrix: ['|', '|'],
+  Vmatrix: ['‖', '‖'],
+};
+
+// Combining marks; accents without one over a longer body are written as name(body)
+const COMBINING_ACCENTS: Record<AccentNode['accent'], string> = {
+  hat: '̂', widehat: '̂', check: '̌', tilde: '̃', widetilde: '̃',
+  acute: '́', grave: '̀', breve: '̆', bar: '̄', overline: '̅',
+  underline: '̲', vec: '⃗', overrightarrow: '⃗', overleftarrow: '⃖',
+  dot: '̇', ddot: '̈', mathring: '̊',
+};
+
+// Accents drawn over every character of a longer body
+const SPANNING_ACCENTS = new Set(['bar', 'overline', 'underline']);
+
+// =============================================================================
+// Serializer
+// =============================================================================
+
+/**
+ * State passed down the tree
+ */
+interface Context {
+  readonly compact: boolean; // Inside a script: no spaces around operators
+}
+
+/**
+ * Serialize an AST node to linear Unicode text
+ */
+export function serializeToUnicode(ast: MathNode): string {
+  return serializeNode(ast, { compact: false });
+}
+
+function serializeNode(n: MathNode, ctx: Context): string {
+  switch (n.kind) {
+    case 'row':
+      return serializeRow(n, ctx);
+    case 'number':
+      return n.value;
+    case 'symbol':
+      return COMMAND_CHARACTERS[n.value] ?? n.value;
+    case 'operator':
+      return operatorCharacter(n);
+    case 'text':
+      return n.value;
+    case 'space':
+      return n.size === 'qquad' ? '  ' : n.size === 'quad' ? ' ' : ' ';
+    case 'placeholder':
+      return '';
+    case 'macro':
+      return serializeToLatex(n);
+    case 'error':
+      return n.value;
+    case 'fraction':
+      return serializeFraction(n, ctx);
+    case 'binom':
+      return `(${serializeNode(n.top, ctx)} choose ${serializeNode(n.bottom, ctx)})`;
+    case 'mixedNumber': {
+      const fraction = VULGAR_FRACTIONS[`${serializeNode(n.numerator, ctx)}/${serializeNode(n.denominator, ctx)}`];
+      const whole = serializeNode(n.whole, ctx);
+      return fraction ? whole + fraction : `${whole} ${serializeNode(n.numerator, ctx)}/${serializeNode(n.denominator, ctx)}`;
+    }
+    case 'repeatingDecimal':
+      return serializeNode(n.decimal, ctx) + mark(serializeNode(n.repetend, ctx), COMBINING_ACCENTS.overline);
+    case 'power':
+      return group(n.base, ctx) + script(n.exponent, SUPERSCRIPTS, '^');
+    case 'prime':
+      return group(n.base, ctx) + (PRIME_CHARACTERS[n.count - 1] ?? '′'.repeat(n.count));
+    case 'subscript':
+      return group(n.base, ctx) + script(n.subscript, SUBSCRIPTS, '_');
+    case 'subsup':
+      return group(n.base, ctx) + script(n.subscript, SUBSCRIPTS, '_') + script(n.superscript, SUPERSCRIPTS, '^');
+    case 'sqrt':
+      return serializeSqrt(n, ctx);
+    case 'parens':
+      return serializeParens(n, ctx);
+    case 'function':
+      return serializeFunction(n, ctx);
+    case 'matrix': {
+      const [open, close] = MATRIX_FENCES[n.style];
+      return open + n.rows.map((row) => row.map((cell) => serializeNode(cell, ctx)).join(', ')).join('; ') + close;
+    }
+    case 'cases':
+      // One case per line, like aligned rows: a lone brace would read as an unclosed set
+      return n.rows.map(([value, condition]) => `${serializeNode(value, ctx)}, ${serializeNode(condition, ctx)}`).join('\n');
+    case 'aligned':
+      // Cells joined into one row so relations at a cell boundary are spaced as inline
+      return n.rows
+        .map((row) => serializeRow(node.row(row.flatMap((cell) => (cell.kind === 'row' ? cell.children : [cell]))), ctx))
+        .join('\n');
+    case 'accent':
+      return serializeAccent(n, ctx);
+    case 'font':
+      return styleCharacters(serializeNode(n.body, ctx), n.variant);
+    case 'color':
+      return serializeNode(n.body, ctx);
+    case 'overunder':
+      return serializeOverUnder(n, ctx);
+  }
+}
+
+function operatorCharacter(n: OperatorNode): string {
+  return COMMAND_CHARACTERS[n.value] ?? n.value;
+}
+
+/**
+ * Join a row, spacing binary operators and relations (a + b = c) but not
+ * signs (−x, a = −b) or ordinary symbols (∞, n!)
+ */
+function serializeRow(n: RowNode, ctx: Context): string {
+  let result = '';
+  n.children.forEach((child, i) => {
+    const prev = n.children[i - 1];
+    const text = serializeNode(child, ctx);
+
+    if (child.kind === 'operator' && !UNSPACED_OPERATORS.has(child.value)) {
+      if (child.value === ',' || child.value === ';') {
+        result += ctx.compact ? text : `${text} `;
+        return;
+      }
+      const sign = !prev || (prev.kind === 'operator' && !UNSPACED_OPERATORS.has(prev.value));
+      result += sign || ctx.compact ? text : ` ${text} `;
+      return;
+    }
+
+    // sin x, but sin(x)
+    if (prev && isBareFunction(prev) && !text.startsWith('(') && !result.endsWith(' ')) {
+      result += ' ';
+    }
+    result += text;
+  });
+  return result.replace(/ {2,}/g, ' ').trim();
+}
+
+function isBareFunction(n: MathNode): boolean {
+  if (n.kind === 'power' || n.kind === 'subscript' || n.kind === 'subsup') return isBareFunction(n.base);
+  return n.kind === 'function' && !n.argument;
+}
+
+/**
+ * A fraction part or script base: bracketed when it is more than one term
+ */
+function group(n: MathNode, ctx: Context): string {
+  const text = serializeNode(n, ctx);
+  return needsGroup(n) ? `(${text})` : text;
+}
+
+function needsGroup(n: MathNode): boolean {
+  switch (n.kind) {
+    case 'row':
+      return n.children.length > 1 || (n.children.length === 1 && needsGroup(n.children[0]));
+    case 'fraction':
+    case 'mixedNumber':
+    case 'overunder':
+    case 'cases':
+    case 'aligned':
+      return true;
+    case 'operator':
+      return n.value === '-';
+    default:
+      return false;
+  }
+}
+
+/**
+ * A script in superscript or subscript characters when all of it has them,
+ * else after ^ or _, bracketed unless it is a single character
+ */
+function script(n: MathNode, characters: Readonly<Record<string, string>>, marker: string): string {
+  const text = serializeNode(n, { compact: true });
+  const chars = [...text];
+  if (chars.length > 0 && chars.every((c) => c in characters)) {
+    return chars.map((c) => characters[c]).join('');
+  }
+  return chars.length === 1 ? marker + text : `${marker}(${text})`;
+}
+
+function serializeFraction(n: FractionNode, ctx: Context): string {
+  if (n.numerator.kind === 'number' && n.denominator.kind === 'number') {
+    const vulgar = VULGAR_FRACTIONS[`${n.numerator.value}/${n.denominator.value}`];
+    if (vulgar) return vulgar;
+  }
+  return `${group(n.numerator, ctx)}/${group(n.denominator, ctx)}`;
+}
+
+function serializeSqrt(n: SqrtNode, ctx: Context): string {
+  const radicand = `(${serializeNode(n.radicand, ctx)})`;
+  if (!n.index) return `√${radicand}`;
+
+  const index = serializeNode(n.index, { compact: true });
+  if (ROOT_CHARACTERS[index]) return ROOT_CHARACTERS[index] + radicand;
+  return `${script(n.index, SUPERSCRIPTS, '')}√${radicand}`;
+}
+
+function serializeParens(n: ParensNode, ctx: Context): string {
+  return DELIMITER_CHARACTERS[n.open] + serializeNode(n.content, ctx) + DELIMITER_CHARACTERS[n.close];
+}
+
+function serializeFunction(n: FunctionNode, ctx: Context): string {
+  let result = LARGE_OPERATOR_CHARACTERS[n.name] ?? n.name;
+  if (n.limits?.lower) result += script(n.limits.lower, SUBSCRIPTS, '_');
+  if (n.limits?.upper) result += script(n.limits.upper, SUPERSCRIPTS, '^');
+  if (n.argument) result += `(${serializeNode(n.argument, ctx)})`;
+  return result;
+}
+
+/**
+ * Combining mark after each character: x̄, 0.3̅
+ */
+function mark(text: string, combining: string): string {
+  return [...text].map((c) => c + combining).join('');
+}
+
+function serializeAccent(n: AccentNode, ctx: Context): string {
+  const body = serializeNode(n.body, ctx);
+  const combining = COMBINING_ACCENTS[n.accent];
+  if ([...body].length === 1 || SPANNING_ACCENTS.has(n.accent)) return mark(body, combining);
+  return `${n.accent}(${body})`;
+}
+
+/**
+ * Annotations go where scripts would: =ᵈᵉᶠ
+ */
+function serializeOverUnder(n: OverUnderNode, ctx: Context): string {
+  let result = serializeNode(n.body, ctx);
+  if (n.command === 'overbrace' || n.command === 'underbrace') result = `(${result})`;
+  if (n.under) result += script(n.under, SUBSCRIPTS, '_');
+  if (n.over) result += script(n.over, SUPERSCRIPTS, '^');
+  return result;
+}
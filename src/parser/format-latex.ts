@@ -0,0 +1,110 @@
+/**
+ * LaTeX Formatter
+ *
+ * Rewrites LaTeX in one canonical form: parsed, with synonyms replaced by a
+ * house style, and serialized with minimal braces, consistent spacing,
+ * environments laid out one row per line and long lines wrapped. Equal math
+ * formats to equal strings.
+ */
+
+import { MathNode, node, mapChildren } from '../core/ast';
+import { parseLatex } from './latex-to-ast';
+import { serializeToLatex, serializeRowParts, RowPart, SerializeOptions } from './ast-to-latex';
+
+// =============================================================================
+// Options
+// =============================================================================
+
+export interface FormatOptions {
+  /** 'spaced' (default) puts spaces around relations and binary operators and after commas; 'compact' none */
+  spacing?: 'spaced' | 'compact';
+  /** Indentation of environment rows and wrapped lines (default two spaces); false keeps environments on one line */
+  indent?: string | false;
+  /** Break top-level lines longer than this before a relation or binary operator (default: no limit) */
+  maxLineWidth?: number;
+  /** Command names replaced by the preferred spelling, e.g. { le: 'leq' } (default: HOUSE_STYLE) */
+  synonyms?: Readonly<Record<string, string>>;
+  /** Extra function names read and written as commands, as for parseLatex */
+  functions?: readonly string[];
+  /** Macros kept as macro uses, as for parseLatex */
+  macros?: Record<string, string>;
+}
+
+/**
+ * Default synonyms: the long spelling of relations and arrows
+ */
+export const HOUSE_STYLE: Readonly<Record<string, string>> = {
+  le: 'leq',
+  ge: 'geq',
+  ne: 'neq',
+  to: 'rightarrow',
+  gets: 'leftarrow',
+};
+
+// =============================================================================
+// Formatter
+// =============================================================================
+
+/**
+ * Format LaTeX in canonical form. Throws a LatexParseError, like parseLatex,
+ * when the input cannot be parsed.
+ */
+export function formatLatex(latex: string, options: FormatOptions = {}): string {
+  const { spacing = 'spaced', indent = '  ', maxLineWidth = Infinity, synonyms = HOUSE_STYLE } = options;
+
+  const ast = applySynonyms(parseLatex(latex, { functions: options.functions, macros: options.macros }), synonyms);
+  const serializeOptions: SerializeOptions = {
+    prettyPrint: spacing === 'spaced',
+    indent: indent === false ? undefined : indent,
+    includePlaceholders: false,
+    functions: options.functions,
+  };
+
+  if (ast.kind !== 'row' || maxLineWidth === Infinity) {
+    return serializeToLatex(ast, serializeOptions);
+  }
+  return wrapLines(serializeRowParts(ast, serializeOptions), maxLineWidth, indent === false ? '' : indent);
+}
+
+/**
+ * Replace synonym command names on symbols and operators throughout a tree
+ */
+function applySynonyms(n: MathNode, synonyms: Readonly<Record<string, string>>): MathNode {
+  if (n.kind === 'operator' || n.kind === 'symbol') {
+    const preferred = synonyms[n.value];
+    if (preferred === undefined) return n;
+    return n.kind === 'operator' ? node.operator(preferred) : node.symbol(preferred);
+  }
+  return mapChildren(n, (child) => applySynonyms(child, synonyms));
+}
+
+/**
+ * Fill lines greedily, breaking before a relation or binary operator once a
+ * line would grow past `width`. Continuation lines are indented.
+ */
+function wrapLines(parts: readonly RowPart[], width: number, indent: string): string {
+  // An operator stays on the line of the operand after it
+  const segments: string[] = [];
+  for (const part of parts) {
+    if (part.breakable || segments.length === 0) {
+      segments.push(part.latex);
+    } else {
+      segments[segments.length - 1] += part.latex;
+    }
+  }
+
+  const lines: string[] = [];
+  let line = '';
+  for (const segment of segments) {
+    // Environments bring their own line breaks: measure from the last one
+    const current = line.slice(line.lastIndexOf('\n') + 1);
+    if (current.trim() !== '' && (current + segment.split('\n')[0]).length > width) {
+      lines.push(line.trimEnd());
+      line = indent + segment.trimStart();
+    } else {
+      line += segment;
+    }
+  }
+
+  return [...lines, line.trimEnd()].join('\n');
+}
@@ -0,0 +1,54 @@
+/**
+ * Function Names
+ *
+ * Operator names written as their own commands (\sin, \sum). The parser,
+ * serializer and editor share these lists; integrators can add more names
+ * through their `functions` options.
+ */
+
+/**
+ * Upright function names: \sin, \log, \lim, ...
+ */
+export const FUNCTIONS: ReadonlySet<string> = new Set([
+  'sin', 'cos', 'tan', 'cot', 'sec', 'csc',
+  'arcsin', 'arccos', 'arctan', 'arccot',
+  'sinh', 'cosh', 'tanh', 'coth',
+  'log', 'ln', 'lg', 'exp',
+  'lim', 'limsup', 'liminf',
+  'min', 'max', 'sup', 'inf',
+  'det', 'dim', 'ker', 'hom', 'arg',
+  'deg', 'gcd', 'lcm', 'mod', 'bmod', 'pmod',
+  'Pr',
+]);
+
+/**
+ * Large operators that take limits: \sum, \int, ...
+ */
+export const LARGE_OPERATORS: ReadonlySet<string> = new Set([
+  'sum', 'prod', 'coprod', 'int', 'oint', 'iint', 'iiint',
+  'bigcup', 'bigcap', 'bigoplus', 'bigotimes', 'bigvee', 'bigwedge',
+]);
+
+/**
+ * Functions whose scripts are limits set below them: \lim_{x \to 0}
+ */
+export const LIMIT_FUNCTIONS: ReadonlySet<string> = new Set(['lim', 'limsup', 'liminf']);
+
+/**
+ * Function names read as \name that KaTeX does not define: written back
+ * through \operatorname so the output renders
+ */
+const OPERATORNAME_FUNCTIONS: ReadonlySet<string> = new Set(['arccot', 'lcm']);
+
+/**
+ * Whether `name` is written as its own command (\name) rather than through
+ * \operatorname{name}: a built-in function KaTeX defines, a large operator,
+ * or one of the integrator's extra `functions`
+ */
+export function isFunctionCommand(name: string, functions: readonly string[] = []): boolean {
+  return (
+    (FUNCTIONS.has(name) && !OPERATORNAME_FUNCTIONS.has(name)) ||
+    LARGE_OPERATORS.has(name) ||
+    functions.includes(name)
+  );
+}
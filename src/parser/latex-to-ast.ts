@@ -8,10 +8,91 @@
 import {
   MathNode,
   node,
+  FractionNode,
   ParensNode,
+  Delimiter,
+  DelimiterSize,
+  SizingCommand,
   MatrixNode,
+  CasesNode,
+  AlignedNode,
+  AccentNode,
+  FontNode,
+  ColorNode,
+  OverUnderNode,
+  BinomNode,
+  SourceSpan,
 } from '../core/ast';
-import { tokenize, TokenStream, Token } from './tokens';
+import { tokenize, tokenEnd, TokenStream, Token, TokenType } from './tokens';
+import { FUNCTIONS, LARGE_OPERATORS, LIMIT_FUNCTIONS } from './functions';
+
+// =============================================================================
+// Options
+// =============================================================================
+
+export interface ParseOptions {
+  /** Attach source ranges ({ start, end }) to every node as `span` */
+  positions?: boolean;
+  /** Extra function names parsed like \sin when written as commands (e.g. ['sgn'] for \sgn) */
+  functions?: readonly string[];
+  /** Macro definitions in KaTeX's format, e.g. { '\\R': '\\mathbb{R}', '\\vect': '\\mathbf{#1}' } */
+  macros?: Record<string, string>;
+  /**
+   * How uses of `macros` are read: 'preserve' (default) keeps each one as a
+   * macro node that serializes back to the macro; 'expand' parses its expansion.
+   * Macros defined in the input with \newcommand are always expanded.
+   */
+  macroMode?: 'preserve' | 'expand';
+  /**
+   * Record the LaTeX each node was written as on the node (`source`), so
+   * serializeToLatex with `preserveSource` reproduces untouched input exactly:
+   * \le stays \le and x^2 stays x^2. Nodes overlapping a macro expansion get none.
+   */
+  preserveSource?: boolean;
+}
+
+// =============================================================================
+// Diagnostics
+// =============================================================================
+
+export type ParseDiagnosticCode =
+  | 'unexpected-token' // Token that cannot appear here (stray }, &, \end, ...)
+  | 'unbalanced-brace' // { without } or } without {
+  | 'unbalanced-delimiter' // ( or [ or | without its closing partner
+  | 'unknown-environment' // \begin{name} we cannot parse
+  | 'environment-mismatch' // \begin{a} closed by \end{b}
+  | 'missing-end' // \begin{name} without \end
+  | 'stray-right' // \right without \left
+  | 'missing-right' // \left without \right
+  | 'invalid-delimiter' // \left or \right followed by a non-delimiter
+  | 'invalid-macro'; // \newcommand without a command name, or a macro that never stops expanding
+
+export interface ParseDiagnostic {
+  readonly code: ParseDiagnosticCode;
+  readonly message: string;
+  readonly span: SourceSpan;
+}
+
+export interface ParseResult {
+  /** Best-effort AST; unparseable parts become `error` nodes */
+  readonly ast: MathNode;
+  readonly diagnostics: readonly ParseDiagnostic[];
+}
+
+/**
+ * Thrown by parseLatex on the first problem in the input
+ */
+export class LatexParseError extends Error {
+  readonly code: ParseDiagnosticCode;
+  readonly span: SourceSpan;
+
+  constructor(code: ParseDiagnosticCode, message: string, span: SourceSpan) {
+    super(message);
+    this.name = 'LatexParseError';
+    this.code = code;
+    this.span = span;
+  }
+}
 
 // =============================================================================
 // Greek Letters and Symbols
@@ -49,23 +130,24 @@ const OPERATORS = new Set([
   '%',
 ]);
 
-const FUNCTIONS = new Set([
-  'sin', 'cos', 'tan', 'cot', 'sec', 'csc',
-  'arcsin', 'arccos', 'arctan', 'arccot',
-  'sinh', 'cosh', 'tanh', 'coth',
-  'log', 'ln', 'lg', 'exp',
-  'lim', 'limsup', 'liminf',
-  'min', 'max', 'sup', 'inf',
-  'det', 'dim', 'ker', 'hom', 'arg',
-  'deg', 'gcd', 'lcm', 'mod', 'bmod', 'pmod',
-  'Pr',
+const ACCENTS = new Set([
+  'hat', 'widehat', 'check', 'tilde', 'widetilde', 'acute', 'grave', 'breve',
+  'bar', 'overline', 'underline', 'vec', 'overrightarrow', 'overleftarrow',
+  'dot', 'ddot', 'mathring',
 ]);
 
-const LARGE_OPERATORS = new Set([
-  'sum', 'prod', 'coprod', 'int', 'oint', 'iint', 'iiint',
-  'bigcup', 'bigcap', 'bigoplus', 'bigotimes', 'bigvee', 'bigwedge',
+const FONTS = new Set([
+  'mathbb', 'mathcal', 'mathscr', 'mathfrak',
+  'mathbf', 'mathsf', 'mathtt', 'mathit', 'mathrm', 'boldsymbol',
 ]);
 
+const OVER_UNDER = new Set(['overset', 'underset', 'stackrel', 'overbrace', 'underbrace']);
+
+const COLOR_COMMANDS = new Set(['color', 'textcolor', 'colorbox', 'fcolorbox']);
+
+// Number-set shorthands (see commonMacros), e.g. \R for \mathbb{R}
+const NUMBER_SETS = new Set(['R', 'N', 'Z', 'Q', 'C']);
+
 const SPACE_COMMANDS: Record<string, 'thin' | 'medium' | 'thick' | 'quad' | 'qquad'> = {
   '\\,': 'thin',
   '\\:': 'medium',
@@ -78,15 +160,169 @@ const MATRIX_ENVIRONMENTS = new Set([
   'matrix', 'pmatrix', 'bmatrix', 'Bmatrix', 'vmatrix', 'Vmatrix', 'array',
 ]);
 
+const CASES_ENVIRONMENTS = new Set(['cases', 'dcases', 'rcases']);
+
+const ALIGNED_ENVIRONMENTS = new Set(['aligned', 'align*', 'gathered', 'split']);
+
+// Expansions allowed per parse before a macro is considered recursive
+const MAX_MACRO_EXPANSIONS = 1000;
+
+// Tokens that always close something; '|' is excluded since it also opens
+const CLOSING_TOKENS = new Set(['}', ')', ']', '&', '\\\\', '\\right', '\\end']);
+
+// Closing delimiter used when \right is missing
+const MATCHING_DELIMITERS: Partial<Record<Delimiter, Delimiter>> = {
+  '(': ')',
+  '[': ']',
+  '{': '}',
+  '|': '|',
+  '\\|': '\\|',
+  '\\langle': '\\rangle',
+  '\\lfloor': '\\rfloor',
+  '\\lceil': '\\rceil',
+  '.': '.',
+};
+
+// Delimiters that can open, so a plain \big before one starts a pair
+const LEFT_DELIMITERS = new Set<Delimiter>([
+  '(', '[', '{', '|', '\\|', '\\langle', '\\lfloor', '\\lceil',
+  '\\lgroup', '\\lmoustache', '\\ulcorner', '\\llcorner',
+]);
+
+// Tokens opening a group that a later closer must be outside of, with the token closing it
+const GROUP_CLOSERS: Readonly<Record<string, string>> = {
+  '{': '}', '(': ')', '[': ']', '\\left': '\\right', '\\begin': '\\end',
+};
+
+// Delimiter commands written as themselves
+const COMMAND_DELIMITERS = new Set([
+  'langle', 'rangle', 'lfloor', 'rfloor', 'lceil', 'rceil', 'backslash',
+  'uparrow', 'downarrow', 'updownarrow', 'Uparrow', 'Downarrow', 'Updownarrow',
+  'lgroup', 'rgroup', 'lmoustache', 'rmoustache', 'ulcorner', 'urcorner', 'llcorner', 'lrcorner',
+]);
+
+// \big, \Big, \bigg, \Bigg with an optional l (open), m (middle) or r (close) suffix
+const SIZED_DELIMITER = /^(big|Big|bigg|Bigg)([lmr]?)$/;
+
+const DELIMITER_SIZES: readonly DelimiterSize[] = ['big', 'Big', 'bigg', 'Bigg'];
+
+/**
+ * Number of \prime marks a superscript consists of (0 if it holds anything else)
+ */
+function primeCount(n: MathNode): number {
+  const children = n.kind === 'row' ? n.children : [n];
+  const onlyPrimes = children.every((c) => c.kind === 'symbol' && c.value === 'prime');
+  return onlyPrimes ? children.length : 0;
+}
+
+/**
+ * Whether a token is an escaped special such as \& or \$: a literal
+ * character, not the alignment point or delimiter it spells
+ */
+function isEscaped(token: Token): boolean {
+  return token.raw?.startsWith('\\') ?? false;
+}
+
+/**
+ * Whether a node is a plain run of digits, like the parts of 2\frac{3}{4}
+ */
+function isWholeNumber(n: MathNode): boolean {
+  return n.kind === 'number' && /^[0-9]+$/.test(n.value);
+}
+
+/**
+ * Add prime marks to a node, merging with marks it already has
+ */
+function addPrimes(base: MathNode, count: number): MathNode {
+  return base.kind === 'prime' ? node.prime(base.base, base.count + count) : node.prime(base, count);
+}
+
+/**
+ * Number of parameters a macro takes: the highest #n in its definition
+ */
+function macroArity(definition: string): number {
+  let arity = 0;
+  for (const match of definition.matchAll(/#([1-9])/g)) {
+    arity = Math.max(arity, Number(match[1]));
+  }
+  return arity;
+}
+
 // =============================================================================
 // Parser Class
 // =============================================================================
 
 export class Parser {
   private stream: TokenStream;
+  private options: ParseOptions;
+  private recover: boolean;
+  private diagnostics: ParseDiagnostic[] = [];
+  private stopStack: Set<string>[] = []; // Stop tokens of every row being parsed
+  private definedMacros = new Map<string, { definition: string; arity: number }>(); // From \newcommand
+  private expansions = 0;
+  private expandedSpans: SourceSpan[] = []; // Source replaced by macro expansions
+  private source: string;
 
-  constructor(tokens: Token[]) {
+  /**
+   * With `recover`, problems are collected as diagnostics instead of thrown.
+   * `source` is the LaTeX the tokens came from, needed for `preserveSource`.
+   */
+  constructor(tokens: Token[], options: ParseOptions = {}, recover = false, source = '') {
     this.stream = new TokenStream(tokens);
+    this.options = options;
+    this.recover = recover;
+    this.source = source;
+  }
+
+  /**
+   * Diagnostics collected so far (only populated when recovering)
+   */
+  getDiagnostics(): readonly ParseDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  /**
+   * Report a problem: throws in strict mode, records a diagnostic when recovering
+   */
+  private report(code: ParseDiagnosticCode, message: string, start: number, end: number = start): void {
+    const span = { start, end: Math.max(start, end) };
+    if (!this.recover) {
+      throw new LatexParseError(code, message, span);
+    }
+    this.diagnostics.push({ code, message, span });
+  }
+
+  /**
+   * Consume a token of the given type, reporting `code` if it is missing.
+   * `start` is where the construct needing the token began.
+   */
+  private expectToken(type: TokenType, code: ParseDiagnosticCode, start: number): boolean {
+    const token = this.stream.peek();
+    if (token.type === type) {
+      this.stream.next();
+      return true;
+    }
+    this.report(code, `Expected ${type}, got ${token.type} at position ${token.position}`, start, token.position);
+    return false;
+  }
+
+  /**
+   * Attach the source range from `start` to the end of the last consumed
+   * token, and with `preserveSource` the LaTeX in that range
+   */
+  private withSpan<T extends MathNode>(n: T, start: number): T {
+    if (!this.options.positions && !this.options.preserveSource) return n;
+    const end = Math.max(start, this.stream.getLastEnd());
+    let result = n;
+    if (this.options.positions) {
+      result = { ...result, span: { start, end } };
+    }
+    // Offsets inside an expansion point at the macro, so its text cannot be sliced out
+    const expanded = this.expandedSpans.some((s) => s.start < end && start < s.end);
+    if (this.options.preserveSource && end > start && !expanded) {
+      result = { ...result, source: this.source.slice(start, end) };
+    }
+    return result;
   }
 
   /**
@@ -95,7 +331,13 @@ export class Parser {
   parse(): MathNode {
     const result = this.parseRow();
     if (!this.stream.isEof()) {
-      throw new Error(`Unexpected token at position ${this.stream.getPosition()}`);
+      const token = this.stream.peek();
+      this.report(
+        'unexpected-token',
+        `Unexpected token at position ${token.position}`,
+        token.position,
+        tokenEnd(token)
+      );
     }
     return result;
   }
@@ -105,6 +347,10 @@ export class Parser {
    */
   private parseRow(stopTokens: Set<string> = new Set()): MathNode {
     const children: MathNode[] = [];
+    this.stream.skipWhitespace();
+    const start = this.stream.getPosition();
+    this.stopStack.push(stopTokens);
+    let lastStart = start; // Where the last child began
 
     while (!this.stream.isEof()) {
       this.stream.skipWhitespace();
@@ -112,34 +358,91 @@ export class Parser {
       const token = this.stream.peek();
 
       // Check for stop tokens
-      if (stopTokens.has(token.value) || stopTokens.has(token.type)) {
+      if (!isEscaped(token) && (stopTokens.has(token.value) || stopTokens.has(token.type))) {
         break;
       }
 
-      // Stop at closing braces/brackets
-      if (token.type === 'closeBrace' || token.type === 'closeBracket' || token.type === 'closeParen') {
+      // When recovering, a closer expected by an enclosing construct ends this row too
+      if (
+        this.recover && !isEscaped(token) &&
+        CLOSING_TOKENS.has(token.value) && this.stopStack.some((s) => s.has(token.value))
+      ) {
         break;
       }
 
-      // Stop at ampersand and newline (for matrices)
-      if (token.type === 'ampersand' || token.type === 'newline') {
+      // Closing braces/brackets, ampersand and newline (for matrices):
+      // stop here, or keep them as errors when nothing is waiting for them
+      if (
+        token.type === 'closeBrace' || token.type === 'closeBracket' || token.type === 'closeParen' ||
+        token.type === 'ampersand' || token.type === 'newline'
+      ) {
+        if (!this.recover) break;
+        children.push(this.parseStray());
+        continue;
+      }
+
+      // Infix \choose: everything so far is the top, the rest of the row the bottom
+      if (token.type === 'command' && token.value === '\\choose') {
+        const top = this.finishRow(children, start);
+        this.stream.next();
+        const bottom = this.parseRow(stopTokens);
+        children.splice(0, children.length, this.withSpan(node.binom(top, bottom), start));
         break;
       }
 
+      const atomStart = this.stream.getPosition();
       const atom = this.parseAtom();
       if (atom) {
-        children.push(atom);
+        const joined = children.length > 0 ? this.joinNumber(children[children.length - 1], atom, lastStart) : null;
+        if (joined) {
+          children[children.length - 1] = joined;
+        } else {
+          children.push(atom);
+          lastStart = atomStart;
+        }
       }
     }
 
+    this.stopStack.pop();
+    return this.finishRow(children, start);
+  }
+
+  /**
+   * Join a number with the atom after it: a whole number and a fraction of
+   * whole numbers make a mixed number (2\frac{3}{4}), a decimal and an
+   * overlined block of digits a repeating decimal (0.\overline{3}).
+   * `start` is where the number began.
+   */
+  private joinNumber(previous: MathNode, atom: MathNode, start: number): MathNode | null {
+    if (previous.kind !== 'number') return null;
+
+    if (
+      atom.kind === 'fraction' && !atom.style && isWholeNumber(previous) &&
+      isWholeNumber(atom.numerator) && isWholeNumber(atom.denominator)
+    ) {
+      return this.withSpan(node.mixedNumber(previous, atom.numerator, atom.denominator), start);
+    }
+
+    if (atom.kind === 'accent' && atom.accent === 'overline' && previous.value.includes('.') && isWholeNumber(atom.body)) {
+      return this.withSpan(node.repeatingDecimal(previous, atom.body), start);
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the node for a parsed row starting at `start`
+   */
+  private finishRow(children: MathNode[], start: number): MathNode {
     // Simplify: single child doesn't need a row wrapper
     if (children.length === 0) {
-      return node.placeholder();
+      // Empty slot: zero-width span at the current position
+      return this.withSpan(node.placeholder(), this.stream.getPosition());
     }
     if (children.length === 1) {
       return children[0];
     }
-    return node.row(children);
+    return this.withSpan(node.row([...children]), start);
   }
 
   /**
@@ -167,20 +470,38 @@ export class Parser {
         return this.parseDelimitedGroup();
       case 'superscript':
       case 'subscript':
+      case 'prime':
         // Handle orphan super/subscript (attach to previous or empty)
-        return this.parseScript(node.placeholder());
+        return this.parseScript(this.withSpan(node.placeholder(), token.position), token.position);
       default:
         return null;
     }
   }
 
+  /**
+   * Turn a closing token nobody is waiting for into an error node
+   */
+  private parseStray(): MathNode {
+    const token = this.stream.next();
+    const message = token.type === 'closeBrace'
+      ? `Unmatched } at position ${token.position}`
+      : `Unexpected ${token.value} at position ${token.position}`;
+    this.report(
+      token.type === 'closeBrace' ? 'unbalanced-brace' : 'unexpected-token',
+      message,
+      token.position,
+      tokenEnd(token)
+    );
+    return this.withSpan(node.error(token.raw ?? token.value, message), token.position);
+  }
+
   /**
    * Parse a number
    */
   private parseNumber(): MathNode {
     const token = this.stream.next();
-    const numNode = node.number(token.value);
-    return this.parseScript(numNode);
+    const numNode = this.withSpan(node.number(token.value), token.position);
+    return this.parseScript(numNode, token.position);
   }
 
   /**
@@ -188,8 +509,8 @@ export class Parser {
    */
   private parseSymbol(): MathNode {
     const token = this.stream.next();
-    const symNode = node.symbol(token.value);
-    return this.parseScript(symNode);
+    const symNode = this.withSpan(node.symbol(token.value), token.position);
+    return this.parseScript(symNode, token.position);
   }
 
   /**
@@ -197,84 +518,163 @@ export class Parser {
    */
   private parseOperator(): MathNode {
     const token = this.stream.next();
-    return node.operator(token.value);
+    return this.withSpan(node.operator(token.value), token.position);
   }
 
   /**
    * Parse a LaTeX command
    */
-  private parseCommand(): MathNode {
+  private parseCommand(): MathNode | null {
+    const mark = this.stream.getIndex();
     const token = this.stream.next();
     const cmd = token.value.slice(1); // Remove backslash
+    const start = token.position;
+
+    // Macro definitions and uses; expanded tokens are parsed by the caller
+    if (cmd === 'newcommand' || cmd === 'renewcommand') {
+      this.parseNewCommand(token.value, start);
+      return null;
+    }
+    const defined = this.definedMacros.get(token.value);
+    if (defined) {
+      this.expandMacro(defined.definition, defined.arity, start);
+      return null;
+    }
+    const macro = this.options.macros?.[token.value];
+    if (macro !== undefined) {
+      if (this.options.macroMode === 'expand') {
+        this.expandMacro(macro, macroArity(macro), start);
+        return null;
+      }
+      const args = this.readMacroArguments(macroArity(macro));
+      const macroNode = this.withSpan(node.macro(cmd, args), start);
+      return this.parseScript(macroNode, start);
+    }
 
     // Space commands
     if (token.value in SPACE_COMMANDS) {
-      return node.space(SPACE_COMMANDS[token.value]);
+      return this.withSpan(node.space(SPACE_COMMANDS[token.value]), start);
     }
 
     // Greek letters
     if (GREEK_LETTERS.has(cmd)) {
-      const symNode = node.symbol(cmd);
-      return this.parseScript(symNode);
+      const symNode = this.withSpan(node.symbol(cmd), start);
+      return this.parseScript(symNode, start);
     }
 
     // Operators
     if (OPERATORS.has(cmd)) {
-      return node.operator(cmd);
+      return this.withSpan(node.operator(cmd), start);
     }
 
-    // Functions (sin, cos, log, etc.)
-    if (FUNCTIONS.has(cmd)) {
-      return this.parseFunction(cmd);
+    // \lim and friends keep their scripts as limits, like large operators
+    if (LIMIT_FUNCTIONS.has(cmd)) {
+      return this.parseLargeOperator(cmd, start);
+    }
+
+    // Functions (sin, cos, log, etc.), including registered extra names
+    if (FUNCTIONS.has(cmd) || this.options.functions?.includes(cmd)) {
+      return this.parseFunction(cmd, start);
+    }
+
+    // \operatorname{name} and \operatorname*{name}
+    if (cmd === 'operatorname') {
+      return this.parseOperatorName(start);
     }
 
     // Large operators (sum, prod, int)
     if (LARGE_OPERATORS.has(cmd)) {
-      return this.parseLargeOperator(cmd);
+      return this.parseLargeOperator(cmd, start);
     }
 
-    // Fraction
-    if (cmd === 'frac') {
-      return this.parseFraction();
+    // Fraction (and \dfrac, \tfrac, \cfrac)
+    if (cmd === 'frac' || cmd === 'dfrac' || cmd === 'tfrac' || cmd === 'cfrac') {
+      return this.parseFraction(cmd, start);
+    }
+
+    // Binomial coefficient
+    if (cmd === 'binom' || cmd === 'dbinom' || cmd === 'tbinom') {
+      return this.parseBinom(cmd, start);
     }
 
     // Square root
     if (cmd === 'sqrt') {
-      return this.parseSqrt();
+      return this.parseSqrt(start, token.raw === '√');
+    }
+
+    // Accents (hat, bar, vec, overline, ...)
+    if (ACCENTS.has(cmd)) {
+      return this.parseAccent(cmd as AccentNode['accent'], start);
+    }
+
+    // Font styles (mathbb, mathcal, mathbf, ...)
+    if (FONTS.has(cmd)) {
+      return this.parseFont(cmd as FontNode['variant'], start);
+    }
+
+    // Colors (\color, \textcolor, \colorbox, \fcolorbox)
+    if (COLOR_COMMANDS.has(cmd)) {
+      return this.parseColor(cmd as ColorNode['command'], start);
+    }
+
+    // Stacked annotations (overset, underbrace, ...)
+    if (OVER_UNDER.has(cmd)) {
+      return this.parseOverUnder(cmd as OverUnderNode['command'], start);
+    }
+
+    if (NUMBER_SETS.has(cmd)) {
+      const setNode = this.withSpan(node.font('mathbb', this.withSpan(node.symbol(cmd), start)), start);
+      return this.parseScript(setNode, start);
     }
 
     // Text
-    if (cmd === 'text' || cmd === 'textit' || cmd === 'textbf' || cmd === 'mathrm') {
-      return this.parseText();
+    if (cmd === 'text' || cmd === 'textit' || cmd === 'textbf') {
+      return this.parseText(start);
     }
 
     // Left/right delimiters
     if (cmd === 'left') {
-      return this.parseLeftRight();
+      return this.parseLeftRight(start);
+    }
+
+    // Explicitly sized delimiters (\bigl( ... \bigr), \Big|, ...)
+    const sized = SIZED_DELIMITER.exec(cmd);
+    if (sized) {
+      return this.parseSizedDelimiters(sized[1] as DelimiterSize, sized[2], start);
     }
 
     // Begin environment (matrix, array, etc.)
     if (cmd === 'begin') {
-      return this.parseEnvironment();
+      return this.parseEnvironment(start, mark);
+    }
+
+    // \right or \end with nothing open
+    if (cmd === 'right') {
+      return this.parseStrayRight(start, mark);
+    }
+    if (cmd === 'end') {
+      return this.parseStrayEnd(start, mark);
     }
 
     // Delimiter commands
     if (cmd === 'langle' || cmd === 'rangle' || cmd === 'lvert' || cmd === 'rvert' ||
         cmd === 'lVert' || cmd === 'rVert' || cmd === 'lfloor' || cmd === 'rfloor' ||
         cmd === 'lceil' || cmd === 'rceil') {
-      return node.operator(cmd);
+      return this.withSpan(node.operator(cmd), start);
     }
 
     // Unknown command - treat as symbol
-    const symNode = node.symbol(cmd);
-    return this.parseScript(symNode);
+    const symNode = this.withSpan(node.symbol(cmd), start);
+    return this.parseScript(symNode, start);
   }
 
   /**
    * Parse superscript and/or subscript after a base
+   * `start` is where the base began in the source (for the script node's span)
    */
-  private parseScript(base: MathNode): MathNode {
+  private parseScript(base: MathNode, start: number): MathNode {
     this.stream.skipWhitespace();
+    base = this.parsePrimes(base, start);
 
     let hasSuper = false;
     let hasSub = false;
@@ -286,8 +686,15 @@ export class Parser {
       if (this.stream.is('superscript')) {
         if (hasSuper) break; // Already have superscript
         this.stream.next();
-        hasSuper = true;
-        superscript = this.parseScriptArg();
+        const arg = this.parseScriptArg();
+        // f^{\prime} is another way to write f'
+        const primes = hasSub ? 0 : primeCount(arg);
+        if (primes > 0) {
+          base = this.withSpan(addPrimes(base, primes), start);
+        } else {
+          hasSuper = true;
+          superscript = arg;
+        }
       } else if (this.stream.is('subscript')) {
         if (hasSub) break; // Already have subscript
         this.stream.next();
@@ -298,16 +705,30 @@ export class Parser {
     }
 
     if (hasSuper && hasSub) {
-      return node.subsup(base, subscript!, superscript!);
+      return this.withSpan(node.subsup(base, subscript!, superscript!), start);
     } else if (hasSuper) {
-      return node.power(base, superscript!);
+      return this.withSpan(node.power(base, superscript!), start);
     } else if (hasSub) {
-      return node.subscript(base, subscript!);
+      // Primes may also follow a subscript: f_1'
+      return this.parsePrimes(this.withSpan(node.subscript(base, subscript!), start), start);
     }
 
     return base;
   }
 
+  /**
+   * Attach any ' marks that follow to `base`
+   */
+  private parsePrimes(base: MathNode, start: number): MathNode {
+    let count = 0;
+    while (this.stream.is('prime')) {
+      this.stream.next();
+      count++;
+      this.stream.skipWhitespace();
+    }
+    return count > 0 ? this.withSpan(addPrimes(base, count), start) : base;
+  }
+
   /**
    * Parse argument for super/subscript (single char or braced group)
    */
@@ -322,24 +743,28 @@ export class Parser {
     const token = this.stream.peek();
     if (token.type === 'number') {
       this.stream.next();
-      return node.number(token.value);
+      return this.withSpan(node.number(token.value), token.position);
     } else if (token.type === 'text') {
       this.stream.next();
-      return node.symbol(token.value);
+      return this.withSpan(node.symbol(token.value), token.position);
     } else if (token.type === 'command') {
-      return this.parseCommand();
+      // A macro leaves its expansion in the stream to be read as the argument
+      return this.parseCommand() ?? this.parseScriptArg();
     }
 
-    return node.placeholder();
+    return this.withSpan(node.placeholder(), token.position);
   }
 
   /**
    * Parse a braced group { ... }
    */
   private parseGroup(): MathNode {
-    this.stream.expect('openBrace');
-    const content = this.parseRow();
-    this.stream.expect('closeBrace');
+    const start = this.stream.getPosition();
+    if (!this.expectToken('openBrace', 'unexpected-token', start)) {
+      return this.withSpan(node.placeholder(), start);
+    }
+    const content = this.parseRow(new Set(['}']));
+    this.expectToken('closeBrace', 'unbalanced-brace', start);
     return content;
   }
 
@@ -372,81 +797,323 @@ export class Parser {
 
     // Consume closing delimiter
     if (token.type === 'openParen') {
-      this.stream.expect('closeParen');
+      this.expectToken('closeParen', 'unbalanced-delimiter', token.position);
     } else if (token.type === 'openBracket') {
-      this.stream.expect('closeBracket');
+      this.expectToken('closeBracket', 'unbalanced-delimiter', token.position);
     } else if (token.type === 'pipe') {
-      this.stream.expect('pipe');
+      this.expectToken('pipe', 'unbalanced-delimiter', token.position);
     }
 
-    const parensNode = node.parens(content, open, close);
-    return this.parseScript(parensNode);
+    const parensNode = this.withSpan(node.parens(content, open, close), token.position);
+    return this.parseScript(parensNode, token.position);
   }
 
   /**
-   * Parse \frac{num}{den}
+   * Parse \frac{num}{den} (and \dfrac, \tfrac, \cfrac)
    */
-  private parseFraction(): MathNode {
+  private parseFraction(style: FractionNode['style'], start: number): MathNode {
     this.stream.skipWhitespace();
     const numerator = this.parseGroup();
     this.stream.skipWhitespace();
     const denominator = this.parseGroup();
-    const fracNode = node.fraction(numerator, denominator);
-    return this.parseScript(fracNode);
+    const fracNode = this.withSpan(node.fraction(numerator, denominator, style), start);
+    return this.parseScript(fracNode, start);
+  }
+
+  /**
+   * Parse \binom{n}{k} (and \dbinom, \tbinom)
+   */
+  private parseBinom(variant: BinomNode['variant'], start: number): MathNode {
+    this.stream.skipWhitespace();
+    const top = this.parseGroup();
+    this.stream.skipWhitespace();
+    const bottom = this.parseGroup();
+    const binomNode = this.withSpan(node.binom(top, bottom, variant), start);
+    return this.parseScript(binomNode, start);
   }
 
   /**
    * Parse \sqrt[n]{x} or \sqrt{x}
    */
-  private parseSqrt(): MathNode {
+  private parseSqrt(start: number, unicode = false): MathNode {
     this.stream.skipWhitespace();
 
     let index: MathNode | undefined;
 
     // Check for optional index [n]
     if (this.stream.is('openBracket')) {
-      this.stream.next();
+      const bracket = this.stream.next();
       index = this.parseRow(new Set([']']));
-      this.stream.expect('closeBracket');
+      this.expectToken('closeBracket', 'unbalanced-delimiter', bracket.position);
     }
 
+    // \sqrt2 and √x take a single token, like scripts; √(x+1) takes what the
+    // parentheses hold and √|x| the bars with their content
     this.stream.skipWhitespace();
-    const radicand = this.parseGroup();
+    const next = this.stream.peek().type;
+    let radicand: MathNode;
+    if (unicode && next === 'openParen') {
+      const paren = this.stream.next();
+      radicand = this.parseRow(new Set([')']));
+      this.expectToken('closeParen', 'unbalanced-delimiter', paren.position);
+    } else if (unicode && next === 'pipe') {
+      radicand = this.parseDelimitedGroup();
+    } else if (next === 'number' || next === 'text' || next === 'command') {
+      radicand = this.parseScriptArg();
+    } else {
+      radicand = this.parseGroup();
+    }
+
+    const sqrtNode = this.withSpan(node.sqrt(radicand, index), start);
+    return this.parseScript(sqrtNode, start);
+  }
 
-    const sqrtNode = node.sqrt(radicand, index);
-    return this.parseScript(sqrtNode);
+  /**
+   * Parse \hat{x} or \hat x (and other accents)
+   */
+  private parseAccent(accent: AccentNode['accent'], start: number): MathNode {
+    const body = this.parseScriptArg();
+    const accentNode = this.withSpan(node.accent(accent, body), start);
+    return this.parseScript(accentNode, start);
+  }
+
+  /**
+   * Parse \mathbb{R} or \mathbb R (and other font styles)
+   */
+  private parseFont(variant: FontNode['variant'], start: number): MathNode {
+    const body = this.parseScriptArg();
+    const fontNode = this.withSpan(node.font(variant, body), start);
+    return this.parseScript(fontNode, start);
+  }
+
+  /**
+   * Parse \overset{a}{b}, \underset{a}{b}, \stackrel{a}{b},
+   * \overbrace{x}^{a} and \underbrace{x}_{a}
+   */
+  private parseOverUnder(command: OverUnderNode['command'], start: number): MathNode {
+    let result: MathNode;
+
+    if (command === 'overbrace' || command === 'underbrace') {
+      const body = this.parseScriptArg();
+      // The brace label is written as a super/subscript
+      this.stream.skipWhitespace();
+      const labelToken = command === 'overbrace' ? 'superscript' : 'subscript';
+      let label: MathNode | undefined;
+      if (this.stream.is(labelToken)) {
+        this.stream.next();
+        label = this.parseScriptArg();
+      }
+      result = command === 'overbrace'
+        ? node.overunder(command, body, label)
+        : node.overunder(command, body, undefined, label);
+    } else {
+      const annotation = this.parseScriptArg();
+      const body = this.parseScriptArg();
+      result = command === 'underset'
+        ? node.overunder(command, body, undefined, annotation)
+        : node.overunder(command, body, annotation);
+    }
+
+    const overUnderNode = this.withSpan(result, start);
+    return this.parseScript(overUnderNode, start);
+  }
+
+  /**
+   * Parse \textcolor{c}{x}, \color{c} x, \colorbox{c}{...} and \fcolorbox{f}{c}{...}.
+   * \color applies to the rest of the enclosing group, so that becomes its body.
+   */
+  private parseColor(command: ColorNode['command'], start: number): MathNode {
+    const frameColor = command === 'fcolorbox' ? this.readColorName(start) : undefined;
+    const color = this.readColorName(start);
+
+    let body: MathNode;
+    switch (command) {
+      case 'color':
+        body = this.parseRow(this.stopStack[this.stopStack.length - 1]);
+        break;
+      case 'textcolor':
+        this.stream.skipWhitespace();
+        body = this.parseGroup();
+        break;
+      default:
+        body = this.parseBoxContent(start);
+        break;
+    }
+
+    const colorNode = this.withSpan(node.color(command, color, body, frameColor), start);
+    return command === 'color' ? colorNode : this.parseScript(colorNode, start);
+  }
+
+  /**
+   * Read a color argument, dropping the spaces a name cannot contain
+   */
+  private readColorName(start: number): string {
+    return this.readBracedName(start).replace(/\s+/g, '');
+  }
+
+  /**
+   * Parse the text-mode argument of a box: {$math$} gives math, anything else text
+   */
+  private parseBoxContent(start: number): MathNode {
+    this.stream.skipWhitespace();
+    if (!this.expectToken('openBrace', 'unexpected-token', start)) {
+      return this.withSpan(node.placeholder(), start);
+    }
+
+    let content: MathNode;
+    this.stream.skipWhitespace();
+    if (this.stream.isValue('text', '$') && !isEscaped(this.stream.peek())) {
+      this.stream.next();
+      content = this.parseRow(new Set(['$']));
+      this.expectToken('text', 'unbalanced-delimiter', start);
+      this.stream.skipWhitespace();
+    } else {
+      const textStart = this.stream.getPosition();
+      let text = '';
+      while (!this.atTextEnd()) {
+        const token = this.stream.next();
+        text += token.raw ?? token.value;
+      }
+      content = this.withSpan(node.text(text), textStart);
+    }
+
+    this.expectToken('closeBrace', 'unbalanced-brace', start);
+    return content;
+  }
+
+  /**
+   * Parse \newcommand{\name}[n]{body} (or \newcommand\name{body}) and
+   * remember the definition for the rest of the input
+   */
+  private parseNewCommand(command: string, start: number): void {
+    this.stream.skipWhitespace();
+    const braced = this.stream.tryConsume('openBrace') !== null;
+    this.stream.skipWhitespace();
+    const nameToken = this.stream.peek();
+    if (nameToken.type !== 'command') {
+      this.report('invalid-macro', `Expected a command name after ${command} at position ${start}`, start, nameToken.position);
+      return;
+    }
+    this.stream.next();
+    if (braced) {
+      this.stream.skipWhitespace();
+      this.expectToken('closeBrace', 'unbalanced-brace', start);
+    }
+
+    // Optional parameter count: [n]
+    let arity: number | undefined;
+    this.stream.skipWhitespace();
+    if (this.stream.tryConsume('openBracket')) {
+      let count = '';
+      while (!this.stream.is('closeBracket') && !this.stream.isEof()) {
+        count += this.stream.next().value;
+      }
+      this.expectToken('closeBracket', 'unbalanced-delimiter', start);
+      arity = parseInt(count, 10) || 0;
+    }
+
+    const [definition] = this.readMacroArguments(1);
+    this.definedMacros.set(nameToken.value, { definition, arity: arity ?? macroArity(definition) });
+  }
+
+  /**
+   * Replace a macro use by its definition with the arguments filled in.
+   * Expanded tokens all point at the macro that produced them.
+   */
+  private expandMacro(definition: string, arity: number, start: number): void {
+    if (++this.expansions > MAX_MACRO_EXPANSIONS) {
+      this.report('invalid-macro', `Macro expansion does not terminate at position ${start}`, start, this.stream.getLastEnd());
+      return;
+    }
+    const args = this.readMacroArguments(arity);
+    this.expandedSpans.push({ start, end: Math.max(start + 1, this.stream.getLastEnd()) });
+    const source = definition.replace(/#([1-9])/g, (_, n: string) => args[Number(n) - 1] ?? '');
+    const tokens = tokenize(source)
+      .filter((t) => t.type !== 'eof')
+      .map((t) => ({ ...t, position: start }));
+    this.stream.insert(tokens);
+  }
+
+  /**
+   * Read the raw source of `count` macro arguments: braced groups or single tokens
+   */
+  private readMacroArguments(count: number): string[] {
+    const args: string[] = [];
+    for (let i = 0; i < count; i++) {
+      this.stream.skipWhitespace();
+      if (!this.stream.is('openBrace')) {
+        args.push(this.stream.isEof() ? '' : this.stream.next().value);
+        continue;
+      }
+      const open = this.stream.next();
+      const mark = this.stream.getIndex();
+      let depth = 0;
+      while (!this.stream.isEof() && !(depth === 0 && this.stream.is('closeBrace'))) {
+        const token = this.stream.next();
+        if (token.type === 'openBrace') depth++;
+        if (token.type === 'closeBrace') depth--;
+      }
+      args.push(this.stream.sourceSince(mark));
+      this.expectToken('closeBrace', 'unbalanced-brace', open.position);
+    }
+    return args;
+  }
+
+  /**
+   * Whether a text-mode argument ends here. The braces around the script of
+   * x² take no source, so they are part of the text.
+   */
+  private atTextEnd(): boolean {
+    return this.stream.isEof() || (this.stream.is('closeBrace') && this.stream.peek().raw !== '');
   }
 
   /**
    * Parse \text{...}
    */
-  private parseText(): MathNode {
+  private parseText(start: number): MathNode {
     this.stream.skipWhitespace();
-    this.stream.expect('openBrace');
+    if (!this.expectToken('openBrace', 'unexpected-token', start)) {
+      return this.withSpan(node.text(''), start);
+    }
 
-    // Collect all tokens as text until closing brace
+    // Collect all tokens as text until closing brace, as written: \& stays
+    // escaped and α stays a character rather than becoming \alpha
     let text = '';
-    while (!this.stream.is('closeBrace') && !this.stream.isEof()) {
+    while (!this.atTextEnd()) {
       const token = this.stream.next();
-      text += token.value;
+      text += token.raw ?? token.value;
     }
 
-    this.stream.expect('closeBrace');
-    return node.text(text);
+    this.expectToken('closeBrace', 'unbalanced-brace', start);
+    return this.withSpan(node.text(text), start);
   }
 
   /**
    * Parse named function like \sin, \cos, \log
    */
-  private parseFunction(name: string): MathNode {
-    const funcNode = node.function(name);
-    return this.parseScript(funcNode);
+  private parseFunction(name: string, start: number): MathNode {
+    const funcNode = this.withSpan(node.function(name), start);
+    return this.parseScript(funcNode, start);
+  }
+
+  /**
+   * Parse \operatorname{name}; the starred form places limits above and below
+   */
+  private parseOperatorName(start: number): MathNode {
+    const starred = this.stream.isValue('operator', '*');
+    if (starred) {
+      this.stream.next();
+    }
+    // Spaces are not significant in math mode
+    const name = this.readBracedName(start).replace(/\s+/g, '');
+    const funcNode = this.withSpan(node.function(name, undefined, undefined, starred), start);
+    return this.parseScript(funcNode, start);
   }
 
   /**
    * Parse large operators like \sum, \int with limits
    */
-  private parseLargeOperator(name: string): MathNode {
+  private parseLargeOperator(name: string, start: number): MathNode {
     this.stream.skipWhitespace();
 
     let lower: MathNode | undefined;
@@ -473,117 +1140,338 @@ export class Parser {
     }
 
     const limits = lower || upper ? { lower, upper } : undefined;
-    return node.function(name, undefined, limits);
+    return this.withSpan(node.function(name, undefined, limits), start);
   }
 
   /**
    * Parse \left...\right delimiters
    */
-  private parseLeftRight(): MathNode {
+  private parseLeftRight(start: number): MathNode {
     const openDelim = this.parseDelimiter();
     const content = this.parseRow(new Set(['\\right']));
 
-    // Expect \right
-    this.stream.expectValue('command', '\\right');
+    // Expect \right; without one, close with the partner of the opening delimiter
+    let closeDelim: Delimiter;
+    if (this.stream.isValue('command', '\\right')) {
+      this.stream.next();
+      closeDelim = this.parseDelimiter();
+    } else {
+      const token = this.stream.peek();
+      this.report(
+        'missing-right',
+        `Expected command:\\right, got ${token.type}:${token.value} at position ${token.position}`,
+        start,
+        token.position
+      );
+      closeDelim = MATCHING_DELIMITERS[openDelim] ?? '.';
+    }
+
+    const parensNode = this.withSpan(
+      node.parens(content, openDelim, closeDelim, 'auto'),
+      start
+    );
+    return this.parseScript(parensNode, start);
+  }
+
+  /**
+   * Parse \bigl( ... \bigr) and its \Big, \bigg, \Bigg variants into sized
+   * parens. \bigl, or a plain \big before an opening delimiter, pairs with
+   * the next \big...r or plain \big of its size in the same row. A closing or middle delimiter on
+   * its own (as in \Big|_0^1 or P(A \big| B)) becomes parens with an
+   * invisible opener. Sizing commands are kept as written unless they are
+   * \big...l and \big...r of one size.
+   */
+  private parseSizedDelimiters(size: DelimiterSize, role: string, start: number): MathNode {
+    const command = `${size}${role}` as SizingCommand;
+    const delim = this.parseDelimiter();
+    this.stream.skipWhitespace();
+
+    const stops = new Set([...DELIMITER_SIZES.map((s) => `\\${s}r`), `\\${size}`]);
+
+    const standalone =
+      role === 'r' ||
+      role === 'm' ||
+      (role === '' &&
+        (!LEFT_DELIMITERS.has(delim) ||
+          this.stream.is('superscript') ||
+          this.stream.is('subscript') ||
+          !this.hasSizedCloser(stops)));
+    if (standalone) {
+      const parensNode = this.withSpan(node.parens(node.row([]), '.', delim, size, [null, command]), start);
+      return this.parseScript(parensNode, start);
+    }
+
+    const content = this.parseRow(stops);
+
+    // An unclosed pair keeps an invisible closing delimiter
+    if (!(this.stream.is('command') && stops.has(this.stream.peek().value))) {
+      if (role === 'l') {
+        const token = this.stream.peek();
+        this.report(
+          'unbalanced-delimiter',
+          `Expected a closing sizing command for \\${command}, got ${token.type}:${token.value} at position ${token.position}`,
+          start,
+          token.position
+        );
+      }
+      // Nothing followed, so the delimiter stands alone as in \Big[
+      const parensNode =
+        content.kind === 'placeholder'
+          ? node.parens(node.row([]), '.', delim, size, [null, command])
+          : node.parens(content, delim, '.', size, [command, null]);
+      return this.parseScript(this.withSpan(parensNode, start), start);
+    }
+
+    const closeCommand = this.stream.next().value.slice(1) as SizingCommand;
     const closeDelim = this.parseDelimiter();
+    const paired = role === 'l' && closeCommand === `${size}r`;
+    const sizing: ParensNode['sizing'] = paired ? undefined : [command, closeCommand];
 
-    const parensNode = node.parens(content, openDelim as ParensNode['open'], closeDelim as ParensNode['close'], 'auto');
-    return this.parseScript(parensNode);
+    const parensNode = this.withSpan(node.parens(content, delim, closeDelim, size, sizing), start);
+    return this.parseScript(parensNode, start);
   }
 
   /**
-   * Parse a delimiter after \left or \right
+   * Whether one of the stop commands comes later in the current row, outside
+   * any group, so a plain \big opens a pair rather than standing alone
    */
-  private parseDelimiter(): string {
+  private hasSizedCloser(stops: ReadonlySet<string>): boolean {
+    const closers: string[] = [];
+    for (let i = 0; ; i++) {
+      const token = this.stream.peekAt(i);
+      if (token.type === 'eof') return false;
+      if (isEscaped(token)) continue;
+
+      if (closers.length === 0 && token.type === 'command' && stops.has(token.value)) return true;
+
+      if (token.value in GROUP_CLOSERS) {
+        closers.push(GROUP_CLOSERS[token.value]);
+      } else if (token.type === 'pipe') {
+        if (closers[closers.length - 1] === '|') closers.pop();
+        else closers.push('|');
+      } else if (CLOSING_TOKENS.has(token.value)) {
+        // A closer of an enclosing group, a cell or a line ends the row
+        if (closers.length === 0) return false;
+        if (closers[closers.length - 1] === token.value) closers.pop();
+      }
+    }
+  }
+
+  /**
+   * Parse a delimiter after \left, \right or a sizing command
+   */
+  private parseDelimiter(): Delimiter {
     this.stream.skipWhitespace();
-    const token = this.stream.next();
+    const token = this.stream.peek();
+    const delim = this.delimiterValue(token);
 
+    if (delim !== null) {
+      this.stream.next();
+      return delim;
+    }
+
+    // Leave the token for the row; an invisible delimiter takes its place
+    this.report('invalid-delimiter', `Invalid delimiter: ${token.value}`, token.position, tokenEnd(token));
+    return '.';
+  }
+
+  /**
+   * Map a token to the delimiter it denotes, or null if it is not one
+   */
+  private delimiterValue(token: Token): Delimiter | null {
     if (token.type === 'openParen') return '(';
     if (token.type === 'closeParen') return ')';
     if (token.type === 'openBracket') return '[';
     if (token.type === 'closeBracket') return ']';
     if (token.type === 'pipe') return '|';
     if (token.type === 'operator' && token.value === '.') return '.'; // Invisible delimiter
+    if (token.type === 'operator' && token.value === '/') return '/';
+    if (token.type === 'operator' && token.value === '<') return '\\langle';
+    if (token.type === 'operator' && token.value === '>') return '\\rangle';
 
     if (token.type === 'command') {
       const cmd = token.value.slice(1);
-      if (cmd === 'langle') return '\\langle';
-      if (cmd === 'rangle') return '\\rangle';
+      if (COMMAND_DELIMITERS.has(cmd)) return `\\${cmd}` as Delimiter;
+      if (cmd === 'lbrack') return '[';
+      if (cmd === 'rbrack') return ']';
       if (cmd === '{' || cmd === 'lbrace') return '{';
       if (cmd === '}' || cmd === 'rbrace') return '}';
-      if (cmd === '|' || cmd === 'vert') return '|';
-      if (cmd === 'Vert' || cmd === '|') return '\\|';
+      if (cmd === 'vert' || cmd === 'lvert' || cmd === 'rvert') return '|';
+      if (cmd === '|' || cmd === 'Vert' || cmd === 'lVert' || cmd === 'rVert') return '\\|';
     }
 
-    throw new Error(`Invalid delimiter: ${token.value}`);
+    return null;
   }
 
   /**
-   * Parse \begin{env}...\end{env}
+   * Parse \right without a matching \left into an error node
    */
-  private parseEnvironment(): MathNode {
+  private parseStrayRight(start: number, mark: number): MathNode {
+    const message = `Unexpected \\right without \\left at position ${start}`;
+    this.report('stray-right', message, start, this.stream.getLastEnd());
+
+    // Swallow its delimiter too, so "\right)" becomes one error
     this.stream.skipWhitespace();
-    this.stream.expect('openBrace');
+    if (this.delimiterValue(this.stream.peek()) !== null) {
+      this.stream.next();
+    }
+
+    return this.withSpan(node.error(this.stream.sourceSince(mark).trimEnd(), message), start);
+  }
+
+  /**
+   * Parse \end{name} without a matching \begin into an error node
+   */
+  private parseStrayEnd(start: number, mark: number): MathNode {
+    const name = this.readBracedName(start);
+    const message = `Unexpected \\end{${name}} at position ${start}`;
+    this.report('unexpected-token', message, start, this.stream.getLastEnd());
+    return this.withSpan(node.error(this.stream.sourceSince(mark).trimEnd(), message), start);
+  }
 
-    // Read environment name
-    let envName = '';
+  /**
+   * Read the raw text of a braced argument such as an environment name
+   */
+  private readBracedName(start: number): string {
+    this.stream.skipWhitespace();
+    if (!this.expectToken('openBrace', 'unexpected-token', start)) {
+      return '';
+    }
+    let name = '';
     while (!this.stream.is('closeBrace') && !this.stream.isEof()) {
-      envName += this.stream.next().value;
+      name += this.stream.next().value;
     }
-    this.stream.expect('closeBrace');
+    this.expectToken('closeBrace', 'unbalanced-brace', start);
+    return name;
+  }
+
+  /**
+   * Parse \begin{env}...\end{env}
+   */
+  private parseEnvironment(start: number, mark: number): MathNode {
+    const envName = this.readBracedName(start);
 
     if (MATRIX_ENVIRONMENTS.has(envName)) {
-      return this.parseMatrix(envName as MatrixNode['style']);
+      return this.parseMatrix(envName as MatrixNode['style'], start);
+    }
+
+    if (CASES_ENVIRONMENTS.has(envName)) {
+      return this.parseCases(envName as CasesNode['style'], start);
     }
 
-    throw new Error(`Unknown environment: ${envName}`);
+    if (ALIGNED_ENVIRONMENTS.has(envName)) {
+      return this.parseAligned(envName as AlignedNode['style'], start);
+    }
+
+    // Keep the whole environment verbatim as a single error node
+    const message = `Unknown environment: ${envName}`;
+    this.report('unknown-environment', message, start, this.stream.getLastEnd());
+    this.skipEnvironmentBody(envName, start);
+    return this.withSpan(node.error(this.stream.sourceSince(mark).trimEnd(), message), start);
+  }
+
+  /**
+   * Skip tokens up to and including the \end matching an already-read \begin
+   */
+  private skipEnvironmentBody(envName: string, start: number): void {
+    let depth = 0;
+    while (!this.stream.isEof()) {
+      const token = this.stream.next();
+      if (token.type !== 'command') continue;
+      if (token.value === '\\begin') {
+        depth++;
+      } else if (token.value === '\\end') {
+        if (depth === 0) {
+          this.readBracedName(token.position);
+          return;
+        }
+        depth--;
+      }
+    }
+    this.report('missing-end', `Missing \\end{${envName}}`, start, this.stream.getLastEnd());
   }
 
   /**
    * Parse matrix environment
    */
-  private parseMatrix(style: MatrixNode['style']): MathNode {
+  private parseMatrix(style: MatrixNode['style'], start: number): MathNode {
     let colSpec: string | undefined;
 
     // For 'array', parse column specification
     if (style === 'array') {
-      this.stream.skipWhitespace();
-      this.stream.expect('openBrace');
-      colSpec = '';
-      while (!this.stream.is('closeBrace') && !this.stream.isEof()) {
-        colSpec += this.stream.next().value;
-      }
-      this.stream.expect('closeBrace');
+      colSpec = this.readBracedName(start);
     }
 
+    const rows = this.parseEnvironmentRows(style, start);
+    const matrixNode = this.withSpan(node.matrix(rows, style, colSpec), start);
+    return this.parseScript(matrixNode, start);
+  }
+
+  /**
+   * Parse cases environment: each row is a value and an optional condition
+   */
+  private parseCases(style: CasesNode['style'], start: number): MathNode {
+    const rows = this.parseEnvironmentRows(style, start, 2).map(([value, condition]) =>
+      [value ?? node.placeholder(), condition ?? node.placeholder()] as const
+    );
+    const casesNode = this.withSpan(node.cases(rows, style), start);
+    return this.parseScript(casesNode, start);
+  }
+
+  /**
+   * Parse aligned-style environments: lines of cells split at & (gathered has one cell per line)
+   */
+  private parseAligned(style: AlignedNode['style'], start: number): MathNode {
+    const rows = this.parseEnvironmentRows(style, start, style === 'gathered' ? 1 : undefined);
+    const alignedNode = this.withSpan(node.aligned(rows, style), start);
+    return this.parseScript(alignedNode, start);
+  }
+
+  /**
+   * Parse `&`/`\\` separated cells up to and including \end{envName}.
+   * With `maxColumns`, an extra `&` in a row is reported.
+   */
+  private parseEnvironmentRows(envName: string, start: number, maxColumns?: number): MathNode[][] {
     const rows: MathNode[][] = [];
     let currentRow: MathNode[] = [];
 
     while (!this.stream.isEof()) {
       this.stream.skipWhitespace();
 
-      // Check for \end
-      if (this.stream.isValue('command', '\\end')) {
+      // \end at the start of a row closes the environment (a trailing \\ adds no row)
+      if (currentRow.length === 0 && this.stream.isValue('command', '\\end')) {
         break;
       }
 
-      // Check for row separator \\
-      if (this.stream.is('newline')) {
-        this.stream.next();
-        rows.push(currentRow);
-        currentRow = [];
+      // Parse cell content; an empty cell (e.g. before a leading &) is a placeholder
+      const cell = this.parseRow(new Set(['&', '\\\\', '\\end']));
+      currentRow.push(cell);
+      this.stream.skipWhitespace();
+
+      // Column separator &
+      if (this.stream.is('ampersand')) {
+        const amp = this.stream.next();
+        if (maxColumns !== undefined && currentRow.length >= maxColumns) {
+          this.report(
+            'unexpected-token',
+            `Too many columns in ${envName} at position ${amp.position}`,
+            amp.position,
+            this.stream.getLastEnd()
+          );
+        }
         continue;
       }
 
-      // Check for column separator &
-      if (this.stream.is('ampersand')) {
+      // Row separator \\
+      if (this.stream.is('newline')) {
         this.stream.next();
+        rows.push(currentRow);
+        currentRow = [];
         continue;
       }
 
-      // Parse cell content
-      const cell = this.parseRow(new Set(['&', '\\\\', '\\end']));
-      currentRow.push(cell);
+      // \end, or anything else, which closes an enclosing construct
+      break;
     }
 
     // Push last row if non-empty
@@ -592,21 +1480,24 @@ export class Parser {
     }
 
     // Consume \end{envName} and validate it matches
-    this.stream.expectValue('command', '\\end');
-    this.stream.skipWhitespace();
-    this.stream.expect('openBrace');
-    let endEnvName = '';
-    while (!this.stream.is('closeBrace') && !this.stream.isEof()) {
-      endEnvName += this.stream.next().value;
-    }
-    this.stream.expect('closeBrace');
-
-    if (endEnvName !== style) {
-      throw new Error(`Environment mismatch: \\begin{${style}} ended with \\end{${endEnvName}}`);
+    if (this.stream.isValue('command', '\\end')) {
+      const endToken = this.stream.next();
+      const endEnvName = this.readBracedName(endToken.position);
+      if (endEnvName !== envName) {
+        this.report(
+          'environment-mismatch',
+          `Environment mismatch: \\begin{${envName}} ended with \\end{${endEnvName}}`,
+          endToken.position,
+          this.stream.getLastEnd()
+        );
+      }
+    } else {
+      const token = this.stream.peek();
+      this.report('missing-end', `Expected \\end{${envName}} at position ${token.position}`, start, token.position);
     }
 
-    const matrixNode = node.matrix(rows, style, colSpec);
-    return this.parseScript(matrixNode);
+    // Extra cells were reported above; drop them
+    return maxColumns === undefined ? rows : rows.map((row) => row.slice(0, maxColumns));
   }
 }
 
@@ -616,9 +1507,37 @@ export class Parser {
 
 /**
  * Parse a LaTeX string into an AST
+ *
+ * With `{ positions: true }` every node carries a `span` with the
+ * [start, end) offsets of the LaTeX it was parsed from, so
+ * `latex.slice(span.start, span.end)` recovers the exact substring.
  */
-export function parseLatex(latex: string): MathNode {
+export function parseLatex(latex: string, options: ParseOptions = {}): MathNode {
   const tokens = tokenize(latex);
-  const parser = new Parser(tokens);
+  const parser = new Parser(tokens, options, false, latex);
   return parser.parse();
 }
+
+/**
+ * Parse a LaTeX string without giving up on errors
+ *
+ * Recovers from unbalanced braces, unknown environments, stray \right and
+ * similar problems. The returned AST keeps everything that parsed; broken
+ * parts become `error` nodes holding their raw source, and each problem is
+ * listed in `diagnostics` with a code, message and source span.
+ */
+export function parseLatexWithDiagnostics(latex: string, options: ParseOptions = {}): ParseResult {
+  const parser = new Parser(tokenize(latex), options, true, latex);
+  try {
+    const ast = parser.parse();
+    return { ast, diagnostics: parser.getDiagnostics() };
+  } catch (e) {
+    // Last resort: keep the input verbatim rather than lose it
+    const message = e instanceof Error ? e.message : String(e);
+    const span = { start: 0, end: latex.length };
+    return {
+      ast: node.error(latex, message),
+      diagnostics: [...parser.getDiagnostics(), { code: 'unexpected-token', message, span }],
+    };
+  }
+}
@@ -0,0 +1,1024 @@
+/**
+ * MathJSON Conversion
+ *
+ * Converts between our AST and the canonical form of CortexJS MathJSON
+ * (["Add", "x", 1], ["Divide", 1, 2], ...), the format symbolic tools
+ * exchange. Our rows are flat sequences as typed, so toMathJSON runs an
+ * operator-precedence pass over them; fromMathJSON writes the parentheses
+ * that precedence needs back in.
+ *
+ * Presentation-only detail (colors, spacing, delimiter sizes) has no
+ * MathJSON form and is dropped.
+ */
+
+import { MathNode, Delimiter, FunctionNode, MatrixNode, AccentNode, FontNode, node } from '../core/ast';
+import { parseLatex, LatexParseError } from './latex-to-ast';
+import { serializeToLatex } from './ast-to-latex';
+import { FUNCTIONS, LARGE_OPERATORS, LIMIT_FUNCTIONS } from './functions';
+import { COMMAND_CHARACTERS, DELIMITER_CHARACTERS } from './symbols';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A MathJSON expression: a number, a symbol name, a 'string' in quotes,
+ * a function expression ["Head", ...arguments], or one of the object forms
+ */
+export type MathJSON =
+  | number
+  | string
+  | readonly MathJSON[]
+  | { readonly num: string }
+  | { readonly str: string }
+  | { readonly sym: string }
+  | { readonly fn: readonly MathJSON[] };
+
+/**
+ * Thrown by fromMathJSON on a value that is not MathJSON
+ */
+export class MathJSONError extends Error {
+  readonly value: unknown;
+
+  constructor(message: string, value: unknown) {
+    super(message);
+    this.name = 'MathJSONError';
+    this.value = value;
+  }
+}
+
+export type MathJSONDiagnosticCode = 'unknown-head'; // Head with no notation, written as \operatorname{Head}(...)
+
+export interface MathJSONDiagnostic {
+  readonly code: MathJSONDiagnosticCode;
+  readonly message: string;
+  readonly value: MathJSON; // The expression with the problem
+}
+
+export interface MathJSONResult {
+  readonly ast: MathNode;
+  readonly diagnostics: readonly MathJSONDiagnostic[];
+}
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+interface Infix {
+  readonly head: string;
+  readonly precedence: number;
+}
+
+const SEQUENCE = 0;
+const LOGIC = 10;
+const RELATION = 20;
+const ADDITION = 30;
+const NEGATION = 35;
+const MULTIPLICATION = 40;
+const POSTFIX = 70;
+const ATOM = 100;
+
+// Infix operators by operator value; the first spelling of a head is the one fromMathJSON writes
+const INFIX: Readonly<Record<string, Infix>> = {
+  ',': { head: 'Sequence', precedence: SEQUENCE },
+  implies: { head: 'Implies', precedence: LOGIC },
+  Rightarrow: { head: 'Implies', precedence: LOGIC },
+  iff: { head: 'Equivalent', precedence: LOGIC },
+  Leftrightarrow: { head: 'Equivalent', precedence: LOGIC },
+  land: { head: 'And', precedence: LOGIC },
+  lor: { head: 'Or', precedence: LOGIC },
+  '=': { head: 'Equal', precedence: RELATION },
+  neq: { head: 'NotEqual', precedence: RELATION },
+  ne: { head: 'NotEqual', precedence: RELATION },
+  '<': { head: 'Less', precedence: RELATION },
+  '>': { head: 'Greater', precedence: RELATION },
+  leq: { head: 'LessEqual', precedence: RELATION },
+  le: { head: 'LessEqual', precedence: RELATION },
+  geq: { head: 'GreaterEqual', precedence: RELATION },
+  ge: { head: 'GreaterEqual', precedence: RELATION },
+  approx: { head: 'Approx', precedence: RELATION },
+  equiv: { head: 'Congruent', precedence: RELATION },
+  sim: { head: 'Similar', precedence: RELATION },
+  propto: { head: 'Proportional', precedence: RELATION },
+  in: { head: 'Element', precedence: RELATION },
+  notin: { head: 'NotElement', precedence: RELATION },
+  subset: { head: 'Subset', precedence: RELATION },
+  subseteq: { head: 'SubsetEqual', precedence: RELATION },
+  supset: { head: 'Superset', precedence: RELATION },
+  supseteq: { head: 'SupersetEqual', precedence: RELATION },
+  to: { head: 'To', precedence: RELATION },
+  rightarrow: { head: 'To', precedence: RELATION },
+  '+': { head: 'Add', precedence: ADDITION },
+  '-': { head: 'Subtract', precedence: ADDITION },
+  pm: { head: 'PlusMinus', precedence: ADDITION },
+  mp: { head: 'MinusPlus', precedence: ADDITION },
+  cup: { head: 'Union', precedence: ADDITION },
+  cap: { head: 'Intersection', precedence: ADDITION },
+  setminus: { head: 'SetMinus', precedence: ADDITION },
+  cdot: { head: 'Multiply', precedence: MULTIPLICATION },
+  times: { head: 'Multiply', precedence: MULTIPLICATION },
+  '*': { head: 'Multiply', precedence: MULTIPLICATION },
+  ast: { head: 'Multiply', precedence: MULTIPLICATION },
+  '/': { head: 'Divide', precedence: MULTIPLICATION },
+  div: { head: 'Divide', precedence: MULTIPLICATION },
+};
+
+const RELATIONS = new Set(Object.values(INFIX).filter((infix) => infix.precedence === RELATION).map((infix) => infix.head));
+
+// Heads whose arguments chain: a + b + c is ["Add", a, b, c]
+const VARIADIC = new Set(['Sequence', 'And', 'Or', 'Add', 'Multiply', 'Union', 'Intersection']);
+
+// Operators standing for a value: \infty, \emptyset, ...
+const OPERATOR_SYMBOLS: Readonly<Record<string, string>> = {
+  infty: 'PositiveInfinity',
+  emptyset: 'EmptySet',
+  varnothing: 'EmptySet',
+  partial: 'PartialDerivative',
+  nabla: 'Nabla',
+  ldots: 'Ellipsis',
+  cdots: 'Ellipsis',
+};
+
+// Greek letter names: the symbols among the command characters
+const GREEK_LETTERS = new Set(Object.keys(COMMAND_CHARACTERS).filter((name) => /^[\u0370-\u03ff]$/.test(COMMAND_CHARACTERS[name])));
+
+// Named constants and sets; everything else keeps its own name
+const SYMBOL_NAMES: Readonly<Record<string, string>> = {
+  pi: 'Pi',
+  e: 'ExponentialE',
+  i: 'ImaginaryUnit',
+};
+
+// Letters that name functions: f(x) is ["f", "x"], but x(y+1) a product
+const FUNCTION_LETTERS = new Set(['f', 'g', 'h']);
+
+const NUMBER_SETS: Readonly<Record<string, string>> = {
+  R: 'RealNumbers',
+  N: 'NonNegativeIntegers',
+  Z: 'Integers',
+  Q: 'RationalNumbers',
+  C: 'ComplexNumbers',
+};
+
+// Symbol name modifiers for fonts: \mathbf{v} is "v_bold"
+const FONT_MODIFIERS: Readonly<Record<FontNode['variant'], string>> = {
+  mathbf: 'bold',
+  mathbb: 'doublestruck',
+  mathcal: 'calligraphic',
+  mathscr: 'script',
+  mathfrak: 'fraktur',
+  mathsf: 'sansserif',
+  mathtt: 'monospace',
+  mathit: 'italic',
+  mathrm: 'upright',
+  boldsymbol: 'bolditalic',
+};
+
+// Function heads that are not the capitalized name (sin → Sin)
+const FUNCTION_HEADS: Readonly<Record<string, string>> = {
+  gcd: 'GCD',
+  lcm: 'LCM',
+  det: 'Determinant',
+  sup: 'Supremum',
+  inf: 'Infimum',
+  prod: 'Product',
+  int: 'Integrate',
+};
+
+const MATRIX_DELIMITERS: Readonly<Record<MatrixNode['style'], string>> = {
+  matrix: '..',
+  array: '..',
+  pmatrix: '()',
+  bmatrix: '[]',
+  Bmatrix: '{}',
+  vmatrix: '||',
+  Vmatrix: '‖‖',
+};
+
+// Fewest and most arguments of the heads fromMathJSON writes with fixed arity
+const ARITY: Readonly<Record<string, readonly [number, number]>> = {
+  Subtract: [2, 2],
+  Negate: [1, 1],
+  Divide: [2, 2],
+  Rational: [2, 2],
+  Power: [2, 2],
+  Sqrt: [1, 1],
+  Root: [2, 2],
+  Subscript: [2, 2],
+  Factorial: [1, 1],
+  Derivative: [1, 2],
+  Binomial: [2, 2],
+  Not: [1, 1],
+  Interval: [2, 2],
+  Delimiter: [1, 3],
+  Matrix: [1, 3],
+  Limit: [1, 2],
+  Overscript: [2, 2],
+  Underscript: [2, 2],
+  Error: [1, 2],
+  LatexString: [1, 1],
+  Abs: [1, 1],
+  Norm: [1, 1],
+  Floor: [1, 1],
+  Ceil: [1, 1],
+  Sum: [1, 2],
+  Product: [1, 2],
+  Integrate: [1, 2],
+};
+
+// Parens read as functions: |x| is ["Abs", "x"]
+const DELIMITER_HEADS: Readonly<Record<string, readonly [Delimiter, Delimiter]>> = {
+  Abs: ['|', '|'],
+  Norm: ['\\|', '\\|'],
+  Floor: ['\\lfloor', '\\rfloor'],
+  Ceil: ['\\lceil', '\\rceil'],
+};
+
+function capitalize(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function functionHead(name: string): string {
+  if (FUNCTION_HEADS[name]) return FUNCTION_HEADS[name];
+  return FUNCTIONS.has(name) || LARGE_OPERATORS.has(name) ? capitalize(name) : name;
+}
+
+function invert(table: Readonly<Record<string, string>>): Record<string, string> {
+  const inverted: Record<string, string> = {};
+  for (const [key, value] of Object.entries(table)) {
+    if (!(value in inverted)) inverted[value] = key;
+  }
+  return inverted;
+}
+
+const HEAD_OPERATORS = invert(Object.fromEntries(Object.entries(INFIX).map(([value, infix]) => [value, infix.head])));
+const HEAD_FUNCTIONS = invert(Object.fromEntries([...FUNCTIONS, ...LARGE_OPERATORS].map((name) => [name, functionHead(name)])));
+const NAMED_OPERATORS = invert(OPERATOR_SYMBOLS);
+const NAMED_SYMBOLS = invert(SYMBOL_NAMES);
+const NAMED_SETS = invert(NUMBER_SETS);
+const MODIFIER_FONTS = invert(FONT_MODIFIERS) as Record<string, FontNode['variant']>;
+const MATRIX_STYLES = invert(MATRIX_DELIMITERS) as Record<string, MatrixNode['style']>;
+
+// =============================================================================
+// AST to MathJSON
+// =============================================================================
+
+/**
+ * Convert an AST to canonical MathJSON
+ *
+ * Rows are read with the usual precedence: relations bind loosest, then
+ * + and -, then multiplication (written or implied by juxtaposition).
+ * \sin x takes the juxtaposed factors after it, and f, g and h the
+ * parentheses after them; \sum and \lim take the product after them; \int
+ * takes everything up to its d<variable>.
+ */
+export function toMathJSON(ast: MathNode): MathJSON {
+  return convert(ast);
+}
+
+function convert(n: MathNode): MathJSON {
+  switch (n.kind) {
+    case 'row':
+      return readRow(n.children);
+    case 'number':
+      return numberValue(n.value);
+    case 'symbol':
+      return symbolName(n.value);
+    case 'operator':
+      return OPERATOR_SYMBOLS[n.value] ?? n.value;
+    case 'text':
+      return `'${n.value}'`;
+    case 'space':
+      return 'Nothing';
+    case 'placeholder':
+      return 'Nothing';
+    case 'macro':
+      return ['LatexString', `'${serializeToLatex(n)}'`];
+    case 'error':
+      return ['Error', `'${n.message ?? 'invalid'}'`, ['LatexString', `'${n.value}'`]];
+    case 'fraction':
+      return ['Divide', convert(n.numerator), convert(n.denominator)];
+    case 'binom':
+      return ['Binomial', convert(n.top), convert(n.bottom)];
+    case 'mixedNumber':
+      return ['Add', convert(n.whole), ['Rational', convert(n.numerator), convert(n.denominator)]];
+    case 'repeatingDecimal':
+      // 0.\overline{3} is 0.(3)
+      return { num: `${serializeToLatex(n.decimal)}(${serializeToLatex(n.repetend)})` };
+    case 'power':
+      return ['Power', convert(n.base), convert(n.exponent)];
+    case 'prime':
+      return n.count === 1 ? ['Derivative', convert(n.base)] : ['Derivative', convert(n.base), n.count];
+    case 'subscript':
+      return subscript(n.base, n.subscript);
+    case 'subsup':
+      return ['Power', subscript(n.base, n.subscript), convert(n.superscript)];
+    case 'sqrt':
+      return n.index ? ['Root', convert(n.radicand), convert(n.index)] : ['Sqrt', convert(n.radicand)];
+    case 'parens':
+      return delimited(convert(n.content), n.open, n.close);
+    case 'function':
+      return readRow([n]);
+    case 'matrix': {
+      const rows: MathJSON = ['List', ...n.rows.map((row) => ['List', ...row.map(convert)])];
+      if (n.style === 'array' && n.colSpec) return ['Matrix', rows, "'..'", `'${n.colSpec}'`];
+      return ['Matrix', rows, `'${MATRIX_DELIMITERS[n.style]}'`];
+    }
+    case 'cases':
+      // ["Which", condition, value, ...]; "otherwise" is always true
+      return ['Which', ...n.rows.flatMap(([value, condition]) => [condition.kind === 'text' ? 'True' : convert(condition), convert(value)])];
+    case 'aligned':
+      return ['List', ...n.rows.map((row) => readRow(row.flatMap((cell) => (cell.kind === 'row' ? cell.children : [cell]))))];
+    case 'accent':
+      return [capitalize(n.accent), convert(n.body)];
+    case 'font':
+      return font(n);
+    case 'color':
+      return convert(n.body);
+    case 'overunder':
+      if (n.over) return ['Overscript', convert(n.body), convert(n.over)];
+      if (n.under) return ['Underscript', convert(n.body), convert(n.under)];
+      return convert(n.body);
+  }
+}
+
+function numberValue(value: string): MathJSON {
+  // Numbers JSON would round or reformat ("1.50", 20 digits) keep their digits
+  return String(Number(value)) === value ? Number(value) : { num: value };
+}
+
+function symbolName(value: string): string {
+  return SYMBOL_NAMES[value] ?? (/^[a-zA-Z]+$/.test(value) ? value : `'${value}'`);
+}
+
+/**
+ * x_1 is the symbol "x_1"; anything more involved is ["Subscript", ...]
+ */
+function subscript(base: MathNode, sub: MathNode): MathJSON {
+  if (base.kind === 'symbol' && /^[a-zA-Z]+$/.test(base.value)) {
+    if (sub.kind === 'number' && /^\d+$/.test(sub.value)) return `${base.value}_${sub.value}`;
+    if (sub.kind === 'symbol' && /^[a-zA-Z]$/.test(sub.value)) return `${base.value}_${sub.value}`;
+  }
+  return ['Subscript', convert(base), convert(sub)];
+}
+
+function font(n: Extract<MathNode, { kind: 'font' }>): MathJSON {
+  // \mathrm{speed} is one upright name
+  const letters = n.body.kind === 'row' ? n.body.children.map((c) => (c.kind === 'symbol' ? c.value : '')) : [];
+  if (n.variant === 'mathrm' && letters.length > 1 && letters.every((c) => /^[a-zA-Z]$/.test(c))) {
+    return letters.join('');
+  }
+  if (n.body.kind !== 'symbol' || !/^[a-zA-Z]+$/.test(n.body.value)) return convert(n.body);
+  if (n.variant === 'mathbb' && NUMBER_SETS[n.body.value]) return NUMBER_SETS[n.body.value];
+  return `${n.body.value}_${FONT_MODIFIERS[n.variant]}`;
+}
+
+/**
+ * Parenthesized content: grouping, or a tuple, interval, |x| or other function
+ */
+function delimited(content: MathJSON, open: string, close: string): MathJSON {
+  const items = isExpression(content) && content[0] === 'Sequence' ? content.slice(1) : null;
+  if (open === '{' && close === '}') return ['Set', ...(items ?? [content])];
+  if ((open === '(' || open === '[') && (close === ')' || close === ']')) {
+    if (!items) return content;
+    if (items.length === 2 && open + close !== '()' && open + close !== '[]') {
+      // [a, b) is a half-open interval
+      const lower = open === '(' ? ['Open', items[0]] : items[0];
+      const upper = close === ')' ? ['Open', items[1]] : items[1];
+      return ['Interval', lower, upper];
+    }
+    return [open === '(' ? 'Tuple' : 'List', ...items];
+  }
+  const head = Object.keys(DELIMITER_HEADS).find((name) => DELIMITER_HEADS[name].join('') === open + close);
+  if (head) return [head, content];
+  return ['Delimiter', content, `'${open}'`, `'${close}'`];
+}
+
+function isExpression(json: MathJSON): json is readonly MathJSON[] {
+  return Array.isArray(json);
+}
+
+function readRow(children: readonly MathNode[]): MathJSON {
+  return new ExpressionReader(children.filter((child) => child.kind !== 'space')).read();
+}
+
+/**
+ * Precedence climbing over the nodes of a row
+ */
+class ExpressionReader {
+  private pos = 0;
+
+  constructor(private readonly items: readonly MathNode[]) {}
+
+  read(): MathJSON {
+    return this.expression(SEQUENCE);
+  }
+
+  private peek(): MathNode | undefined {
+    return this.items[this.pos];
+  }
+
+  private infix(n: MathNode | undefined): Infix | undefined {
+    return n?.kind === 'operator' ? INFIX[n.value] : undefined;
+  }
+
+  private expression(minPrecedence: number): MathJSON {
+    let left = this.prefix();
+    while (this.pos < this.items.length) {
+      const op = this.infix(this.peek());
+      const precedence = op ? op.precedence : MULTIPLICATION;
+      if (precedence < minPrecedence) break;
+      if (op) this.pos++;
+      // Left-associative: the right side only takes tighter operators
+      const right = this.expression(precedence + 1);
+      left = combine(op ? op.head : 'Multiply', left, right);
+    }
+    return left;
+  }
+
+  private prefix(): MathJSON {
+    const item = this.peek();
+    if (!item) return 'Nothing';
+    if (item.kind === 'operator') {
+      switch (item.value) {
+        case '-':
+          this.pos++;
+          return negate(this.expression(MULTIPLICATION));
+        case '+':
+          this.pos++;
+          return this.expression(MULTIPLICATION);
+        case 'pm':
+          this.pos++;
+          return ['PlusMinus', this.expression(MULTIPLICATION)];
+        case 'neg':
+          this.pos++;
+          return ['Not', this.expression(MULTIPLICATION)];
+      }
+      // = x: the missing left side
+      if (INFIX[item.value]) return 'Nothing';
+    }
+    return this.operand();
+  }
+
+  private operand(): MathJSON {
+    const item = this.items[this.pos++];
+    let result = this.primary(item);
+    while (this.peek()?.kind === 'operator' && (this.peek() as { value: string }).value === '!') {
+      this.pos++;
+      result = ['Factorial', result];
+    }
+    return result;
+  }
+
+  private primary(item: MathNode): MathJSON {
+    if (item.kind === 'symbol' && item.value === '{') {
+      const close = this.closingBrace();
+      if (close !== -1) {
+        // \{1, 2\} is ["Set", 1, 2]
+        const items = this.items.slice(this.pos, close);
+        this.pos = close + 1;
+        return items.length === 0 ? ['Set'] : delimited(new ExpressionReader(items).read(), '{', '}');
+      }
+    }
+    if (item.kind === 'function') return this.application(item);
+    if (item.kind === 'symbol' && FUNCTION_LETTERS.has(item.value)) {
+      // f(x) applies f, as does f(x)^2 before squaring
+      const next = this.peek();
+      const call = next?.kind === 'power' ? next.base : next;
+      if (call?.kind === 'parens' && call.open === '(') {
+        this.pos++;
+        const result: MathJSON = [item.value, ...this.argumentsOf(call)];
+        return next?.kind === 'power' ? ['Power', result, convert(next.exponent)] : result;
+      }
+    }
+    if ((item.kind === 'power' || item.kind === 'subscript') && item.base.kind === 'function') {
+      return this.application(item.base, item);
+    }
+    if (item.kind === 'prime' && this.peek()?.kind === 'parens') {
+      // f'(x) applies the derivative
+      return [convert(item), ...this.argumentsOf(this.items[this.pos++])];
+    }
+    return convert(item);
+  }
+
+  /**
+   * A function and the argument after it; `script` is \sin^2 or \log_2 around it
+   */
+  private application(fn: FunctionNode, script?: MathNode): MathJSON {
+    if (LARGE_OPERATORS.has(fn.name)) return this.bigOperator(fn);
+    if (LIMIT_FUNCTIONS.has(fn.name)) return this.limit(fn);
+
+    const head = functionHead(fn.name);
+    const args = fn.argument ? this.argumentsOf(fn.argument) : this.argument();
+    let result: MathJSON = args.length > 0 ? [head, ...args] : head;
+
+    if (script?.kind === 'subscript') {
+      // \log_2 x is ["Log", "x", 2]
+      result = head === 'Log' ? [head, ...args, convert(script.subscript)] : ['Subscript', result, convert(script.subscript)];
+    } else if (script?.kind === 'power') {
+      result = ['Power', result, convert(script.exponent)];
+    }
+    return result;
+  }
+
+  /**
+   * The argument after a function name: (x, y), or juxtaposed factors as in \sin 2x
+   */
+  private argument(): MathJSON[] {
+    const next = this.peek();
+    if (next?.kind === 'parens' && (next.open === '(' || next.open === '[')) {
+      this.pos++;
+      return this.argumentsOf(next);
+    }
+    const factors: MathJSON[] = [];
+    while (this.peek() && ['number', 'symbol', 'fraction', 'power', 'subscript', 'sqrt'].includes(this.peek()!.kind)) {
+      factors.push(this.operand());
+    }
+    if (factors.length <= 1) return factors;
+    return [['Multiply', ...factors]];
+  }
+
+  private argumentsOf(n: MathNode): MathJSON[] {
+    const content = convert(n.kind === 'parens' ? n.content : n);
+    return isExpression(content) && content[0] === 'Sequence' ? content.slice(1) : [content];
+  }
+
+  /**
+   * \sum_{i=1}^{n} body is ["Sum", body, ["Limits", "i", 1, "n"]]
+   */
+  private bigOperator(fn: FunctionNode): MathJSON {
+    const head = functionHead(fn.name);
+    let index: MathJSON = 'Nothing';
+    let lower: MathJSON = 'Nothing';
+    if (fn.limits?.lower) {
+      const bound = convert(fn.limits.lower);
+      if (isExpression(bound) && bound[0] === 'Equal' && bound.length === 3) {
+        [, index, lower] = bound;
+      } else {
+        lower = bound;
+      }
+    }
+    const upper = fn.limits?.upper ? convert(fn.limits.upper) : 'Nothing';
+
+    let body: MathJSON;
+    const differential = fn.name === 'int' ? this.findDifferential() : -1;
+    if (differential !== -1) {
+      // \int f\,dx: the body runs to the d, and x is the variable
+      body = new ExpressionReader(this.items.slice(this.pos, differential)).read();
+      index = convert(this.items[differential + 1]);
+      this.pos = differential + 2;
+    } else {
+      body = this.pos < this.items.length ? this.expression(MULTIPLICATION) : 'Nothing';
+    }
+
+    if (typeof index === 'string' && NAMED_SYMBOLS[index]) {
+      [index, body] = [NAMED_SYMBOLS[index], unbind(body, index)];
+    }
+
+    if (index === 'Nothing' && lower === 'Nothing' && upper === 'Nothing') return [head, body];
+    return [head, body, ['Limits', index, lower, upper]];
+  }
+
+  /**
+   * Index of the escaped \} that closes an escaped \{ just read, or -1
+   */
+  private closingBrace(): number {
+    let depth = 0;
+    for (let i = this.pos; i < this.items.length; i++) {
+      const item = this.items[i];
+      if (item.kind !== 'symbol') continue;
+      if (item.value === '{') depth++;
+      if (item.value === '}' && depth-- === 0) return i;
+    }
+    return -1;
+  }
+
+  private findDifferential(): number {
+    for (let i = this.pos; i < this.items.length - 1; i++) {
+      const item = this.items[i];
+      const next = this.items[i + 1];
+      const d = item.kind === 'font' && item.variant === 'mathrm' ? item.body : item;
+      if (d.kind === 'symbol' && d.value === 'd' && next.kind === 'symbol') return i;
+    }
+    return -1;
+  }
+
+  /**
+   * \lim_{x \to a} body is ["Limit", ["Function", body, "x"], a]
+   */
+  private limit(fn: FunctionNode): MathJSON {
+    const body = this.pos < this.items.length ? this.expression(MULTIPLICATION) : 'Nothing';
+    const bound = fn.limits?.lower ? convert(fn.limits.lower) : 'Nothing';
+    if (isExpression(bound) && bound[0] === 'To' && bound.length === 3) {
+      const variable = bound[1];
+      if (typeof variable === 'string' && NAMED_SYMBOLS[variable]) {
+        return ['Limit', ['Function', unbind(body, variable), NAMED_SYMBOLS[variable]], bound[2]];
+      }
+      return ['Limit', ['Function', body, variable], bound[2]];
+    }
+    return ['Limit', body, bound];
+  }
+}
+
+/**
+ * A bound variable is a letter even when it names a constant: the i of
+ * \sum_{i=1}^{n} i is not ImaginaryUnit
+ */
+function unbind(json: MathJSON, constant: string): MathJSON {
+  if (json === constant) return NAMED_SYMBOLS[constant];
+  if (isExpression(json)) return json.map((item) => unbind(item, constant));
+  return json;
+}
+
+function combine(head: string, left: MathJSON, right: MathJSON): MathJSON {
+  // Canonical form has no Subtract: a - b is a + (-b)
+  if (head === 'Subtract') return combine('Add', left, negate(right));
+
+  if (isExpression(left) && left[0] === head) {
+    if (VARIADIC.has(head)) return [...left, right];
+    // Chained relations share their middle terms: a < b < c
+    if (RELATIONS.has(head)) return [...left, right];
+  }
+  if (isExpression(left) && RELATIONS.has(String(left[0])) && RELATIONS.has(head)) {
+    // a < b \le c: each relation holds
+    return ['And', left, [head, left[left.length - 1], right]];
+  }
+  return [head, left, right];
+}
+
+function negate(json: MathJSON): MathJSON {
+  if (typeof json === 'number') return -json;
+  return ['Negate', json];
+}
+
+// =============================================================================
+// MathJSON to AST
+// =============================================================================
+
+/**
+ * Convert MathJSON to an AST, adding the parentheses precedence needs.
+ * Heads with no notation of their own are written as function calls,
+ * \operatorname{Head}(...). Throws a MathJSONError on anything that is not
+ * MathJSON, such as null, an empty expression or ["Sqrt"] without its
+ * argument.
+ */
+export function fromMathJSON(json: MathJSON): MathNode {
+  return build(json);
+}
+
+/**
+ * Convert MathJSON to an AST as fromMathJSON does, listing each head written
+ * as \operatorname{Head}(...) for want of a notation in `diagnostics`
+ */
+export function fromMathJSONWithDiagnostics(json: MathJSON): MathJSONResult {
+  diagnostics = [];
+  try {
+    const ast = build(json);
+    return { ast, diagnostics };
+  } finally {
+    diagnostics = null;
+  }
+}
+
+// Problems found by the fromMathJSONWithDiagnostics call in progress
+let diagnostics: MathJSONDiagnostic[] | null = null;
+
+function build(json: MathJSON): MathNode {
+  if (typeof json === 'number') return numberNode(String(json));
+  if (typeof json === 'string') return symbolNode(json);
+  if (isExpression(json)) {
+    if (json.length === 0) throw new MathJSONError('Invalid MathJSON: an expression needs a head', json);
+    return buildExpression(json[0], json.slice(1));
+  }
+  if (typeof json === 'object' && json !== null) {
+    if ('num' in json && typeof json.num === 'string') return numberNode(json.num);
+    if ('str' in json && typeof json.str === 'string') return node.text(json.str);
+    if ('sym' in json && typeof json.sym === 'string') return symbolNode(json.sym);
+    if ('fn' in json && isExpression(json.fn)) return build(json.fn);
+  }
+  throw new MathJSONError(`Invalid MathJSON: ${JSON.stringify(json) ?? String(json)}`, json);
+}
+
+function numberNode(value: string): MathNode {
+  if (value.startsWith('-')) return node.row([node.operator('-'), numberNode(value.slice(1))]);
+  if (value === 'Infinity' || value === '+Infinity') return node.operator('infty');
+  if (value === 'NaN') return node.text('NaN');
+  // 1.5e+30 is written 1.5 \times 10^{30}
+  const scientific = /^(\d*\.?\d+)e\+?(-?\d+)$/i.exec(value);
+  if (scientific) {
+    const power = node.power(node.number('10'), numberNode(scientific[2]));
+    return scientific[1] === '1' ? power : node.row([node.number(scientific[1]), node.operator('times'), power]);
+  }
+  const repeating = /^(\d*\.\d*)\((\d+)\)$/.exec(value);
+  if (repeating) return node.repeatingDecimal(node.number(repeating[1]), node.number(repeating[2]));
+  return node.number(value);
+}
+
+function symbolNode(name: string): MathNode {
+  if (name.length >= 2 && name.startsWith("'") && name.endsWith("'")) {
+    const text = name.slice(1, -1);
+    return text.length === 1 && !/[a-zA-Z]/.test(text) ? node.symbol(text) : node.text(text);
+  }
+  if (name === 'Nothing') return node.placeholder();
+  if (name === 'NegativeInfinity') return node.row([node.operator('-'), node.operator('infty')]);
+  if (NAMED_OPERATORS[name]) return node.operator(NAMED_OPERATORS[name]);
+  if (NAMED_SYMBOLS[name]) return node.symbol(NAMED_SYMBOLS[name]);
+  if (NAMED_SETS[name]) return node.font('mathbb', node.symbol(NAMED_SETS[name]));
+  if (HEAD_FUNCTIONS[name]) return node.function(HEAD_FUNCTIONS[name]);
+
+  // x_1, v_bold, x_i_bold: a base with subscripts and font modifiers
+  const [base, ...modifiers] = name.split('_');
+  if (modifiers.length > 0 && base !== '') {
+    let result = symbolNode(base);
+    for (const modifier of modifiers) {
+      const variant = MODIFIER_FONTS[modifier];
+      result = variant ? node.font(variant, result) : node.subscript(result, build(/^\d+$/.test(modifier) ? Number(modifier) : modifier));
+    }
+    return result;
+  }
+
+  if (name.length === 1) return node.symbol(name);
+  // Greek letters by name; other multi-letter names are upright text, as \mathrm{speed} reads
+  if (GREEK_LETTERS.has(name)) return node.symbol(name);
+  return node.text(name);
+}
+
+/**
+ * How tightly an expression binds, to decide where parentheses go
+ */
+function precedence(json: MathJSON): number {
+  if (typeof json === 'number') return numberPrecedence(String(json));
+  if (typeof json === 'object' && 'num' in json) return numberPrecedence(json.num);
+  if (!isExpression(json)) return ATOM;
+
+  const head = json[0];
+  if (typeof head !== 'string') return POSTFIX;
+  if (head === 'Sequence') return SEQUENCE;
+  if (head === 'Not') return NEGATION;
+  if (head === 'Negate') return NEGATION;
+  if (head === 'Add') return ADDITION;
+  if (head === 'Power' || head === 'Subscript' || head === 'Factorial' || head === 'Derivative') return POSTFIX;
+  const operator = HEAD_OPERATORS[head];
+  if (operator && head !== 'Divide') return INFIX[operator].precedence;
+  if (head === 'PlusMinus' || head === 'MinusPlus') return json.length === 2 ? NEGATION : ADDITION;
+  if (head === 'Sum' || head === 'Product' || head === 'Integrate' || head === 'Limit') return MULTIPLICATION;
+  return ATOM;
+}
+
+function numberPrecedence(value: string): number {
+  if (value.startsWith('-')) return NEGATION;
+  // 1.5 \times 10^{30} is a product, 10^{30} a power
+  const scientific = /^(\d*\.?\d+)e/i.exec(value);
+  if (scientific) return scientific[1] === '1' ? POSTFIX : MULTIPLICATION;
+  return ATOM;
+}
+
+/**
+ * Build `json`, in parentheses when it binds looser than `min`
+ */
+function operand(json: MathJSON, min: number): MathNode {
+  const n = build(json);
+  return precedence(json) < min ? node.parens(n) : n;
+}
+
+function joinWith(args: readonly MathJSON[], operator: string, min: number): MathNode[] {
+  return args.flatMap((arg, i) => (i === 0 ? [operand(arg, min)] : [node.operator(operator), operand(arg, min)]));
+}
+
+function sequence(args: readonly MathJSON[]): MathNode {
+  return node.row(joinWith(args, ',', SEQUENCE + 1));
+}
+
+function buildExpression(head: MathJSON, args: readonly MathJSON[]): MathNode {
+  if (typeof head !== 'string') {
+    // [["Derivative", "f"], "x"]: an expression applied to arguments
+    return node.row([build(head), node.parens(sequence(args))]);
+  }
+
+  const arity = ARITY[head] ?? (accentName(head) ? [1, 1] : undefined);
+  if (arity && (args.length < arity[0] || args.length > arity[1])) {
+    const count = arity[0] === arity[1] ? `${arity[0]}` : `${arity[0]} to ${arity[1]}`;
+    const message = `Invalid MathJSON: ${head} takes ${count} argument${arity[1] === 1 ? '' : 's'}, got ${args.length}`;
+    throw new MathJSONError(message, [head, ...args]);
+  }
+
+  switch (head) {
+    case 'Add':
+      return node.row(
+        args.flatMap((arg, i) => {
+          if (i > 0 && isExpression(arg) && arg[0] === 'Negate') {
+            return [node.operator('-'), operand(arg[1], ADDITION + 1)];
+          }
+          if (i > 0 && typeof arg === 'number' && arg < 0) {
+            return [node.operator('-'), build(-arg)];
+          }
+          return i === 0 ? [operand(arg, ADDITION)] : [node.operator('+'), operand(arg, ADDITION + 1)];
+        })
+      );
+    case 'Subtract':
+      return node.row([operand(args[0], ADDITION), node.operator('-'), operand(args[1], ADDITION + 1)]);
+    case 'Negate':
+      return node.row([node.operator('-'), operand(args[0], MULTIPLICATION)]);
+    case 'Multiply':
+      return node.row(
+        args.flatMap((arg, i) => {
+          const factor = operand(arg, i === 0 ? NEGATION : MULTIPLICATION + 1);
+          // 2 \cdot 3 and 2 \cdot 10^{30}, but 2x
+          const first = factor.kind === 'row' ? factor.children[0] : factor;
+          const leading = first?.kind === 'power' ? first.base : first;
+          return i > 0 && leading?.kind === 'number' ? [node.operator('cdot'), factor] : [factor];
+        })
+      );
+    case 'Divide':
+    case 'Rational':
+      return node.fraction(build(args[0]), build(args[1]));
+    case 'Power':
+      return power(args[0], args[1]);
+    case 'Sqrt':
+      return node.sqrt(build(args[0]));
+    case 'Root':
+      return node.sqrt(build(args[0]), build(args[1]));
+    case 'Subscript':
+      return node.subscript(operand(args[0], ATOM), build(args[1]));
+    case 'Factorial':
+      return node.row([operand(args[0], POSTFIX), node.operator('!')]);
+    case 'Derivative':
+      return node.prime(operand(args[0], ATOM), typeof args[1] === 'number' ? args[1] : 1);
+    case 'Binomial':
+      return node.binom(build(args[0]), build(args[1]));
+    case 'Not':
+      return node.row([node.operator('neg'), operand(args[0], NEGATION)]);
+    case 'PlusMinus':
+    case 'MinusPlus': {
+      const sign = head === 'PlusMinus' ? 'pm' : 'mp';
+      if (args.length === 1) return node.row([node.operator(sign), operand(args[0], MULTIPLICATION)]);
+      return node.row(joinWith(args, sign, ADDITION + 1));
+    }
+    case 'Sequence':
+      return sequence(args);
+    case 'Tuple':
+      return node.parens(sequence(args));
+    case 'List':
+      return node.parens(sequence(args), '[', ']');
+    case 'Set':
+      return node.parens(sequence(args), '{', '}', 'auto');
+    case 'Interval': {
+      const bound = (arg: MathJSON) => (isExpression(arg) && arg[0] === 'Open' ? arg[1] : arg);
+      const open = isExpression(args[0]) && args[0][0] === 'Open' ? '(' : '[';
+      const close = isExpression(args[1]) && args[1][0] === 'Open' ? ')' : ']';
+      return node.parens(sequence([bound(args[0]), bound(args[1])]), open, close);
+    }
+    case 'Delimiter':
+      return node.parens(build(args[0]), delimiter(args[1], '('), delimiter(args[2], ')'), 'auto');
+    case 'Matrix':
+      return matrix(args);
+    case 'Which': {
+      const rows: [MathNode, MathNode][] = [];
+      for (let i = 0; i + 1 < args.length; i += 2) {
+        rows.push([build(args[i + 1]), args[i] === 'True' ? node.text('otherwise') : build(args[i])]);
+      }
+      return node.cases(rows);
+    }
+    case 'Limit':
+      return limit(args);
+    case 'Overscript':
+      return node.overunder('overset', build(args[0]), build(args[1]));
+    case 'Underscript':
+      return node.overunder('underset', build(args[0]), undefined, build(args[1]));
+    case 'Error': {
+      const message = typeof args[0] === 'string' ? args[0].slice(1, -1) : undefined;
+      const source = isExpression(args[1]) && typeof args[1][1] === 'string' ? args[1][1].slice(1, -1) : '';
+      return node.error(source, message);
+    }
+    case 'LatexString':
+      return latexString(typeof args[0] === 'string' ? args[0].slice(1, -1) : '');
+  }
+
+  const delimiters = DELIMITER_HEADS[head];
+  if (delimiters) {
+    const [open, close] = delimiters;
+    return node.parens(build(args[0]), open, close, open.startsWith('\\') ? 'auto' : undefined);
+  }
+
+  const operator = HEAD_OPERATORS[head];
+  if (operator) return node.row(joinWith(args, operator, INFIX[operator].precedence + 1));
+
+  const accent = accentName(head);
+  if (accent) return node.accent(accent, build(args[0]));
+
+  const name = HEAD_FUNCTIONS[head];
+  if (name && LARGE_OPERATORS.has(name)) return bigOperator(name, args);
+  if (!name && !/^[a-zA-Z]$/.test(head)) {
+    diagnostics?.push({ code: 'unknown-head', message: `Unknown head ${head}`, value: [head, ...args] });
+  }
+  return application(name ?? head, args);
+}
+
+/**
+ * The accent a head such as "Hat" stands for
+ */
+function accentName(head: string): AccentNode['accent'] | undefined {
+  const accent = head.charAt(0).toLowerCase() + head.slice(1);
+  return accent in ACCENT_NAMES ? (accent as AccentNode['accent']) : undefined;
+}
+
+const ACCENT_NAMES: Readonly<Record<AccentNode['accent'], true>> = {
+  hat: true, widehat: true, check: true, tilde: true, widetilde: true, acute: true, grave: true, breve: true,
+  bar: true, overline: true, underline: true, vec: true, overrightarrow: true, overleftarrow: true,
+  dot: true, ddot: true, mathring: true,
+};
+
+/**
+ * A delimiter given as a 'string'; '' is the invisible one
+ */
+function delimiter(json: MathJSON | undefined, fallback: Delimiter): Delimiter {
+  if (typeof json !== 'string') return fallback;
+  const value = json.slice(1, -1) || '.';
+  return value in DELIMITER_CHARACTERS ? (value as Delimiter) : fallback;
+}
+
+function power(base: MathJSON, exponent: MathJSON): MathNode {
+  // ["Power", ["Sin", "x"], 2] is \sin^2(x)
+  if (isExpression(base) && typeof base[0] === 'string' && HEAD_FUNCTIONS[base[0]] && base.length === 2) {
+    const name = HEAD_FUNCTIONS[base[0]];
+    if (!LARGE_OPERATORS.has(name) && !LIMIT_FUNCTIONS.has(name)) {
+      return node.row([node.power(node.function(name), build(exponent)), node.parens(build(base[1]))]);
+    }
+  }
+  // ["Power", ["f", "x"], 2] is f(x)^2
+  if (isExpression(base) && typeof base[0] === 'string' && /^[a-zA-Z]$/.test(base[0]) && base.length > 1) {
+    return node.row([node.symbol(base[0]), node.power(node.parens(sequence(base.slice(1))), build(exponent))]);
+  }
+  return node.power(operand(base, ATOM), build(exponent));
+}
+
+/**
+ * A function call: \sin(x), \log_{2}(x), f(x, y), \operatorname{Head}(x)
+ */
+function application(name: string, args: readonly MathJSON[]): MathNode {
+  const fn =
+    name === 'log' && args.length === 2
+      ? node.function(name, undefined, { lower: build(args[1]) })
+      : /^[a-zA-Z]$/.test(name)
+        ? node.symbol(name)
+        : node.function(name);
+  const callArgs = name === 'log' ? args.slice(0, 1) : args;
+  if (callArgs.length === 0) return fn;
+  return node.row([fn, node.parens(sequence(callArgs))]);
+}
+
+/**
+ * ["Sum", body, ["Limits", "i", 1, "n"]]: limits below and above, \int's variable after
+ */
+function bigOperator(name: string, args: readonly MathJSON[]): MathNode {
+  const [body, limits] = args;
+  let index: MathJSON = 'Nothing';
+  let lower: MathJSON = 'Nothing';
+  let upper: MathJSON = 'Nothing';
+  if (isExpression(limits) && (limits[0] === 'Limits' || limits[0] === 'Tuple' || limits[0] === 'Triple')) {
+    [, index = 'Nothing', lower = 'Nothing', upper = 'Nothing'] = limits;
+  } else if (limits !== undefined) {
+    index = limits;
+  }
+
+  const bounds: { lower?: MathNode; upper?: MathNode } = {};
+  if (lower !== 'Nothing') {
+    bounds.lower = name === 'int' || index === 'Nothing' ? build(lower) : node.row([build(index), node.operator('='), build(lower)]);
+  }
+  if (upper !== 'Nothing') bounds.upper = build(upper);
+
+  const children = [node.function(name, undefined, bounds.lower || bounds.upper ? bounds : undefined), operand(body, MULTIPLICATION)];
+  if (name === 'int' && index !== 'Nothing') {
+    children.push(node.space('thin'), node.symbol('d'), build(index));
+  }
+  return node.row(children);
+}
+
+function limit(args: readonly MathJSON[]): MathNode {
+  const [fn, target = 'Nothing'] = args;
+  if (isExpression(fn) && fn[0] === 'Function' && fn.length >= 3) {
+    const lower = node.row([build(fn[2]), node.operator('to'), build(target)]);
+    return node.row([node.function('lim', undefined, { lower }), operand(fn[1], MULTIPLICATION)]);
+  }
+  const limits = target === 'Nothing' ? undefined : { lower: build(target) };
+  return node.row([node.function('lim', undefined, limits), operand(fn ?? 'Nothing', MULTIPLICATION)]);
+}
+
+function matrix(args: readonly MathJSON[]): MathNode {
+  const [body, delimiters, columns] = args;
+  const rows = isExpression(body) ? body.slice(1) : [];
+  const cells = rows.map((row) => (isExpression(row) ? row.slice(1).map(build) : [build(row)]));
+
+  const style = typeof delimiters === 'string' ? MATRIX_STYLES[delimiters.slice(1, -1)] ?? 'pmatrix' : 'pmatrix';
+  if (typeof columns === 'string') return node.matrix(cells, 'array', columns.slice(1, -1));
+  return node.matrix(cells, style);
+}
+
+function latexString(latex: string): MathNode {
+  try {
+    return parseLatex(latex);
+  } catch (e) {
+    if (e instanceof LatexParseError) return node.error(latex, e.message);
+    throw e;
+  }
+}
@@ -0,0 +1,845 @@
+/**
+ * MathML to AST Parser
+ *
+ * Reads Presentation MathML (as found in QTI items and EPUB) into our AST.
+ * Runs without a DOM: a small XML reader builds an element tree, which is
+ * then mapped onto the node kinds in core/ast.ts.
+ */
+
+import {
+  MathNode,
+  Delimiter,
+  ParensNode,
+  FontNode,
+  AccentNode,
+  SpaceNode,
+  MatrixNode,
+  CasesNode,
+  SourceSpan,
+  NumberNode,
+  node,
+} from '../core/ast';
+import { parseLatex } from './latex-to-ast';
+import { FUNCTIONS, LARGE_OPERATORS, LIMIT_FUNCTIONS } from './functions';
+import { COMMAND_CHARACTERS, DELIMITER_CHARACTERS, LARGE_OPERATOR_CHARACTERS } from './symbols';
+
+// =============================================================================
+// Diagnostics
+// =============================================================================
+
+export type MathMLDiagnosticCode =
+  | 'malformed-xml' // Unclosed or mismatched tag, unreadable markup
+  | 'unknown-entity' // &name; we have no character for
+  | 'unsupported-element' // Element with no node kind (menclose, mmultiscripts, ...)
+  | 'invalid-children'; // Wrong number of children (<mfrac> with one), stray text
+
+export interface MathMLDiagnostic {
+  readonly code: MathMLDiagnosticCode;
+  readonly message: string;
+  readonly span: SourceSpan; // Offsets into the MathML source
+}
+
+export interface MathMLParseResult {
+  /** Best-effort AST; unsupported parts are read as what they hold */
+  readonly ast: MathNode;
+  readonly diagnostics: readonly MathMLDiagnostic[];
+}
+
+/**
+ * Thrown by parseMathML on the first problem in the input
+ */
+export class MathMLParseError extends Error {
+  readonly code: MathMLDiagnosticCode;
+  readonly span: SourceSpan;
+
+  constructor(code: MathMLDiagnosticCode, message: string, span: SourceSpan) {
+    super(message);
+    this.name = 'MathMLParseError';
+    this.code = code;
+    this.span = span;
+  }
+}
+
+type Report = (code: MathMLDiagnosticCode, message: string, span: SourceSpan) => void;
+
+// =============================================================================
+// XML Reader
+// =============================================================================
+
+interface XmlElement {
+  readonly type: 'element';
+  readonly name: string; // Local name: m:mfrac is read as mfrac
+  readonly attributes: Readonly<Record<string, string>>;
+  readonly children: XmlContent[];
+  readonly span: SourceSpan;
+}
+
+interface XmlText {
+  readonly type: 'text';
+  readonly value: string;
+  readonly span: SourceSpan;
+}
+
+type XmlContent = XmlElement | XmlText;
+
+const ENTITIES: Record<string, string> = {
+  lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: '\u00a0',
+  ApplyFunction: '\u2061', af: '\u2061', InvisibleTimes: '\u2062', it: '\u2062',
+  InvisibleComma: '\u2063', ic: '\u2063',
+  // Greek letters
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', epsi: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ',
+  iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', omicron: 'ο', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', upsi: 'υ', phi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  epsiv: 'ϵ', varepsilon: 'ϵ', straightepsilon: 'ϵ', thetav: 'ϑ', vartheta: 'ϑ', thetasym: 'ϑ',
+  piv: 'ϖ', varpi: 'ϖ', rhov: 'ϱ', varrho: 'ϱ', sigmaf: 'ς', sigmav: 'ς', varsigma: 'ς',
+  phiv: 'ϕ', varphi: 'ϕ', straightphi: 'ϕ',
+  Alpha: 'Α', Beta: 'Β', Gamma: 'Γ', Delta: 'Δ', Epsilon: 'Ε', Zeta: 'Ζ', Eta: 'Η', Theta: 'Θ',
+  Iota: 'Ι', Kappa: 'Κ', Lambda: 'Λ', Mu: 'Μ', Nu: 'Ν', Xi: 'Ξ', Omicron: 'Ο', Pi: 'Π',
+  Rho: 'Ρ', Sigma: 'Σ', Tau: 'Τ', Upsilon: 'Υ', Phi: 'Φ', Chi: 'Χ', Psi: 'Ψ', Omega: 'Ω',
+  // Operators
+  minus: '−', plus: '+', times: '×', divide: '÷', div: '÷', PlusMinus: '±', pm: '±', middot: '·', sdot: '⋅',
+  MinusPlus: '∓', mnplus: '∓', mp: '∓', lowast: '∗', sstarf: '⋆', Star: '⋆', compfn: '∘', SmallCircle: '∘',
+  oplus: '⊕', ominus: '⊖', otimes: '⊗', osol: '⊘', odot: '⊙', and: '∧', wedge: '∧', or: '∨', vee: '∨',
+  setminus: '∖', setmn: '∖', Backslash: '∖',
+  // Relations
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', NotEqual: '≠', equiv: '≡', Congruent: '≡', approx: '≈', asymp: '≈',
+  sim: '∼', Tilde: '∼', sime: '≃', simeq: '≃', cong: '≅', ll: '≪', Lt: '≪', gg: '≫', Gt: '≫',
+  prop: '∝', propto: '∝', mid: '∣', VerticalBar: '∣', ni: '∋', niv: '∋', SuchThat: '∋',
+  // Arrows
+  rarr: '→', larr: '←', harr: '↔', rArr: '⇒', lArr: '⇐', hArr: '⇔', RightArrow: '→', LeftArrow: '←',
+  rightarrow: '→', leftarrow: '←', leftrightarrow: '↔', Rightarrow: '⇒', Leftarrow: '⇐', Leftrightarrow: '⇔',
+  Implies: '⇒', xrArr: '⟹', xhArr: '⟺', map: '↦', mapsto: '↦', xmap: '⟼',
+  uarr: '↑', darr: '↓', varr: '↕', uArr: '⇑', dArr: '⇓', vArr: '⇕',
+  nearr: '↗', searr: '↘', swarr: '↙', nwarr: '↖',
+  // Other symbols
+  infin: '∞', part: '∂', PartialD: '∂', nabla: '∇', Del: '∇', deg: '°', prime: '′', Prime: '″',
+  isin: '∈', in: '∈', Element: '∈', notin: '∉', NotElement: '∉', sub: '⊂', subset: '⊂', sup: '⊃', supset: '⊃',
+  sube: '⊆', SubsetEqual: '⊆', supe: '⊇', SupersetEqual: '⊇', cup: '∪', cap: '∩',
+  empty: '∅', emptyv: '∅', emptyset: '∅', forall: '∀', ForAll: '∀', exist: '∃', Exists: '∃',
+  nexist: '∄', NotExists: '∄', not: '¬', hellip: '…', ctdot: '⋯', vellip: '⋮', dtdot: '⋱',
+  sum: '∑', Sum: '∑', prod: '∏', int: '∫', Integral: '∫',
+  lang: '⟨', rang: '⟩', LeftAngleBracket: '⟨', RightAngleBracket: '⟩',
+  lceil: '⌈', rceil: '⌉', lfloor: '⌊', rfloor: '⌋', Vert: '‖', verbar: '|',
+  OverBar: '‾', UnderBar: '_', Hat: '^', OverBrace: '⏞', UnderBrace: '⏟',
+};
+
+const START_TAG = /<([\w.-]+(?::[\w.-]+)?)((?:\s+[\w.:-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([\w.:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const END_TAG = /<\/([\w.-]+(?::[\w.-]+)?)\s*>/y;
+
+/**
+ * Read XML into a list of top-level elements and text. Problems are
+ * reported and read around: unclosed elements end with the input,
+ * stray end tags are skipped.
+ */
+function readXml(source: string, report: Report): XmlContent[] {
+  interface Open {
+    name: string;
+    qualifiedName: string;
+    attributes: Record<string, string>;
+    children: XmlContent[];
+    start: number;
+  }
+  const stack: Open[] = [{ name: '', qualifiedName: '', attributes: {}, children: [], start: 0 }];
+  const top = () => stack[stack.length - 1];
+
+  const close = (end: number) => {
+    const open = stack.pop()!;
+    const element: XmlElement = {
+      type: 'element',
+      name: open.name,
+      attributes: open.attributes,
+      children: open.children,
+      span: { start: open.start, end },
+    };
+    top().children.push(element);
+  };
+
+  // Skip over <!-- -->, <![CDATA[ ]]>, <? ?> and <! > markup, reading CDATA as text
+  const skip = (pos: number, opener: string, terminator: string): number => {
+    const end = source.indexOf(terminator, pos);
+    if (end === -1) {
+      report('malformed-xml', `Unterminated ${opener} at position ${pos}`, { start: pos, end: source.length });
+      return source.length;
+    }
+    return end + terminator.length;
+  };
+
+  let pos = 0;
+  while (pos < source.length) {
+    if (source.startsWith('<!--', pos)) {
+      pos = skip(pos, '<!--', '-->');
+    } else if (source.startsWith('<![CDATA[', pos)) {
+      const end = skip(pos, '<![CDATA[', ']]>');
+      const value = source.slice(pos + 9, Math.max(pos + 9, end - 3));
+      top().children.push({ type: 'text', value, span: { start: pos, end } });
+      pos = end;
+    } else if (source.startsWith('<?', pos)) {
+      pos = skip(pos, '<?', '?>');
+    } else if (source.startsWith('<!', pos)) {
+      pos = skip(pos, '<!', '>');
+    } else if (source.startsWith('</', pos)) {
+      END_TAG.lastIndex = pos;
+      const match = END_TAG.exec(source);
+      if (!match) {
+        report('malformed-xml', `Unreadable end tag at position ${pos}`, { start: pos, end: pos + 2 });
+        pos += 2;
+        continue;
+      }
+      const end = pos + match[0].length;
+      const depth = stack.map((open) => open.qualifiedName).lastIndexOf(match[1]);
+      if (depth <= 0) {
+        report('malformed-xml', `Stray </${match[1]}> at position ${pos}`, { start: pos, end });
+      } else {
+        // Elements left open inside this one end here
+        while (stack.length - 1 > depth) {
+          report('malformed-xml', `<${top().qualifiedName}> is not closed`, { start: top().start, end: pos });
+          close(pos);
+        }
+        close(end);
+      }
+      pos = end;
+    } else if (source[pos] === '<') {
+      START_TAG.lastIndex = pos;
+      const match = START_TAG.exec(source);
+      if (!match) {
+        report('malformed-xml', `Unreadable tag at position ${pos}`, { start: pos, end: pos + 1 });
+        pos += 1;
+        continue;
+      }
+      const attributes: Record<string, string> = {};
+      for (const [, name, double, single] of match[2].matchAll(ATTRIBUTE)) {
+        attributes[name] = decodeEntities(double ?? single, pos, report);
+      }
+      stack.push({ name: localName(match[1]), qualifiedName: match[1], attributes, children: [], start: pos });
+      pos += match[0].length;
+      if (match[3]) close(pos);
+    } else {
+      const end = source.indexOf('<', pos) === -1 ? source.length : source.indexOf('<', pos);
+      const value = decodeEntities(source.slice(pos, end), pos, report);
+      top().children.push({ type: 'text', value, span: { start: pos, end } });
+      pos = end;
+    }
+  }
+
+  while (stack.length > 1) {
+    report('malformed-xml', `<${top().qualifiedName}> is not closed`, { start: top().start, end: source.length });
+    close(source.length);
+  }
+  return stack[0].children;
+}
+
+function localName(qualifiedName: string): string {
+  return qualifiedName.slice(qualifiedName.indexOf(':') + 1);
+}
+
+function decodeEntities(text: string, offset: number, report: Report): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (raw, name: string, index: number) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    const char = ENTITIES[name];
+    if (char === undefined) {
+      const start = offset + index;
+      report('unknown-entity', `Unknown entity ${raw}`, { start, end: start + raw.length });
+      return raw;
+    }
+    return char;
+  });
+}
+
+// =============================================================================
+// Tables
+// =============================================================================
+
+// Reverse of the serializer tables; the first spelling listed wins (≤ reads as \le)
+/**
+ * A run of digits, like the parts of a mixed number
+ */
+function isWholeNumber(n: MathNode | undefined): n is NumberNode {
+  return n?.kind === 'number' && /^[0-9]+$/.test(n.value);
+}
+
+function invert(table: Readonly<Record<string, string>>): Record<string, string> {
+  const inverted: Record<string, string> = {};
+  for (const [key, char] of Object.entries(table)) {
+    if (char && !(char in inverted)) inverted[char] = key;
+  }
+  return inverted;
+}
+
+const CHARACTER_COMMANDS = invert(COMMAND_CHARACTERS);
+const CHARACTER_LARGE_OPERATORS = invert(LARGE_OPERATOR_CHARACTERS);
+const CHARACTER_DELIMITERS = {
+  ...invert(DELIMITER_CHARACTERS),
+  '〈': '\\langle',
+  '〉': '\\rangle',
+  '∣': '|',
+  '∥': '\\|',
+} as Readonly<Record<string, Delimiter>>;
+
+const OPENING_DELIMITERS = new Set<Delimiter>(['(', '[', '{', '\\langle', '\\lfloor', '\\lceil']);
+const CLOSING_DELIMITERS = new Set<Delimiter>([')', ']', '}', '\\rangle', '\\rfloor', '\\rceil']);
+
+// Function application, invisible times, invisible separator, invisible plus
+const INVISIBLE_OPERATORS = new Set(['\u2061', '\u2062', '\u2063', '\u2064']);
+
+const PRIMES: Record<string, number> = { "'": 1, '′': 1, '″': 2, '‴': 3, '⁗': 4, "''": 2, '′′': 2 };
+
+const MATRIX_STYLES: Record<string, MatrixNode['style']> = {
+  '()': 'pmatrix',
+  '[]': 'bmatrix',
+  '{}': 'Bmatrix',
+  '||': 'vmatrix',
+  '\\|\\|': 'Vmatrix',
+};
+
+const FONT_VARIANTS: Record<string, FontNode['variant']> = {
+  'double-struck': 'mathbb',
+  script: 'mathcal',
+  fraktur: 'mathfrak',
+  bold: 'mathbf',
+  'sans-serif': 'mathsf',
+  monospace: 'mathtt',
+  italic: 'mathit',
+  'bold-italic': 'boldsymbol',
+};
+
+const ACCENTS: Record<string, AccentNode['accent']> = {
+  '^': 'hat', 'ˆ': 'hat', '\u0302': 'hat', 'ˇ': 'check', '~': 'tilde', '˜': 'tilde', '\u0303': 'tilde',
+  '´': 'acute', '`': 'grave', '˘': 'breve', '¯': 'bar', '→': 'vec', '⃗': 'vec', '˙': 'dot', '¨': 'ddot', '˚': 'mathring',
+};
+
+// Stretchy accents take the wide form
+const WIDE_ACCENTS: Record<string, AccentNode['accent']> = {
+  '^': 'widehat', 'ˆ': 'widehat', '\u0302': 'widehat', '~': 'widetilde', '˜': 'widetilde', '\u0303': 'widetilde',
+  '‾': 'overline', '¯': 'overline', '→': 'overrightarrow', '←': 'overleftarrow',
+};
+
+// Named and em widths of <mspace>, nearest wins
+const SPACE_WIDTHS: readonly [number, SpaceNode['size']][] = [
+  [0.1667, 'thin'],
+  [0.2222, 'medium'],
+  [0.2778, 'thick'],
+  [1, 'quad'],
+  [2, 'qquad'],
+];
+
+const NAMED_SPACES: Record<string, number> = {
+  veryverythinmathspace: 0.0556, verythinmathspace: 0.1111, thinmathspace: 0.1667,
+  mediummathspace: 0.2222, thickmathspace: 0.2778, verythickmathspace: 0.3333, veryverythickmathspace: 0.3889,
+};
+
+const DELIMITER_SIZES: readonly [number, NonNullable<ParensNode['size']>][] = [
+  [1.2, 'big'],
+  [1.8, 'Big'],
+  [2.4, 'bigg'],
+  [3, 'Bigg'],
+];
+
+// Grouping elements whose children join the surrounding row
+const ROW_ELEMENTS = new Set(['mrow', 'mstyle', 'mpadded', 'math']);
+
+// =============================================================================
+// Converter
+// =============================================================================
+
+/**
+ * A node in a row, with the delimiter it is when it is a fence <mo>
+ */
+interface Item {
+  readonly node: MathNode;
+  readonly delimiter?: Delimiter;
+  readonly size?: ParensNode['size'];
+}
+
+class MathMLConverter {
+  private diagnostics: MathMLDiagnostic[] = [];
+
+  constructor(private readonly source: string, private readonly recover: boolean) {}
+
+  getDiagnostics(): readonly MathMLDiagnostic[] {
+    return this.diagnostics;
+  }
+
+  readonly report: Report = (code, message, span) => {
+    if (!this.recover) {
+      throw new MathMLParseError(code, message, span);
+    }
+    this.diagnostics.push({ code, message, span });
+  };
+
+  convert(): MathNode {
+    const content = readXml(this.source, this.report);
+    // A <math> root, or a bare fragment of MathML elements
+    const math = content.find((c): c is XmlElement => c.type === 'element' && c.name === 'math');
+    return this.single(this.row(math ? math.children : content));
+  }
+
+  /**
+   * A row's worth of content as nodes, fences paired into parens
+   */
+  private row(content: readonly XmlContent[]): MathNode[] {
+    return this.groupFences(this.rowItems(content));
+  }
+
+  private rowItems(content: readonly XmlContent[]): Item[] {
+    const items: Item[] = [];
+    // After an invisible plus, a whole number and a fraction of whole numbers are a mixed number
+    let joined = false;
+    for (const c of content) {
+      if (c.type === 'element' && c.name === 'mo' && this.textOf(c) === '\u2064') {
+        joined = true;
+        continue;
+      }
+      const next = this.items(c);
+      const whole = items[items.length - 1]?.node;
+      const fraction = next.length === 1 ? next[0].node : undefined;
+      if (
+        joined && isWholeNumber(whole) && fraction?.kind === 'fraction' &&
+        isWholeNumber(fraction.numerator) && isWholeNumber(fraction.denominator)
+      ) {
+        items[items.length - 1] = { node: node.mixedNumber(whole, fraction.numerator, fraction.denominator) };
+      } else {
+        items.push(...next);
+      }
+      if (c.type === 'element') joined = false;
+    }
+    return items;
+  }
+
+  /**
+   * One element as a single node, for script bases, fraction parts and cells
+   */
+  private element(content: XmlContent): MathNode {
+    return this.single(this.row([content]));
+  }
+
+  private single(nodes: readonly MathNode[]): MathNode {
+    return nodes.length === 1 ? nodes[0] : node.row(nodes);
+  }
+
+  private children(el: XmlElement): XmlElement[] {
+    return this.elementsOf(el.children);
+  }
+
+  private elementsOf(content: readonly XmlContent[]): XmlElement[] {
+    const elements: XmlElement[] = [];
+    for (const c of content) {
+      if (c.type === 'element') {
+        elements.push(c);
+      } else if (c.value.trim() !== '') {
+        this.report('invalid-children', `Unexpected text "${c.value.trim()}"`, c.span);
+      }
+    }
+    return elements;
+  }
+
+  /**
+   * Text content of a token element, whitespace collapsed
+   */
+  private textOf(el: XmlElement): string {
+    return el.children
+      .map((c) => (c.type === 'text' ? c.value : this.textOf(c)))
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private unsupported(el: XmlElement, message: string): Item[] {
+    this.report('unsupported-element', message, el.span);
+    return this.contents(el);
+  }
+
+  /**
+   * What an element that cannot be read holds, the element itself dropped:
+   * its child elements, or else its text
+   */
+  private contents(el: XmlElement): Item[] {
+    const elements = el.children.filter((c): c is XmlElement => c.type === 'element');
+    if (elements.length > 0) return elements.flatMap((child) => this.items(child));
+    const text = this.textOf(el);
+    return text ? [{ node: node.text(text) }] : [];
+  }
+
+  /**
+   * Expect exactly `count` child elements
+   */
+  private arguments(el: XmlElement, count: number): MathNode[] | null {
+    const children = this.children(el);
+    if (children.length !== count) {
+      this.report('invalid-children', `<${el.name}> needs ${count} children, found ${children.length}`, el.span);
+      return null;
+    }
+    return children.map((child) => this.element(child));
+  }
+
+  private items(c: XmlContent): Item[] {
+    if (c.type === 'text') {
+      if (c.value.trim() !== '') {
+        this.report('invalid-children', `Unexpected text "${c.value.trim()}"`, c.span);
+      }
+      return [];
+    }
+
+    const items = this.elementItems(c);
+    const { mathcolor, mathbackground } = c.attributes;
+    if (!mathcolor && !mathbackground) return items;
+
+    let body = this.single(this.groupFences(items));
+    if (mathcolor) body = node.color('textcolor', mathcolor, body);
+    if (mathbackground) body = node.color('colorbox', mathbackground, body);
+    return [{ node: body }];
+  }
+
+  private elementItems(el: XmlElement): Item[] {
+    if (ROW_ELEMENTS.has(el.name)) {
+      return this.rowItems(this.children(el));
+    }
+
+    switch (el.name) {
+      case 'mi':
+        return this.identifier(el);
+      case 'mn':
+        return [{ node: this.withVariant(node.number(this.textOf(el)), el) }];
+      case 'mo':
+        return this.operator(el);
+      case 'mtext':
+      case 'ms': {
+        const text = this.textOf(el);
+        return text ? [{ node: node.text(text) }] : [];
+      }
+      case 'mspace':
+        return this.space(el);
+      case 'mfrac':
+        return this.fraction(el);
+      case 'msqrt':
+        return [{ node: node.sqrt(this.single(this.row(el.children))) }];
+      case 'mroot': {
+        const args = this.arguments(el, 2);
+        return args ? [{ node: node.sqrt(args[0], args[1]) }] : this.contents(el);
+      }
+      case 'msup':
+      case 'msub':
+      case 'msubsup':
+        return this.scripts(el);
+      case 'mover':
+      case 'munder':
+      case 'munderover':
+        return this.overUnder(el);
+      case 'mfenced':
+        return this.fenced(el);
+      case 'mtable':
+        return [{ node: this.table(el) }];
+      case 'semantics': {
+        // The presentation markup comes first, annotations after it
+        const [first] = this.children(el);
+        return first ? this.items(first) : [];
+      }
+      case 'maction': {
+        const selected = this.children(el)[Number(el.attributes.selection ?? 1) - 1];
+        return selected ? this.items(selected) : [];
+      }
+      case 'mphantom':
+        return [];
+      case 'merror':
+        return [{ node: node.error(this.textOf(el)) }];
+      default:
+        return this.unsupported(el, `Unsupported element <${el.name}>`);
+    }
+  }
+
+  private withVariant(n: MathNode, el: XmlElement): MathNode {
+    const variant = FONT_VARIANTS[el.attributes.mathvariant ?? ''];
+    return variant ? node.font(variant, n) : n;
+  }
+
+  /**
+   * Node for a character written in an <mi> or <mo>: ≤ → \leq, α → \alpha
+   */
+  private characterNode(char: string): MathNode {
+    // Characters LaTeX escapes (\& \{) are symbols, which are written escaped
+    if (['{', '}', '&', '#', '$', '_'].includes(char)) return node.symbol(char);
+    const command = CHARACTER_COMMANDS[char];
+    if (command === undefined) return node.operator(char);
+    // Non-letter values (− is -) are operators as they are
+    return /^[a-zA-Z]+$/.test(command) ? parseLatex(`\\${command}`) : node.operator(command);
+  }
+
+  private identifier(el: XmlElement): Item[] {
+    const text = this.textOf(el);
+    if (text === '') return [];
+    if (el.attributes.class?.split(/\s+/).includes('pmf-placeholder') || text === '⬚') {
+      return [{ node: node.placeholder() }];
+    }
+
+    let n: MathNode;
+    if ([...text].length === 1) {
+      n = /^[a-zA-Z]$/.test(text) ? node.symbol(text) : this.characterNode(text);
+    } else if (FUNCTIONS.has(text) || LIMIT_FUNCTIONS.has(text)) {
+      n = node.function(text);
+    } else {
+      n = node.text(text);
+    }
+    return [{ node: this.withVariant(n, el) }];
+  }
+
+  private operator(el: XmlElement): Item[] {
+    const text = this.textOf(el);
+    if (text === '' || INVISIBLE_OPERATORS.has(text)) return [];
+
+    const largeOperator = CHARACTER_LARGE_OPERATORS[text];
+    if (largeOperator) return [{ node: node.function(largeOperator) }];
+
+    const delimiter = CHARACTER_DELIMITERS[text];
+    if (delimiter && el.attributes.fence !== 'false') {
+      // Left without a partner, a delimiter stands for itself
+      return [{ node: this.characterNode(text), delimiter, size: this.fenceSize(el) }];
+    }
+    return [{ node: this.characterNode(text) }];
+  }
+
+  /**
+   * \left-style fences stretch; minsize picks a \big size; stretchy="false" is plain
+   */
+  private fenceSize(el: XmlElement): ParensNode['size'] {
+    const { stretchy, fence, minsize } = el.attributes;
+    if (minsize) {
+      const em = parseFloat(minsize);
+      return DELIMITER_SIZES.reduce((best, size) => (Math.abs(size[0] - em) < Math.abs(best[0] - em) ? size : best))[1];
+    }
+    if (stretchy === 'false') return undefined;
+    if (stretchy === 'true' || fence === 'true') return 'auto';
+    return undefined;
+  }
+
+  private space(el: XmlElement): Item[] {
+    const width = el.attributes.width ?? '';
+    const em = NAMED_SPACES[width] ?? (/^[\d.]+em$/.test(width) ? parseFloat(width) : NaN);
+    if (!(em > 0)) return [];
+    const [, size] = SPACE_WIDTHS.reduce((best, entry) => (Math.abs(entry[0] - em) < Math.abs(best[0] - em) ? entry : best));
+    return [{ node: node.space(size) }];
+  }
+
+  private fraction(el: XmlElement): Item[] {
+    const args = this.arguments(el, 2);
+    if (!args) return this.contents(el);
+    // A fraction without a bar is a binomial; its parentheses come from the row around it
+    if (/^0(\.0*)?([a-z]+)?$/.test(el.attributes.linethickness ?? '')) {
+      return [{ node: node.binom(args[0], args[1]) }];
+    }
+    return [{ node: node.fraction(args[0], args[1]) }];
+  }
+
+  private scripts(el: XmlElement): Item[] {
+    const count = el.name === 'msubsup' ? 3 : 2;
+    const args = this.arguments(el, count);
+    if (!args) return this.contents(el);
+    const [base, first, second] = args;
+
+    // \sum_a^b and \int_a^b: scripts on a large operator are its limits
+    if (base.kind === 'function' && !base.limits) {
+      if (el.name === 'msup') return [{ node: node.function(base.name, undefined, { upper: first }) }];
+      if (el.name === 'msub') return [{ node: node.function(base.name, undefined, { lower: first }) }];
+      return [{ node: node.function(base.name, undefined, { lower: first, upper: second }) }];
+    }
+
+    if (el.name === 'msub') return [{ node: node.subscript(base, first) }];
+    const superscript = el.name === 'msup' ? first : second;
+    const primes = this.primeCount(superscript);
+    if (el.name === 'msup') {
+      return [{ node: primes ? node.prime(base, primes) : node.power(base, first) }];
+    }
+    if (primes) return [{ node: node.prime(node.subscript(base, first), primes) }];
+    return [{ node: node.subsup(base, first, second) }];
+  }
+
+  private primeCount(n: MathNode): number {
+    if (n.kind === 'symbol' && n.value === 'prime') return 1;
+    if (n.kind === 'operator') return PRIMES[n.value] ?? 0;
+    return 0;
+  }
+
+  private overUnder(el: XmlElement): Item[] {
+    const count = el.name === 'munderover' ? 3 : 2;
+    const children = this.children(el);
+    const args = this.arguments(el, count);
+    if (!args) return this.contents(el);
+    const [base, first, second] = args;
+
+    // Limits of \sum and \lim
+    if (base.kind === 'function' && !base.limits && (LARGE_OPERATORS.has(base.name) || LIMIT_FUNCTIONS.has(base.name))) {
+      if (el.name === 'mover') return [{ node: node.function(base.name, undefined, { upper: first }) }];
+      if (el.name === 'munder') return [{ node: node.function(base.name, undefined, { lower: first }) }];
+      return [{ node: node.function(base.name, undefined, { lower: first, upper: second }) }];
+    }
+
+    if (el.name === 'munderover') {
+      return [{ node: node.overunder('overset', node.overunder('underset', base, undefined, first), second) }];
+    }
+
+    const mark = children[1].name === 'mo' ? this.textOf(children[1]) : '';
+    const stretchy = children[1].attributes.stretchy === 'true';
+    if (el.name === 'mover') {
+      if (mark === '⏞') return [{ node: node.overunder('overbrace', base) }];
+      // A label over \overbrace
+      if (base.kind === 'overunder' && base.command === 'overbrace' && !base.over) {
+        return [{ node: node.overunder('overbrace', base.body, first) }];
+      }
+      const accent = (stretchy && WIDE_ACCENTS[mark]) || ACCENTS[mark] || WIDE_ACCENTS[mark];
+      if (accent) return [{ node: node.accent(accent, base) }];
+      return [{ node: node.overunder('overset', base, first) }];
+    }
+
+    if (mark === '⏟') return [{ node: node.overunder('underbrace', base) }];
+    if (base.kind === 'overunder' && base.command === 'underbrace' && !base.under) {
+      return [{ node: node.overunder('underbrace', base.body, undefined, first) }];
+    }
+    if (mark === '‾' || mark === '_' || mark === '¯') return [{ node: node.accent('underline', base) }];
+    return [{ node: node.overunder('underset', base, undefined, first) }];
+  }
+
+  /**
+   * <mfenced open="[" close="]" separators=";">: separators between the children
+   */
+  private fenced(el: XmlElement): Item[] {
+    const { open = '(', close = ')', separators = ',' } = el.attributes;
+    const seps = separators.replace(/\s+/g, '');
+    const content: MathNode[] = [];
+    this.children(el).forEach((child, i) => {
+      if (i > 0 && seps) content.push(this.characterNode(seps[Math.min(i - 1, seps.length - 1)]));
+      content.push(this.element(child));
+    });
+    const openDelimiter = open === '' ? '.' : CHARACTER_DELIMITERS[open];
+    const closeDelimiter = close === '' ? '.' : CHARACTER_DELIMITERS[close];
+    if (!openDelimiter || !closeDelimiter) {
+      return this.unsupported(el, `Unsupported <mfenced> delimiters ${open} ${close}`);
+    }
+    return [{ node: this.parens(openDelimiter, closeDelimiter, 'auto', content) }];
+  }
+
+  private table(el: XmlElement): MathNode {
+    const rows = this.children(el)
+      .filter((tr) => tr.name === 'mtr' || tr.name === 'mlabeledtr')
+      .map((tr) => {
+        // The first cell of <mlabeledtr> is the equation label
+        const cells = this.children(tr).slice(tr.name === 'mlabeledtr' ? 1 : 0);
+        return cells.map((td) => this.single(this.row(td.children)));
+      });
+
+    // Alternating right/left columns are aligned (align*) content
+    const align = (el.attributes.columnalign ?? '').trim().split(/\s+/).filter(Boolean);
+    if (align.length > 1 && align.every((a, i) => a === (i % 2 === 0 ? 'right' : 'left'))) {
+      return node.aligned(rows);
+    }
+    if (align.length > 0 && align.some((a) => a !== 'center')) {
+      return node.matrix(rows, 'array', align.map((a) => a[0]).join(''));
+    }
+    return node.matrix(rows);
+  }
+
+
+  /**
+   * Pair fence <mo>s into parens: ( ... ) and mismatched [ ... ) alike.
+   * A brace before a table is a cases environment.
+   */
+  private groupFences(items: readonly Item[]): MathNode[] {
+    const result: MathNode[] = [];
+    let i = 0;
+    while (i < items.length) {
+      const item = items[i];
+      if (item.delimiter && !CLOSING_DELIMITERS.has(item.delimiter)) {
+        const close = this.findClose(items, i);
+        if (close !== -1) {
+          const content = this.groupFences(items.slice(i + 1, close));
+          result.push(this.parens(item.delimiter, items[close].delimiter!, item.size ?? items[close].size, content));
+          i = close + 1;
+          continue;
+        }
+        const next = items[i + 1]?.node;
+        if (item.delimiter === '{' && next?.kind === 'matrix') {
+          result.push(node.cases(casesRows(next.rows)));
+          i += 2;
+          continue;
+        }
+      }
+      const previous = result[result.length - 1];
+      if (item.delimiter === '}' && previous?.kind === 'matrix') {
+        result[result.length - 1] = node.cases(casesRows(previous.rows), 'rcases');
+        i += 1;
+        continue;
+      }
+      result.push(item.node);
+      i += 1;
+    }
+    return result;
+  }
+
+  /**
+   * Index of the delimiter closing the one at `open`, or -1
+   */
+  private findClose(items: readonly Item[], open: number): number {
+    const opener = items[open].delimiter!;
+    let depth = 0;
+    for (let j = open + 1; j < items.length; j++) {
+      const delimiter = items[j].delimiter;
+      if (!delimiter) continue;
+      if (OPENING_DELIMITERS.has(delimiter)) {
+        depth++;
+      } else if (CLOSING_DELIMITERS.has(delimiter)) {
+        if (depth === 0) return j;
+        depth--;
+      } else if (depth === 0 && delimiter === opener) {
+        // | and ‖ close the bar that opened them
+        return j;
+      }
+    }
+    return -1;
+  }
+
+  private parens(open: Delimiter, close: Delimiter, size: ParensNode['size'], content: readonly MathNode[]): MathNode {
+    const body = this.single(content);
+    // Matrices and binomials carry their own delimiters
+    const matrixStyle = MATRIX_STYLES[open + close];
+    if (body.kind === 'matrix' && body.style === 'matrix' && matrixStyle) {
+      return node.matrix(body.rows, matrixStyle);
+    }
+    if (body.kind === 'binom' && open === '(' && close === ')') {
+      return body;
+    }
+    return node.parens(body, open, close, size);
+  }
+}
+
+/**
+ * Table rows as value/condition pairs
+ */
+function casesRows(rows: readonly (readonly MathNode[])[]): CasesNode['rows'] {
+  return rows.map((row) => [row[0] ?? node.row([]), node.row(row.slice(1))] as const);
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Parse Presentation MathML into an AST
+ *
+ * Accepts a <math> element (namespace prefixes allowed) or a bare fragment.
+ * Throws a MathMLParseError on the first malformed or unsupported construct.
+ */
+export function parseMathML(xml: string): MathNode {
+  return new MathMLConverter(xml, false).convert();
+}
+
+/**
+ * Parse Presentation MathML without giving up on errors
+ *
+ * Unsupported or malformed elements (menclose, mmultiscripts, ...) are read
+ * as what they hold, and each problem is listed in `diagnostics` with a
+ * code, message and source span.
+ */
+export function parseMathMLWithDiagnostics(xml: string): MathMLParseResult {
+  const converter = new MathMLConverter(xml, true);
+  const ast = converter.convert();
+  return { ast, diagnostics: converter.getDiagnostics() };
+}
@@ -7,9 +7,16 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { parseLatex } from './latex-to-ast';
+import { parseLatex, parseLatexWithDiagnostics, LatexParseError } from './latex-to-ast';
 import { serializeToLatex } from './ast-to-latex';
-import { node, nodesEqual } from '../core/ast';
+import { formatLatex } from './format-latex';
+import { serializeToMathML } from './ast-to-mathml';
+import { parseMathML, parseMathMLWithDiagnostics, MathMLParseError } from './mathml-to-ast';
+import { toMathJSON, fromMathJSON, fromMathJSONWithDiagnostics, MathJSONError, MathJSON } from './mathjson';
+import { parseAsciiMath, serializeToAsciiMath, isLatexSource } from './asciimath';
+import { serializeToUnicode } from './ast-to-unicode';
+import { node, nodesEqual, mapChildren, normalizeForEditor, MathNode } from '../core/ast';
+import { commonMacros } from '../renderer/katex-renderer';
 
 // =============================================================================
 // Helper Functions
@@ -109,6 +116,49 @@ describe('Parser: Fractions', () => {
     const result = roundTrip('\\frac{\\frac{1}{2}}{3}');
     expect(result).toContain('\\frac{\\frac{1}{2}}{3}');
   });
+
+  it('parses fraction styles', () => {
+    expect(parseLatex('\\dfrac{1}{2}')).toMatchObject({ kind: 'fraction', style: 'dfrac' });
+    expect(parseLatex('\\frac{1}{2}')).not.toHaveProperty('style');
+    expect(roundTrip('\\tfrac{a}{b}')).toBe('\\tfrac{a}{b}');
+    expect(roundTrip('1+\\cfrac{1}{1+\\cfrac{1}{x}}')).toBe('1+\\cfrac{1}{1+\\cfrac{1}{x}}');
+    expect(astEqual('\\dfrac{1}{2}', '\\frac{1}{2}')).toBe(false);
+  });
+
+  it('keeps a styled fraction after a number out of mixed numbers', () => {
+    expect(parseLatex('2\\dfrac{3}{4}')).toMatchObject({ kind: 'row', children: [{ kind: 'number' }, { kind: 'fraction' }] });
+  });
+});
+
+describe('Parser: Mixed Numbers and Repeating Decimals', () => {
+  it('parses a whole number before a fraction as a mixed number', () => {
+    expect(parseLatex('2\\frac{3}{4}')).toEqual(
+      node.mixedNumber(node.number('2'), node.number('3'), node.number('4'))
+    );
+    expect(roundTrip('1+2\\frac{3}{4}')).toBe('1+2\\frac{3}{4}');
+  });
+
+  it('keeps a product with a non-numeric fraction as a row', () => {
+    expect(parseLatex('2\\frac{x}{4}').kind).toBe('row');
+    expect(parseLatex('x\\frac{3}{4}').kind).toBe('row');
+    expect(parseLatex('2.5\\frac{3}{4}').kind).toBe('row');
+  });
+
+  it('parses an overlined block after a decimal as a repeating decimal', () => {
+    expect(parseLatex('0.\\overline{3}')).toEqual(
+      node.repeatingDecimal(node.number('0.'), node.number('3'))
+    );
+    expect(roundTrip('0.1\\overline{6}')).toBe('0.1\\overline{6}');
+    expect(parseLatex('x\\overline{3}').kind).toBe('row');
+  });
+
+  it('spans the whole mixed number', () => {
+    const latex = 'x=2\\frac{1}{2}';
+    const ast = parseLatex(latex, { positions: true });
+    const mixed = ast.kind === 'row' ? ast.children[2] : ast;
+    expect(mixed.kind).toBe('mixedNumber');
+    expect(latex.slice(mixed.span!.start, mixed.span!.end)).toBe('2\\frac{1}{2}');
+  });
 });
 
 describe('Parser: Powers and Subscripts', () => {
@@ -140,6 +190,26 @@ describe('Parser: Powers and Subscripts', () => {
   });
 });
 
+describe('Parser: Primes', () => {
+  it('counts prime marks on the base', () => {
+    expect(parseLatex("f''")).toEqual(node.prime(node.symbol('f'), 2));
+    expect(roundTrip("f'(x)")).toBe("f'(x)");
+    expect(roundTrip("y''+y'=0")).toBe("y''+y'=0");
+  });
+
+  it('reads \\prime superscripts as marks', () => {
+    expect(astEqual('f^{\\prime}', "f'")).toBe(true);
+    expect(astEqual('f^{\\prime\\prime}', "f''")).toBe(true);
+    expect(roundTrip('g^\\prime(t)')).toBe("g'(t)");
+  });
+
+  it('combines with scripts', () => {
+    expect(parseLatex("f'^2")).toMatchObject({ kind: 'power', base: { kind: 'prime', count: 1 } });
+    expect(roundTrip("f_1'")).toBe("f_1'");
+    expect(roundTrip("f'_1")).toBe("f'_1");
+  });
+});
+
 describe('Parser: Square Roots', () => {
   it('parses simple sqrt', () => {
     expect(roundTrip('\\sqrt{x}')).toBe('\\sqrt{x}');
@@ -161,6 +231,133 @@ describe('Parser: Square Roots', () => {
   });
 });
 
+describe('Parser: Accents', () => {
+  it('parses braced and unbraced accents', () => {
+    expect(roundTrip('\\hat{p}')).toBe('\\hat{p}');
+    expect(roundTrip('\\vec v')).toBe('\\vec{v}');
+    expect(roundTrip('\\bar\\alpha')).toBe('\\bar{\\alpha}');
+  });
+
+  it('builds an accent node around the body', () => {
+    const ast = parseLatex('\\overline{AB}');
+    expect(ast.kind).toBe('accent');
+    if (ast.kind === 'accent') {
+      expect(ast.accent).toBe('overline');
+      expect(ast.body.kind).toBe('row');
+    }
+  });
+
+  it('attaches scripts to the accent', () => {
+    expect(roundTrip('\\hat{x}^2')).toBe('\\hat{x}^2');
+    expect(parseLatex('\\bar{x}_i').kind).toBe('subscript');
+  });
+
+  it('distinguishes accents in nodesEqual', () => {
+    expect(astEqual('\\hat{x}', '\\hat x')).toBe(true);
+    expect(astEqual('\\hat{x}', '\\bar{x}')).toBe(false);
+  });
+});
+
+describe('Parser: Font Styles', () => {
+  it('round-trips font commands', () => {
+    expect(roundTrip('\\mathbb{R}')).toBe('\\mathbb{R}');
+    expect(roundTrip('\\mathcal F')).toBe('\\mathcal{F}');
+    expect(roundTrip('\\mathbf{v}+\\boldsymbol{\\alpha}')).toBe('\\mathbf{v}+\\boldsymbol{\\alpha}');
+  });
+
+  it('wraps an editable body', () => {
+    const ast = parseLatex('\\mathfrak{gl}');
+    expect(ast).toMatchObject({ kind: 'font', variant: 'mathfrak', body: { kind: 'row' } });
+  });
+
+  it('expands number-set shorthands', () => {
+    expect(astEqual('\\R', '\\mathbb{R}')).toBe(true);
+    expect(roundTrip('x\\in\\Z^{+}')).toBe('x\\in \\mathbb{Z}^+');
+  });
+});
+
+describe('Parser: Over/Under', () => {
+  it('round-trips the five commands', () => {
+    expect(roundTrip('\\overset{def}{=}')).toBe('\\overset{def}{=}');
+    expect(roundTrip('\\underset{n}{\\max}')).toBe('\\underset{n}{\\max}');
+    expect(roundTrip('\\stackrel{?}{=}')).toBe('\\stackrel{?}{=}');
+    expect(roundTrip('\\overbrace{a+b}^{n}')).toBe('\\overbrace{a+b}^{n}');
+    expect(roundTrip('\\underbrace{x\\cdot x}_{\\text{factor}}')).toBe('\\underbrace{x\\cdot x}_{\\text{factor}}');
+  });
+
+  it('puts annotations in the over/under slots', () => {
+    expect(parseLatex('\\underset{a}{b}')).toMatchObject({
+      kind: 'overunder',
+      body: { kind: 'symbol', value: 'b' },
+      under: { kind: 'symbol', value: 'a' },
+    });
+    const brace = parseLatex('\\underbrace{x}_{2}');
+    expect(brace).toMatchObject({ kind: 'overunder', under: { kind: 'number', value: '2' } });
+    expect(brace.kind === 'overunder' && brace.over).toBeFalsy();
+  });
+
+  it('allows braces without a label', () => {
+    expect(roundTrip('\\overbrace{xyz}')).toBe('\\overbrace{xyz}');
+  });
+});
+
+describe('Parser: Colors', () => {
+  it('round-trips the four commands', () => {
+    expect(roundTrip('\\textcolor{red}{x+1}')).toBe('\\textcolor{red}{x+1}');
+    expect(roundTrip('\\colorbox{yellow}{$a^2$}')).toBe('\\colorbox{yellow}{$a^2$}');
+    expect(roundTrip('\\fcolorbox{red}{white}{$x$}')).toBe('\\fcolorbox{red}{white}{$x$}');
+    expect(roundTrip('\\textcolor{#ff8800}{y}')).toBe('\\textcolor{#ff8800}{y}');
+  });
+
+  it('keeps the frame and background colors of \\fcolorbox apart', () => {
+    expect(parseLatex('\\fcolorbox{red}{white}{$x$}')).toMatchObject({
+      kind: 'color',
+      command: 'fcolorbox',
+      color: 'white',
+      frameColor: 'red',
+      body: { kind: 'symbol', value: 'x' },
+    });
+  });
+
+  it('colors the rest of the group with \\color', () => {
+    expect(parseLatex('a+\\color{blue}b+c')).toMatchObject({
+      kind: 'row',
+      children: [{}, {}, { kind: 'color', color: 'blue', body: { kind: 'row' } }],
+    });
+    expect(roundTrip('x{\\color{red}y}z')).toBe('x{\\color{red}y}z');
+  });
+
+  it('reads plain box content as text', () => {
+    expect(parseLatex('\\colorbox{yellow}{note}')).toMatchObject({
+      kind: 'color',
+      body: { kind: 'text', value: 'note' },
+    });
+    expect(roundTrip('\\colorbox{yellow}{note}')).toBe('\\colorbox{yellow}{note}');
+  });
+});
+
+describe('Parser: Binomials', () => {
+  it('round-trips the three variants', () => {
+    expect(roundTrip('\\binom{n}{k}')).toBe('\\binom{n}{k}');
+    expect(roundTrip('\\dbinom{n}{k}')).toBe('\\dbinom{n}{k}');
+    expect(roundTrip('\\tbinom{n+1}{2}')).toBe('\\tbinom{n+1}{2}');
+  });
+
+  it('parses the infix \\choose form', () => {
+    expect(parseLatex('{n \\choose k}')).toMatchObject({
+      kind: 'binom',
+      variant: 'binom',
+      top: { kind: 'symbol', value: 'n' },
+      bottom: { kind: 'symbol', value: 'k' },
+    });
+    expect(roundTrip('{n+1 \\choose k}')).toBe('\\binom{n+1}{k}');
+  });
+
+  it('limits \\choose to the enclosing group', () => {
+    expect(roundTrip('x{a \\choose b}+1')).toBe('x\\binom{a}{b}+1');
+  });
+});
+
 describe('Parser: Parentheses', () => {
   it('parses simple parentheses', () => {
     const result = roundTrip('(x+1)');
@@ -185,6 +382,85 @@ describe('Parser: Parentheses', () => {
     expect(result).toContain('\\left');
     expect(result).toContain('\\right');
   });
+
+  it('parses explicitly sized delimiter pairs', () => {
+    const ast = parseLatex('\\Bigl(x+1\\Bigr)');
+    expect(ast).toMatchObject({ kind: 'parens', open: '(', close: ')', size: 'Big' });
+    expect(roundTrip('\\bigl[x\\bigr]')).toBe('\\bigl[x\\bigr]');
+    expect(roundTrip('\\Biggl\\lfloor x\\Biggr\\rfloor')).toBe('\\Biggl\\lfloor x\\Biggr\\rfloor');
+  });
+
+  it('pairs plain sizing commands as written and nests sizes', () => {
+    expect(parseLatex('\\big( a \\big)')).toMatchObject({ kind: 'parens', open: '(', close: ')', size: 'big' });
+    expect(roundTrip('\\big( a \\big)')).toBe('\\big(a\\big)');
+    expect(roundTrip('\\Big| x \\Big|')).toBe('\\Big|x\\Big|');
+    expect(roundTrip('\\bigl( x \\big)')).toBe('\\bigl(x\\big)');
+    expect(roundTrip('\\biggl(\\bigl(a\\bigr)b\\biggr)')).toBe('\\biggl(\\bigl(a\\bigr)b\\biggr)');
+  });
+
+  it('parses a lone sized delimiter with scripts', () => {
+    const ast = parseLatex('x^2\\Big|_0^1');
+    expect(ast).toMatchObject({
+      kind: 'row',
+      children: [{ kind: 'power' }, { kind: 'subsup', base: { kind: 'parens', open: '.', close: '|', size: 'Big' } }],
+    });
+    expect(serializeToLatex(ast)).toBe('x^2\\Big|_0^1');
+  });
+
+  it('keeps a plain sized delimiter without a closer in its row standalone', () => {
+    expect(parseLatex('P(A \\big| B)')).toMatchObject({
+      kind: 'row',
+      children: [
+        { kind: 'symbol', value: 'P' },
+        {
+          kind: 'parens',
+          open: '(',
+          content: { kind: 'row', children: [{ kind: 'symbol' }, { kind: 'parens', open: '.', close: '|' }, { kind: 'symbol' }] },
+        },
+      ],
+    });
+    expect(roundTrip('P(A \\big| B)')).toBe('P(A\\big|B)');
+    expect(roundTrip('\\left( a \\big| b \\right)')).toBe('\\left(a\\big|b\\right)');
+  });
+
+  it('keeps sizing commands as written when they do not form a pair', () => {
+    expect(roundTrip('\\bigl( x \\Bigr)')).toBe('\\bigl(x\\Bigr)');
+    expect(roundTrip('\\Big[')).toBe('\\Big[');
+    expect(roundTrip('\\bigm|')).toBe('\\bigm|');
+    expect(roundTrip('\\left\\{x\\bigm|x>0\\right\\}')).toBe('\\left\\{x\\bigm|x>0\\right\\}');
+  });
+
+  it('accepts every delimiter a sizing command takes', () => {
+    expect(parseLatex('a \\big/ b')).toMatchObject({
+      kind: 'row',
+      children: [{ kind: 'symbol' }, { kind: 'parens', open: '.', close: '/', size: 'big' }, { kind: 'symbol' }],
+    });
+    expect(roundTrip('a \\big/ b')).toBe('a\\big/b');
+    expect(roundTrip('\\Big\\uparrow')).toBe('\\Big\\uparrow');
+    expect(roundTrip('\\bigl\\lgroup x\\bigr\\rgroup')).toBe('\\bigl\\lgroup x\\bigr\\rgroup');
+  });
+
+  it('reports a sized opening delimiter without a closer', () => {
+    expect(() => parseLatex('\\bigl( x')).toThrow(LatexParseError);
+    const { ast, diagnostics } = parseLatexWithDiagnostics('\\bigl( x');
+    expect(diagnostics.map((d) => d.code)).toEqual(['unbalanced-delimiter']);
+    expect(serializeToLatex(ast)).toBe('\\bigl(x');
+  });
+
+  it('parses null delimiters', () => {
+    expect(parseLatex('\\left.\\frac{dy}{dx}\\right|_{x=0}')).toMatchObject({
+      kind: 'subscript',
+      base: { kind: 'parens', open: '.', close: '|', size: 'auto' },
+    });
+    expect(roundTrip('\\left\\{x\\right.')).toBe('\\left\\{x\\right.');
+  });
+
+  it('parses mismatched delimiters for half-open intervals', () => {
+    expect(parseLatex('\\left[0,1\\right)')).toMatchObject({ kind: 'parens', open: '[', close: ')' });
+    expect(roundTrip('\\left[0,1\\right)')).toBe('\\left[0,1\\right)');
+    expect(roundTrip('\\left\\langle u,v\\right\\rangle')).toBe('\\left\\langle u,v\\right\\rangle');
+    expect(roundTrip('\\left\\|x\\right\\|')).toBe('\\left\\|x\\right\\|');
+  });
 });
 
 // =============================================================================
@@ -198,6 +474,11 @@ describe('Parser: Functions', () => {
     expect(roundTrip('\\tan x')).toContain('\\tan');
   });
 
+  it('keeps a space between a function name and a letter', () => {
+    expect(roundTrip('\\sin x')).toBe('\\sin x');
+    expect(roundTrip('\\alpha x')).toBe('\\alpha x');
+  });
+
   it('parses log functions', () => {
     expect(roundTrip('\\log x')).toContain('\\log');
     expect(roundTrip('\\ln x')).toContain('\\ln');
@@ -206,6 +487,30 @@ describe('Parser: Functions', () => {
   it('parses limit', () => {
     expect(roundTrip('\\lim')).toContain('\\lim');
   });
+
+  it('parses \\operatorname into a function', () => {
+    expect(parseLatex('\\operatorname{Var}')).toMatchObject({ kind: 'function', name: 'Var' });
+    expect(roundTrip('\\operatorname{sgn}(x)')).toBe('\\operatorname{sgn}(x)');
+    // Built-in names go back to their own command, unless KaTeX lacks it
+    expect(roundTrip('\\operatorname{gcd}')).toBe('\\gcd');
+    expect(roundTrip('\\operatorname{lcm}')).toBe('\\operatorname{lcm}');
+    expect(roundTrip('\\lcm(a,b)')).toBe('\\operatorname{lcm}(a,b)');
+  });
+
+  it('keeps the starred form with its limits', () => {
+    const ast = parseLatex('\\operatorname*{arg max}_{x}');
+    expect(ast).toMatchObject({ kind: 'subscript', base: { kind: 'function', name: 'argmax', starred: true } });
+    expect(serializeToLatex(ast)).toBe('\\operatorname*{argmax}_x');
+  });
+
+  it('respects registered function names', () => {
+    expect(parseLatex('\\sgn', { functions: ['sgn'] })).toMatchObject({ kind: 'function', name: 'sgn' });
+    const ast = parseLatex('\\operatorname{sgn}');
+    expect(serializeToLatex(ast, { functions: ['sgn'] })).toBe('\\sgn');
+    expect(serializeToLatex(ast)).toBe('\\operatorname{sgn}');
+    const withArg = parseLatex('\\sgn x', { functions: ['sgn'] });
+    expect(serializeToLatex(withArg, { functions: ['sgn'] })).toBe('\\sgn x');
+  });
 });
 
 describe('Parser: Large Operators', () => {
@@ -226,6 +531,15 @@ describe('Parser: Large Operators', () => {
     expect(result).toContain('\\int');
   });
 
+  it('keeps \\lim subscripts as limits', () => {
+    expect(parseLatex('\\lim_{x\\to 0}')).toMatchObject({
+      kind: 'function',
+      name: 'lim',
+      limits: { lower: { kind: 'row' } },
+    });
+    expect(roundTrip('\\lim_{n\\to\\infty}a_n')).toBe('\\lim_{n\\to \\infty }a_n');
+  });
+
   it('parses integral with limits', () => {
     const result = roundTrip('\\int_0^1');
     expect(result).toContain('\\int');
@@ -287,6 +601,89 @@ describe('Parser: Matrices', () => {
   });
 });
 
+describe('Parser: Cases', () => {
+  it('round-trips cases, dcases and rcases', () => {
+    const latex = '\\begin{cases}x & x\\ge 0 \\\\ -x & x<0\\end{cases}';
+    expect(roundTrip(latex)).toBe(latex);
+    expect(roundTrip('\\begin{dcases}1 & n=0\\end{dcases}')).toBe('\\begin{dcases}1 & n=0\\end{dcases}');
+    expect(roundTrip('\\begin{rcases}a & b\\end{rcases}')).toBe('\\begin{rcases}a & b\\end{rcases}');
+  });
+
+  it('pads a missing condition with a placeholder', () => {
+    const ast = parseLatex('\\begin{cases}0 \\\\ 1 & x>0\\end{cases}');
+    expect(ast).toMatchObject({
+      kind: 'cases',
+      rows: [
+        [{ kind: 'number', value: '0' }, { kind: 'placeholder' }],
+        [{ kind: 'number', value: '1' }, { kind: 'row' }],
+      ],
+    });
+  });
+
+  it('reports a third column', () => {
+    expect(() => parseLatex('\\begin{cases}a & b & c\\end{cases}')).toThrow(LatexParseError);
+    const { ast, diagnostics } = parseLatexWithDiagnostics('\\begin{cases}a & b & c\\end{cases}');
+    expect(diagnostics.map((d) => d.code)).toEqual(['unexpected-token']);
+    expect(serializeToLatex(ast)).toBe('\\begin{cases}a & b\\end{cases}');
+  });
+});
+
+describe('Parser: Aligned', () => {
+  it('round-trips lines with alignment points', () => {
+    const latex = '\\begin{aligned}x&=1+1 \\\\ &=2\\end{aligned}';
+    expect(roundTrip(latex)).toBe(latex);
+    expect(roundTrip('\\begin{align*}a&=b\\end{align*}')).toBe('\\begin{align*}a&=b\\end{align*}');
+    expect(roundTrip('\\begin{split}a&=b \\\\ &=c\\end{split}')).toBe('\\begin{split}a&=b \\\\ &=c\\end{split}');
+  });
+
+  it('keeps an empty cell before a leading &', () => {
+    const ast = parseLatex('\\begin{aligned}x&=1 \\\\ &=2\\end{aligned}');
+    expect(ast.kind === 'aligned' && ast.rows.map((row) => row.length)).toEqual([2, 2]);
+    expect(ast.kind === 'aligned' && ast.rows[1][0].kind).toBe('placeholder');
+  });
+
+  it('parses gathered lines as single cells', () => {
+    const ast = parseLatex('\\begin{gathered}a \\\\ b \\\\\\end{gathered}');
+    expect(ast).toMatchObject({ kind: 'aligned', style: 'gathered' });
+    expect(ast.kind === 'aligned' && ast.rows.length).toBe(2);
+    expect(parseLatexWithDiagnostics('\\begin{gathered}a & b\\end{gathered}').diagnostics).toHaveLength(1);
+  });
+});
+
+describe('Parser: Macros', () => {
+  const macros = { ...commonMacros, '\\vect': '\\mathbf{#1}' };
+
+  it('keeps registered macros as macro nodes by default', () => {
+    expect(parseLatex('\\R^n', { macros })).toMatchObject({
+      kind: 'power',
+      base: { kind: 'macro', name: 'R', args: [] },
+    });
+    expect(parseLatex('\\vect{x}', { macros })).toEqual(node.macro('vect', ['x']));
+  });
+
+  it('serializes the macro rather than its expansion', () => {
+    expect(serializeToLatex(parseLatex('x\\in\\R^n', { macros }))).toBe('x\\in \\R^n');
+    expect(serializeToLatex(parseLatex('\\vect v+\\vect{w}', { macros }))).toBe('\\vect{v}+\\vect{w}');
+  });
+
+  it('expands macros when asked to', () => {
+    const expanded = parseLatex('\\vect{x}', { macros, macroMode: 'expand' });
+    expect(nodesEqual(expanded, parseLatex('\\mathbf{x}'))).toBe(true);
+    expect(serializeToLatex(parseLatex('\\eps', { macros, macroMode: 'expand' }))).toBe('\\varepsilon');
+  });
+
+  it('expands \\newcommand definitions from the input', () => {
+    expect(roundTrip('\\newcommand{\\sq}[1]{#1^2}\\sq{x}+\\sq y')).toBe('x^2+y^2');
+    expect(roundTrip('\\renewcommand\\half{\\frac{1}{2}}\\half')).toBe('\\frac{1}{2}');
+  });
+
+  it('reports macros that never stop expanding', () => {
+    const { diagnostics } = parseLatexWithDiagnostics('\\newcommand{\\loop}{\\loop}\\loop');
+    expect(diagnostics.map((d) => d.code)).toEqual(['invalid-macro']);
+    expect(() => parseLatex('\\newcommand{x}{y}')).toThrow(LatexParseError);
+  });
+});
+
 // =============================================================================
 // Text Tests
 // =============================================================================
@@ -301,6 +698,22 @@ describe('Parser: Text', () => {
     const result = roundTrip('\\text{hello world}');
     expect(result).toContain('hello world');
   });
+
+  it('keeps escaped characters in text as written', () => {
+    expect(roundTrip('\\text{a \\& b}')).toBe('\\text{a \\& b}');
+    expect(roundTrip('\\text{\\#1 costs \\$5}')).toBe('\\text{\\#1 costs \\$5}');
+    expect(roundTrip('\\colorbox{yellow}{50\\%}')).toBe('\\colorbox{yellow}{50\\%}');
+  });
+
+  it('keeps Unicode characters in text rather than turning them into commands', () => {
+    expect(roundTrip('\\text{25°C}')).toBe('\\text{25°C}');
+    expect(roundTrip('\\text{x ≤ 5}')).toBe('\\text{x ≤ 5}');
+    expect(roundTrip('\\text{α and x²}')).toBe('\\text{α and x²}');
+  });
+
+  it('escapes special characters of text nodes built elsewhere', () => {
+    expect(serializeToLatex(node.text('a & b_1'))).toBe('\\text{a \\& b\\_1}');
+  });
 });
 
 // =============================================================================
@@ -414,6 +827,52 @@ describe('Node Equality', () => {
   });
 });
 
+// =============================================================================
+// Comments, Escapes and Unicode
+// =============================================================================
+
+describe('Parser: Comments, Escapes and Unicode', () => {
+  it('drops comments up to the end of the line', () => {
+    expect(roundTrip('x^2 % squared\n+1')).toBe('x^2+1');
+    expect(roundTrip('50\\% % rate')).toBe('50\\% ');
+  });
+
+  it('reads escaped specials as literal characters', () => {
+    expect(parseLatex('\\&')).toEqual(node.symbol('&'));
+    expect(roundTrip('a\\&b')).toBe('a\\&b');
+    expect(roundTrip('\\#1+\\$5')).toBe('\\#1+\\$5');
+    expect(roundTrip('\\begin{matrix}a\\&b & c\\end{matrix}')).toBe('\\begin{matrix}a\\&b & c\\end{matrix}');
+  });
+
+  it('reads Unicode math characters like their commands', () => {
+    expect(astEqual('α+β≤γ', '\\alpha+\\beta\\leq\\gamma')).toBe(true);
+    expect(astEqual('3×4÷2−1', '3\\times 4\\div 2-1')).toBe(true);
+    expect(astEqual('∑_{i=1}^n i', '\\sum_{i=1}^n i')).toBe(true);
+    expect(astEqual('x∈ℝ', 'x\\in\\mathbb{R}')).toBe(true);
+    expect(astEqual('√2', '\\sqrt{2}')).toBe(true);
+    expect(astEqual('√(x+1)', '\\sqrt{x+1}')).toBe(true);
+    expect(astEqual('√|x|', '\\sqrt{|x|}')).toBe(true);
+    expect(parseLatexWithDiagnostics('2√(y)').diagnostics).toEqual([]);
+    expect(astEqual('f′(x)', "f'(x)")).toBe(true);
+  });
+
+  it('reads superscript and subscript characters as scripts', () => {
+    expect(astEqual('x²', 'x^2')).toBe(true);
+    expect(astEqual('x²³', 'x^{23}')).toBe(true);
+    expect(astEqual('x⁻¹', 'x^{-1}')).toBe(true);
+    expect(astEqual('a₁₂', 'a_{12}')).toBe(true);
+  });
+
+  it('keeps spans on the Unicode source', () => {
+    const latex = 'α+x²';
+    const ast = parseLatex(latex, { positions: true });
+    expect(ast.kind).toBe('row');
+    if (ast.kind === 'row') {
+      expect(ast.children.map((c) => latex.slice(c.span!.start, c.span!.end))).toEqual(['α', '+', 'x²']);
+    }
+  });
+});
+
 // =============================================================================
 // Edge Cases
 // =============================================================================
@@ -440,3 +899,652 @@ describe('Parser: Edge Cases', () => {
     expect(ast.kind).toBe('row');
   });
 });
+
+// =============================================================================
+// Source Spans
+// =============================================================================
+
+describe('Parser: Source Spans', () => {
+  /**
+   * Slice the source covered by a node's span
+   */
+  function sourceOf(latex: string, n: MathNode): string | undefined {
+    return n.span ? latex.slice(n.span.start, n.span.end) : undefined;
+  }
+
+  it('omits spans by default', () => {
+    const ast = parseLatex('x+1');
+    expect(ast.span).toBeUndefined();
+    if (ast.kind === 'row') {
+      expect(ast.children[0].span).toBeUndefined();
+    }
+  });
+
+  it('attaches spans to leaves and rows', () => {
+    const latex = 'x + 12';
+    const ast = parseLatex(latex, { positions: true });
+    expect(ast.kind).toBe('row');
+    if (ast.kind === 'row') {
+      expect(sourceOf(latex, ast)).toBe('x + 12');
+      expect(ast.children.map((c) => sourceOf(latex, c))).toEqual(['x', '+', '12']);
+    }
+  });
+
+  it('covers the whole structure including scripts', () => {
+    const latex = '\\frac{a}{b}^{2}';
+    const ast = parseLatex(latex, { positions: true });
+    expect(ast.kind).toBe('power');
+    expect(sourceOf(latex, ast)).toBe(latex);
+    if (ast.kind === 'power') {
+      expect(sourceOf(latex, ast.base)).toBe('\\frac{a}{b}');
+      expect(sourceOf(latex, ast.exponent)).toBe('2');
+    }
+  });
+
+  it('spans group content without the braces', () => {
+    const latex = '\\sqrt{x+y}';
+    const ast = parseLatex(latex, { positions: true });
+    if (ast.kind === 'sqrt') {
+      expect(sourceOf(latex, ast)).toBe(latex);
+      expect(sourceOf(latex, ast.radicand)).toBe('x+y');
+    }
+  });
+
+  it('spans matrix cells', () => {
+    const latex = '\\begin{pmatrix}a & bc\\end{pmatrix}';
+    const ast = parseLatex(latex, { positions: true });
+    if (ast.kind === 'matrix') {
+      expect(sourceOf(latex, ast)).toBe(latex);
+      expect(ast.rows[0].map((c) => sourceOf(latex, c))).toEqual(['a', 'bc']);
+    }
+  });
+
+  it('gives empty slots a zero-width span', () => {
+    const ast = parseLatex('\\frac{}{1}', { positions: true });
+    if (ast.kind === 'fraction') {
+      expect(ast.numerator.kind).toBe('placeholder');
+      expect(ast.numerator.span).toEqual({ start: 6, end: 6 });
+    }
+  });
+
+  it('ignores spans in nodesEqual', () => {
+    const a = parseLatex('x^2', { positions: true });
+    const b = parseLatex(' x^2', { positions: true });
+    expect(nodesEqual(a, b)).toBe(true);
+    expect(nodesEqual(a, parseLatex('x^2'))).toBe(true);
+  });
+
+  it('preserves spans through mapChildren and normalizeForEditor', () => {
+    const latex = '\\frac{a}{b}+c';
+    const ast = parseLatex(latex, { positions: true });
+    const mapped = mapChildren(ast, (c) => c);
+    expect(mapped.span).toEqual(ast.span);
+
+    const normalized = normalizeForEditor(ast);
+    const frac = normalized.children[0];
+    expect(sourceOf(latex, frac)).toBe('\\frac{a}{b}');
+    if (frac.kind === 'fraction' && frac.numerator.kind === 'row') {
+      expect(sourceOf(latex, frac.numerator.children[0])).toBe('a');
+    }
+  });
+});
+
+describe('Parser: Source Preservation', () => {
+  /**
+   * Parse recording source and serialize it back preserving it
+   */
+  function preserved(latex: string): string {
+    return serializeToLatex(parseLatex(latex, { preserveSource: true }), { preserveSource: true });
+  }
+
+  it('records nothing by default', () => {
+    expect(parseLatex('\\le').source).toBeUndefined();
+  });
+
+  it('reproduces untouched input exactly', () => {
+    for (const latex of [
+      'a \\le b \\ne c',
+      'x^2 + x^{2}',
+      '\\frac{1}{ 2 }',
+      '\\left( x \\right) % note\n+ 1',
+      'f\'(x)',
+      'x²',
+    ]) {
+      expect(preserved(latex)).toBe(latex);
+    }
+  });
+
+  it('records the spelling of each node', () => {
+    const ast = parseLatex('a\\le b', { preserveSource: true });
+    if (ast.kind === 'row') {
+      expect(ast.children.map((c) => c.source)).toEqual(['a', '\\le', 'b']);
+    }
+  });
+
+  it('writes rebuilt nodes canonically but keeps the spelling of their children', () => {
+    const ast = parseLatex('\\frac{x^{2}}{y} \\leq 1', { preserveSource: true });
+    const rebuilt = mapChildren(ast, (c) => c);
+    expect(serializeToLatex(rebuilt, { preserveSource: true })).toBe('\\frac{x^{2}}{y}\\leq1');
+    expect(serializeToLatex(ast)).toBe('\\frac{x^2}{y}\\leq 1');
+  });
+
+  it('keeps the spelling through normalizeForEditor', () => {
+    const latex = '\\sqrt{x^{2}}';
+    const normalized = normalizeForEditor(parseLatex(latex, { preserveSource: true }));
+    expect(serializeToLatex(normalized, { preserveSource: true })).toBe(latex);
+  });
+
+  it('records no spelling where a macro was expanded', () => {
+    const ast = parseLatex('\\newcommand{\\R}{\\mathbb{R}} x\\in\\R', { preserveSource: true });
+    expect(ast.source).toBeUndefined();
+    expect(serializeToLatex(ast, { preserveSource: true })).toBe('x\\in\\mathbb{R}');
+  });
+
+  it('ignores spellings in nodesEqual', () => {
+    expect(nodesEqual(parseLatex('x^{2}', { preserveSource: true }), parseLatex('x^2'))).toBe(true);
+  });
+});
+
+describe('Formatter', () => {
+  it('spaces relations and binary operators but not unary signs', () => {
+    expect(formatLatex('-x^{2}+y=a\\cdot-b,c')).toBe('-x^2 + y = a \\cdot -b, c');
+    expect(formatLatex('-x^{2}+y=a\\cdot-b,c', { spacing: 'compact' })).toBe('-x^2+y=a\\cdot -b,c');
+  });
+
+  it('formats equal math to equal strings', () => {
+    expect(formatLatex('x^{2}\\le  y')).toBe(formatLatex('x^2 \\leq y'));
+    expect(formatLatex('\\left( a \\right)+{b}')).toBe('\\left(a\\right) + b');
+  });
+
+  it('replaces synonyms with the house style or a custom one', () => {
+    expect(formatLatex('a\\ne b\\to c')).toBe('a \\neq b \\rightarrow c');
+    expect(formatLatex('a\\leq b', { synonyms: { leq: 'le' } })).toBe('a \\le b');
+    expect(formatLatex('a\\le b', { synonyms: {} })).toBe('a \\le b');
+  });
+
+  it('puts environment rows on their own indented lines', () => {
+    expect(formatLatex('\\begin{pmatrix}a&b\\\\c&\\begin{bmatrix}1\\end{bmatrix}\\end{pmatrix}')).toBe(
+      '\\begin{pmatrix}\n  a & b \\\\\n  c & \\begin{bmatrix}\n    1\n  \\end{bmatrix}\n\\end{pmatrix}'
+    );
+    expect(formatLatex('\\begin{aligned}x&=1\\\\&=2\\end{aligned}', { indent: '\t' })).toBe(
+      '\\begin{aligned}\n\tx &= 1 \\\\\n\t&= 2\n\\end{aligned}'
+    );
+    expect(formatLatex('\\begin{cases}1&x>0\\end{cases}', { indent: false })).toBe('\\begin{cases}1 & x > 0\\end{cases}');
+  });
+
+  it('wraps long lines before relations and binary operators', () => {
+    expect(formatLatex('a+b+c+d=e+f+g', { maxLineWidth: 10 })).toBe('a + b + c\n  + d = e\n  + f + g');
+    expect(formatLatex('a+b+c+d=e+f+g', { maxLineWidth: 10, spacing: 'compact' })).toBe('a+b+c+d=e\n  +f+g');
+  });
+
+  it('throws on input it cannot parse', () => {
+    expect(() => formatLatex('\\frac{1}{2')).toThrow(LatexParseError);
+  });
+
+  it('keeps commands it does not know as written', () => {
+    expect(formatLatex('\\displaystyle x')).toBe('\\displaystyle x');
+    expect(formatLatex('\\ell+\\perp')).toBe('\\ell + \\perp');
+    expect(formatLatex('\\lbrace x\\rbrace')).toBe('\\lbrace x\\rbrace');
+    expect(formatLatex('\\not= x')).toBe('\\not = x');
+    expect(formatLatex('x^{\\ell}')).toBe('x^{\\ell}');
+  });
+
+  it('keeps \\mathrm as an upright font', () => {
+    expect(formatLatex('\\int f\\,\\mathrm{d}x')).toBe('\\int f\\,\\mathrm{d}x');
+    expect(parseLatex('\\mathrm{d}')).toMatchObject({ kind: 'font', variant: 'mathrm', body: { kind: 'symbol', value: 'd' } });
+  });
+});
+
+describe('MathML', () => {
+  const mathml = (latex: string) =>
+    serializeToMathML(parseLatex(latex)).replace(/^<math[^>]*>|<\/math>$/g, '');
+
+  it('wraps output in a <math> element', () => {
+    expect(serializeToMathML(parseLatex('x'))).toBe('<math xmlns="http://www.w3.org/1998/Math/MathML"><mi>x</mi></math>');
+    expect(serializeToMathML(parseLatex('x'), { display: true })).toContain('display="block"');
+  });
+
+  it('writes tokens with Unicode characters', () => {
+    expect(mathml('\\alpha-12\\leq\\Gamma')).toBe('<mi>α</mi><mo>−</mo><mn>12</mn><mo>≤</mo><mi mathvariant="normal">Γ</mi>');
+    expect(mathml('\\text{a<b}')).toBe('<mtext>a&lt;b</mtext>');
+    expect(mathml('\\sin x')).toBe('<mi>sin</mi><mo>\u2061</mo><mi>x</mi>');
+  });
+
+  it('writes fractions, roots and scripts', () => {
+    expect(mathml('\\frac{1}{x+1}')).toBe('<mfrac><mn>1</mn><mrow><mi>x</mi><mo>+</mo><mn>1</mn></mrow></mfrac>');
+    expect(mathml('\\sqrt[3]{x}')).toBe('<mroot><mi>x</mi><mn>3</mn></mroot>');
+    expect(mathml('x_i^2')).toBe('<msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup>');
+    expect(mathml('\\dfrac{1}{2}')).toBe('<mstyle displaystyle="true"><mfrac><mn>1</mn><mn>2</mn></mfrac></mstyle>');
+  });
+
+  it('writes delimiters, large operators and tables', () => {
+    expect(mathml('\\left(x\\right.')).toBe('<mrow><mo fence="true">(</mo><mi>x</mi></mrow>');
+    expect(mathml('\\sum_{i}^{n}')).toBe('<munderover><mo>∑</mo><mi>i</mi><mi>n</mi></munderover>');
+    expect(mathml('\\begin{pmatrix}1&2\\end{pmatrix}')).toBe(
+      '<mrow><mo fence="true">(</mo><mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>2</mn></mtd></mtr></mtable><mo fence="true">)</mo></mrow>'
+    );
+  });
+
+  it('writes escaped specials as operators or upright symbols', () => {
+    expect(mathml('a\\&b')).toBe('<mi>a</mi><mo>&amp;</mo><mi>b</mi>');
+    expect(mathml('\\#\\{')).toBe('<mi mathvariant="normal">#</mi><mo>{</mo>');
+    expect(serializeToLatex(parseMathML(serializeToMathML(parseLatex('a\\&b\\_1'))))).toBe('a\\&b\\_1');
+  });
+
+  it('writes combining accent marks and an invisible plus in mixed numbers', () => {
+    expect(mathml('\\hat{x}')).toBe('<mover accent="true"><mi>x</mi><mo stretchy="false">\u0302</mo></mover>');
+    expect(mathml('2\\frac{3}{4}')).toBe('<mrow><mn>2</mn><mo>\u2064</mo><mfrac><mn>3</mn><mn>4</mn></mfrac></mrow>');
+  });
+
+  it('leaves empty aligned cells empty and relations at a cell start infix', () => {
+    expect(mathml('\\begin{aligned}&=1\\\\x&=2\\end{aligned}')).toBe(
+      '<mtable columnalign="right left" displaystyle="true">' +
+        '<mtr><mtd><mrow/></mtd><mtd><mo form="infix">=</mo><mn>1</mn></mtd></mtr>' +
+        '<mtr><mtd><mi>x</mi></mtd><mtd><mo form="infix">=</mo><mn>2</mn></mtd></mtr></mtable>'
+    );
+    expect(mathml('\\begin{aligned}x&\\end{aligned}')).not.toContain('pmf-placeholder');
+    expect(mathml('\\begin{aligned}x&=1\\end{aligned}')).not.toContain('<mi></mi>');
+  });
+
+  it('carries font variants down to tokens', () => {
+    expect(mathml('\\mathbb{R}^n')).toBe('<msup><mi mathvariant="double-struck">R</mi><mi>n</mi></msup>');
+  });
+
+  it('covers every node kind', () => {
+    const ast = parseLatex(
+      '\\binom{n}{k}1\\frac{1}{2}0.\\overline{3}f\'\\,\\hat{x}\\textcolor{red}{y}\\overbrace{z}^{a}' +
+        '\\begin{cases}1&x>0\\end{cases}\\begin{aligned}x&=1\\end{aligned}\\mathbf{v}'
+    );
+    const output = serializeToMathML(node.row([ast, node.placeholder(), node.error('\\foo')]));
+    for (const tag of ['mfrac linethickness="0"', 'mover accent="true"', 'msup', 'mspace', 'mrow mathcolor="red"', 'mtable', 'merror']) {
+      expect(output).toContain(`<${tag}`);
+    }
+    expect(output).toContain('<mi class="pmf-placeholder">⬚</mi>');
+  });
+
+  it('can annotate with the LaTeX source', () => {
+    expect(serializeToMathML(parseLatex('a<b'), { annotation: true })).toContain(
+      '<semantics><mrow><mi>a</mi><mo>&lt;</mo><mi>b</mi></mrow><annotation encoding="application/x-tex">a&lt;b</annotation></semantics>'
+    );
+  });
+});
+
+describe('MathML Import', () => {
+  const fromMathML = (xml: string) => serializeToLatex(parseMathML(xml));
+
+  it('maps scripts, fractions and roots onto node kinds', () => {
+    expect(fromMathML('<math><msubsup><mi>x</mi><mi>i</mi><mn>2</mn></msubsup></math>')).toBe('x_i^2');
+    expect(fromMathML('<math><mfrac><mn>1</mn><mrow><mi>x</mi><mo>+</mo><mn>1</mn></mrow></mfrac></math>')).toBe('\\frac{1}{x+1}');
+    expect(fromMathML('<math><mroot><mi>x</mi><mn>3</mn></mroot><msqrt><mi>y</mi></msqrt></math>')).toBe('\\sqrt[3]{x}\\sqrt{y}');
+    expect(fromMathML('<math><msup><mi>f</mi><mo>&prime;</mo></msup></math>')).toBe("f'");
+  });
+
+  it('reads characters and entities as commands', () => {
+    expect(parseMathML('<math><mi>&#x3B1;</mi><mo>&le;</mo><mi>&infin;</mi></math>')).toEqual(
+      node.row([node.symbol('alpha'), node.operator('leq'), node.operator('infty')])
+    );
+    expect(fromMathML('<math><mi>sin</mi><mo>&ApplyFunction;</mo><mi>x</mi></math>')).toBe('\\sin x');
+    expect(fromMathML('<math><mtext>if </mtext><mspace width="1em"/></math>')).toBe('\\text{if}\\quad');
+  });
+
+  it('reads named entities for Greek letters, operators and relations', () => {
+    expect(fromMathML('<math><mi>&alpha;</mi><mo>&sdot;</mo><mi>&Omega;</mi><mo>&sim;</mo><mi>&varphi;</mi></math>')).toBe(
+      '\\alpha\\cdot \\Omega\\sim \\phi'
+    );
+    expect(fromMathML('<math><mi>&epsilon;</mi><mo>&oplus;</mo><mi>&beta;</mi><mo>&prop;</mo><mi>&lambda;</mi></math>')).toBe(
+      '\\varepsilon\\oplus \\beta\\propto \\lambda'
+    );
+    expect(parseMathMLWithDiagnostics('<math><mi>&gamma;</mi><mo>&mapsto;</mo><mi>&theta;</mi></math>').diagnostics).toEqual([]);
+  });
+
+  it('pairs <mo> fences and reads <mfenced>', () => {
+    expect(fromMathML('<math><mrow><mo>(</mo><mi>x</mi><mo>]</mo></mrow></math>')).toBe('(x]');
+    expect(fromMathML('<math><mo fence="true">|</mo><mi>x</mi><mo fence="true">|</mo></math>')).toBe('\\left|x\\right|');
+    expect(fromMathML('<math><mfenced open="[" close="]"><mi>a</mi><mi>b</mi></mfenced></math>')).toBe('\\left[a,b\\right]');
+  });
+
+  it('reads tables as matrices and cases', () => {
+    const table = '<mtable><mtr><mtd><mn>1</mn></mtd><mtd><mn>2</mn></mtd></mtr></mtable>';
+    expect(fromMathML(`<math>${table}</math>`)).toBe('\\begin{matrix}1 & 2\\end{matrix}');
+    expect(fromMathML(`<math><mo>(</mo>${table}<mo>)</mo></math>`)).toBe('\\begin{pmatrix}1 & 2\\end{pmatrix}');
+    expect(fromMathML(`<math><mo>{</mo>${table}</math>`)).toBe('\\begin{cases}1 & 2\\end{cases}');
+  });
+
+  it('reads namespaced markup without a DOM', () => {
+    const xml = '<?xml version="1.0"?><m:math xmlns:m="http://www.w3.org/1998/Math/MathML"><m:mi>x</m:mi><!-- note --><m:mn>2</m:mn></m:math>';
+    expect(fromMathML(xml)).toBe('x2');
+  });
+
+  it('reads back what serializeToMathML writes', () => {
+    for (const latex of [
+      '\\frac{1}{2}+\\sqrt[3]{x}',
+      '\\sum_{i=1}^n i',
+      '\\left(x\\right]',
+      '\\begin{pmatrix}1 & 2 \\\\ 3 & 4\\end{pmatrix}',
+      '\\begin{aligned}x&=1\\end{aligned}',
+      '\\mathbb{R}\\hat{x}\\binom{n}{k}',
+      '2\\frac{3}{4}+\\widetilde{ab}',
+    ]) {
+      const ast = parseLatex(latex);
+      expect(nodesEqual(parseMathML(serializeToMathML(ast)), ast)).toBe(true);
+    }
+  });
+
+  it('reports unsupported constructs as diagnostics', () => {
+    const xml = '<math><menclose notation="box"><mi>x</mi></menclose><mfrac><mi>y</mi></mfrac><mi>&foo;</mi></math>';
+    const { ast, diagnostics } = parseMathMLWithDiagnostics(xml);
+    expect(diagnostics.map((d) => d.code)).toEqual(['unknown-entity', 'unsupported-element', 'invalid-children']);
+    expect(diagnostics[1].span).toEqual({ start: 6, end: 52 });
+    expect(serializeToLatex(ast)).toBe('xy\\text{\\&foo;}');
+    expect(() => parseMathML(xml)).toThrow(MathMLParseError);
+  });
+
+  it('reads what an unsupported element holds as valid LaTeX', () => {
+    const { ast } = parseMathMLWithDiagnostics('<math><mi>x</mi><mo>+</mo><menclose notation="box"><mi>y</mi></menclose></math>');
+    expect(serializeToLatex(ast)).toBe('x+y');
+    expect(serializeToLatex(parseMathMLWithDiagnostics('<math><mglyph alt="star">*</mglyph></math>').ast)).toBe('\\text{*}');
+  });
+
+  it('reports malformed XML', () => {
+    const { ast, diagnostics } = parseMathMLWithDiagnostics('<math><mi>x</mi><mn>1</math>');
+    expect(diagnostics.map((d) => d.code)).toEqual(['malformed-xml']);
+    expect(serializeToLatex(ast)).toBe('x1');
+  });
+});
+
+describe('MathJSON', () => {
+  const json = (latex: string) => toMathJSON(parseLatex(latex));
+
+  it('reads flat rows with operator precedence', () => {
+    expect(json('x^2+2x+1')).toEqual(['Add', ['Power', 'x', 2], ['Multiply', 2, 'x'], 1]);
+    expect(json('a-b\\cdot c=-d')).toEqual(['Equal', ['Add', 'a', ['Negate', ['Multiply', 'b', 'c']]], ['Negate', 'd']]);
+    expect(json('a<b<c')).toEqual(['Less', 'a', 'b', 'c']);
+    expect(json('(a+b)(a-b)')).toEqual(['Multiply', ['Add', 'a', 'b'], ['Add', 'a', ['Negate', 'b']]]);
+    expect(json('n!+1')).toEqual(['Add', ['Factorial', 'n'], 1]);
+  });
+
+  it('maps structures to canonical heads', () => {
+    expect(json('\\frac{1}{\\sqrt{x}}')).toEqual(['Divide', 1, ['Sqrt', 'x']]);
+    expect(json('\\sqrt[3]{x}')).toEqual(['Root', 'x', 3]);
+    expect(json('\\begin{bmatrix}1&2\\\\3&4\\end{bmatrix}')).toEqual(['Matrix', ['List', ['List', 1, 2], ['List', 3, 4]], "'[]'"]);
+    expect(json('|x|+\\left[0,1\\right)')).toEqual(['Add', ['Abs', 'x'], ['Interval', 0, ['Open', 1]]]);
+    expect(json('x_1+\\mathbb{R}+\\pi')).toEqual(['Add', 'x_1', 'RealNumbers', 'Pi']);
+  });
+
+  it('reads escaped braces as a set', () => {
+    expect(json('\\{1,2\\}')).toEqual(['Set', 1, 2]);
+    expect(json('A=\\{1,\\{2\\}\\}\\cup\\{\\}')).toEqual(['Equal', 'A', ['Union', ['Set', 1, ['Set', 2]], ['Set']]]);
+    expect(serializeToLatex(fromMathJSON(json('\\{1,2\\}')))).toBe('\\left\\{1,2\\right\\}');
+  });
+
+  it('applies functions and big operators to what follows them', () => {
+    expect(json('\\sin 2x+\\cos(y)')).toEqual(['Add', ['Sin', ['Multiply', 2, 'x']], ['Cos', 'y']]);
+    expect(json('\\log_2 x')).toEqual(['Log', 'x', 2]);
+    expect(json('\\sum_{i=1}^{n} i^2+1')).toEqual(['Add', ['Sum', ['Power', 'i', 2], ['Limits', 'i', 1, 'n']], 1]);
+    expect(json('\\int_0^1 x+1\\,dx')).toEqual(['Integrate', ['Add', 'x', 1], ['Limits', 'x', 0, 1]]);
+    expect(json('\\lim_{x\\to 0} f')).toEqual(['Limit', ['Function', 'f', 'x'], 0]);
+  });
+
+  it('applies f, g and h to the parentheses after them', () => {
+    expect(json('f(x)+g(x,y)')).toEqual(['Add', ['f', 'x'], ['g', 'x', 'y']]);
+    expect(json('f(x)^2')).toEqual(['Power', ['f', 'x'], 2]);
+    expect(json('x(y+1)')).toEqual(['Multiply', 'x', ['Add', 'y', 1]]);
+  });
+
+  it('names the constants e and i unless they are a bound index', () => {
+    expect(json('e^{i\\pi}+1=0')).toEqual(['Equal', ['Add', ['Power', 'ExponentialE', ['Multiply', 'ImaginaryUnit', 'Pi']], 1], 0]);
+    expect(json('\\sum_{i=1}^{n} i')).toEqual(['Sum', 'i', ['Limits', 'i', 1, 'n']]);
+    expect(serializeToLatex(fromMathJSON(['Multiply', 2, 'ImaginaryUnit', 'ExponentialE']))).toBe('2ie');
+  });
+
+  it('writes numbers in exponent form and non-finite numbers explicitly', () => {
+    expect(serializeToLatex(fromMathJSON(1.5e30))).toBe('1.5\\times 10^{30}');
+    expect(serializeToLatex(fromMathJSON(['Multiply', 2, 1e-7]))).toBe('2\\cdot 10^{-7}');
+    expect(serializeToLatex(fromMathJSON(['Power', { num: '2.5e3' }, 2]))).toBe('(2.5\\times 10^3)^2');
+    expect(serializeToLatex(fromMathJSON(NaN))).toBe('\\text{NaN}');
+    expect(serializeToLatex(fromMathJSON(-Infinity))).toBe('-\\infty ');
+  });
+
+  it('throws a MathJSONError on values that are not MathJSON', () => {
+    expect(() => fromMathJSON(null as unknown as MathJSON)).toThrow(MathJSONError);
+    expect(() => fromMathJSON(['Add', 1, {} as MathJSON])).toThrow('Invalid MathJSON: {}');
+    expect(() => fromMathJSON([])).toThrow(MathJSONError);
+    expect(() => fromMathJSON(['Sqrt'])).toThrow('Invalid MathJSON: Sqrt takes 1 argument, got 0');
+    expect(() => fromMathJSON(['Add', ['Power', 'x']])).toThrow('Invalid MathJSON: Power takes 2 arguments, got 1');
+    expect(() => fromMathJSON(['Delimiter'])).toThrow('Delimiter takes 1 to 3 arguments, got 0');
+  });
+
+  it('reports heads it writes as \\operatorname', () => {
+    const { ast, diagnostics } = fromMathJSONWithDiagnostics(['Add', ['Half', 'x'], ['f', 'x'], ['Sin', 'x']]);
+    expect(serializeToLatex(ast)).toBe('\\operatorname{Half}(x)+f(x)+\\sin(x)');
+    expect(diagnostics).toEqual([{ code: 'unknown-head', message: 'Unknown head Half', value: ['Half', 'x'] }]);
+    expect(fromMathJSONWithDiagnostics(['Sqrt', 'x']).diagnostics).toEqual([]);
+  });
+
+  it('keeps numbers JSON would reformat as strings', () => {
+    expect(json('1.50')).toEqual({ num: '1.50' });
+    expect(json('0.\\overline{3}')).toEqual({ num: '0.(3)' });
+  });
+
+  it('writes parentheses back where precedence needs them', () => {
+    expect(serializeToLatex(fromMathJSON(['Multiply', ['Add', 'a', 1], ['Negate', 'b']]))).toBe('(a+1)(-b)');
+    expect(serializeToLatex(fromMathJSON(['Power', ['Add', 'x', 1], 2]))).toBe('(x+1)^2');
+    expect(serializeToLatex(fromMathJSON(['Add', 'x', -2, ['Negate', ['Add', 'y', 1]]]))).toBe('x-2-(y+1)');
+    expect(serializeToLatex(fromMathJSON(['Multiply', 2, 3, 'x']))).toBe('2\\cdot 3x');
+    expect(serializeToLatex(fromMathJSON(['Foo', 'x', { str: 'a' }]))).toBe('\\operatorname{Foo}(x,\\text{a})');
+  });
+
+  it('round-trips LaTeX through MathJSON', () => {
+    for (const latex of [
+      '\\frac{a}{b}=\\sqrt{c}',
+      '\\sum_{i=1}^ni^2+1',
+      '\\int_0^1x^2\\,dx',
+      "f'(x)",
+      'f(x)^2+g(x,y)',
+      '\\begin{cases}x & x>0 \\\\ 0 & \\text{otherwise}\\end{cases}',
+      '\\hat{x}+\\mathbf{v}',
+    ]) {
+      expect(serializeToLatex(fromMathJSON(json(latex)))).toBe(latex);
+    }
+  });
+});
+
+describe('Unicode', () => {
+  const unicode = (latex: string) => serializeToUnicode(parseLatex(latex));
+
+  it('spaces binary operators and relations but not signs', () => {
+    expect(unicode('x^2+\\sqrt{y}=\\frac{1}{2}')).toBe('x² + √(y) = ½');
+    expect(unicode('a=-b\\cdot c')).toBe('a = −b ⋅ c');
+    expect(unicode('x\\in A, n!\\leq\\infty')).toBe('x ∈ A, n! ≤ ∞');
+  });
+
+  it('writes one case per line', () => {
+    expect(unicode('\\begin{cases}x & x>0\\\\-x & \\text{otherwise}\\end{cases}')).toBe('x, x > 0\n−x, otherwise');
+    expect(unicode('\\begin{rcases}a & b\\end{rcases}')).toBe('a, b');
+  });
+
+  it('spaces relations in aligned rows like inline rows', () => {
+    expect(unicode('\\begin{aligned}a&=b+1\\\\&=c\\end{aligned}')).toBe('a = b + 1\n= c');
+  });
+
+  it('brackets fraction parts of more than one term', () => {
+    expect(unicode('\\frac{a+b}{c-d}')).toBe('(a + b)/(c − d)');
+    expect(unicode('\\frac{x}{2}+2\\frac{3}{4}')).toBe('x/2 + 2¾');
+  });
+
+  it('uses script characters where every character has one', () => {
+    expect(unicode('x^{n+1}+a_{ij}')).toBe('xⁿ⁺¹ + aᵢⱼ');
+    expect(unicode('e^{i\\pi}+x_{bc}')).toBe('e^(iπ) + x_(bc)');
+    expect(unicode('\\sum_{i=1}^{n} i^2')).toBe('∑ᵢ₌₁ⁿ i²');
+    expect(unicode('\\sin^2 x+\\log_2 x')).toBe('sin² x + log₂ x');
+    expect(unicode('90^\\circ')).toBe('90°');
+  });
+
+  it('writes roots, fonts, accents and matrices with Unicode characters', () => {
+    expect(unicode('\\sqrt[3]{x}+\\sqrt[n]{y}')).toBe('∛(x) + ⁿ√(y)');
+    expect(unicode('\\mathbb{R}^n')).toBe('ℝⁿ');
+    expect(unicode('\\hat{x}+0.\\overline{3}')).toBe('x̂ + 0.3̅');
+    expect(unicode('\\begin{pmatrix}1&2\\\\3&4\\end{pmatrix}')).toBe('(1, 2; 3, 4)');
+  });
+});
+
+describe('AsciiMath', () => {
+  const latex = (ascii: string) => serializeToLatex(parseAsciiMath(ascii));
+
+  it('drops brackets that only group fraction parts, scripts and arguments', () => {
+    expect(latex('sqrt(x)/2')).toBe('\\frac{\\sqrt{x}}{2}');
+    expect(latex('(a+b)/(c-d)')).toBe('\\frac{a+b}{c-d}');
+    expect(latex('x^(2n)')).toBe('x^{2n}');
+    expect(latex('root(3)(x)')).toBe('\\sqrt[3]{x}');
+    expect(latex('f(x)')).toBe('f(x)');
+  });
+
+  it('reads symbols, functions and limits', () => {
+    expect(latex('sum_(i=1)^n i^2')).toBe('\\sum_{i=1}^ni^2');
+    expect(latex('lim_(x->0) sinx')).toBe('\\lim_{x\\to 0}\\sin x');
+    expect(latex('alpha+beta<=gamma')).toBe('\\alpha+\\beta\\leq \\gamma');
+    expect(latex('x in RR')).toBe('x\\in \\mathbb{R}');
+    expect(latex('a xx b != "text"')).toBe('a\\times b\\neq \\text{text}');
+  });
+
+  it('reads brackets, matrices and cases', () => {
+    expect(latex('|x|+abs(y)')).toBe('|x|+|y|');
+    expect(latex('(:x,y:)')).toBe('\\left\\langle x,y\\right\\rangle');
+    expect(latex('[[1,2],[3,4]]')).toBe('\\begin{bmatrix}1 & 2 \\\\ 3 & 4\\end{bmatrix}');
+    expect(latex('{(x, x>=0),(-x, x<0):}')).toBe('\\begin{cases}x & x\\geq 0 \\\\ -x & x<0\\end{cases}');
+  });
+
+  it('applies functions to the simple expression after them', () => {
+    expect(latex('ln x / ln y')).toBe('\\frac{\\ln x}{\\ln y}');
+    expect(latex('sin(a+b)/2')).toBe('\\frac{\\sin(a+b)}{2}');
+    expect(latex('log_2 x')).toBe('\\log_2x');
+    expect(parseAsciiMath('sin x')).toEqual(node.function('sin', node.symbol('x')));
+  });
+
+  it('reads an overlined block after a decimal as its repetend', () => {
+    expect(parseAsciiMath('0.bar(3)')).toEqual(node.repeatingDecimal(node.number('0.'), node.number('3')));
+    expect(latex('0.1bar(6)')).toBe('0.1\\overline{6}');
+    expect(latex('1...n')).toBe('1\\ldots n');
+  });
+
+  it('tells LaTeX from AsciiMath in typed or pasted text', () => {
+    // insert('x^{2}') and a pasted a_{1} are LaTeX, not AsciiMath
+    expect(isLatexSource('x^{2}')).toBe(true);
+    expect(isLatexSource('a_{1}+b')).toBe(true);
+    expect(isLatexSource('\\frac12')).toBe(true);
+    expect(isLatexSource('α ≤ x²')).toBe(true);
+    expect(isLatexSource('sqrt(x)/2')).toBe(false);
+    expect(isLatexSource('x^(2n)+{a}')).toBe(false);
+  });
+
+  it('reads what it does not understand as characters', () => {
+    expect(latex('x)')).toBe('x)');
+    expect(latex('(x')).toBe('(x)');
+    expect(latex('^2')).toBe('{}^2');
+  });
+
+  it('serializes with the brackets the grammar needs', () => {
+    const ascii = (source: string) => serializeToAsciiMath(parseLatex(source));
+    expect(ascii('\\frac{\\sqrt{x}}{2}')).toBe('sqrt(x)/2');
+    expect(ascii('\\frac{(a)}{b+c}')).toBe('((a))/(b+c)');
+    expect(ascii('(x+1)^{2n}')).toBe('(x+1)^(2n)');
+    expect(ascii('\\sum_{i=1}^{n} i')).toBe('sum_(i=1)^n i');
+    expect(ascii('\\alpha\\beta \\in \\mathbb{R}')).toBe('alpha beta in bbb(R)');
+  });
+
+  it('round-trips AsciiMath through the AST', () => {
+    for (const ascii of [
+      'sqrt(x)/2',
+      'sum_(i=1)^n i^2',
+      'x^(2n)',
+      'root(3)(x)+abs(x-1)',
+      '[[1,2],[3,4]]',
+      'f(x)={(x,x>=0),(-x,x<0):}',
+      "f'(x)=hat(v)",
+      'e^(i pi)+1=0',
+      'ln x/ln y',
+      '0.bar(3)',
+    ]) {
+      expect(serializeToAsciiMath(parseAsciiMath(ascii))).toBe(ascii);
+    }
+  });
+});
+
+describe('Parser: Error Recovery', () => {
+  const codes = (latex: string) => parseLatexWithDiagnostics(latex).diagnostics.map((d) => d.code);
+  const recovered = (latex: string) => serializeToLatex(parseLatexWithDiagnostics(latex).ast);
+
+  it('returns no diagnostics for valid input', () => {
+    const result = parseLatexWithDiagnostics('\\frac{1}{2}+x^2');
+    expect(result.diagnostics).toEqual([]);
+    expect(nodesEqual(result.ast, parseLatex('\\frac{1}{2}+x^2'))).toBe(true);
+  });
+
+  it('closes a missing brace', () => {
+    const result = parseLatexWithDiagnostics('\\frac{1}{2');
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics[0].code).toBe('unbalanced-brace');
+    expect(result.diagnostics[0].span).toEqual({ start: 8, end: 10 });
+    expect(serializeToLatex(result.ast)).toBe('\\frac{1}{2}');
+  });
+
+  it('keeps an unmatched closing brace as an error node', () => {
+    const result = parseLatexWithDiagnostics('x}+1');
+    expect(result.diagnostics[0]).toMatchObject({ code: 'unbalanced-brace', span: { start: 1, end: 2 } });
+    expect(result.ast.kind).toBe('row');
+    if (result.ast.kind === 'row') {
+      expect(result.ast.children.map((c) => c.kind)).toEqual(['symbol', 'error', 'operator', 'number']);
+    }
+  });
+
+  it('keeps an unknown environment verbatim', () => {
+    const latex = '\\begin{align}a&=b\\\\c\\end{align}+1';
+    const result = parseLatexWithDiagnostics(latex);
+    expect(result.diagnostics.map((d) => d.code)).toEqual(['unknown-environment']);
+    if (result.ast.kind === 'row') {
+      expect(result.ast.children[0]).toMatchObject({
+        kind: 'error',
+        value: '\\begin{align}a&=b\\\\c\\end{align}',
+      });
+    }
+    expect(recovered(latex)).toBe(latex);
+  });
+
+  it('recovers from a stray \\right', () => {
+    expect(codes('a\\right)+b')).toEqual(['stray-right']);
+    expect(recovered('a\\right)+b')).toBe('a\\right)+b');
+  });
+
+  it('closes a missing \\right with the matching delimiter', () => {
+    expect(codes('\\left[ x')).toEqual(['missing-right']);
+    expect(recovered('\\left[ x')).toBe('\\left[x\\right]');
+  });
+
+  it('replaces an invalid delimiter with an invisible one', () => {
+    expect(codes('\\left x \\right)')).toEqual(['invalid-delimiter']);
+    expect(recovered('\\left x \\right)')).toBe('\\left.x\\right)');
+  });
+
+  it('keeps the matrix on environment mismatch or missing \\end', () => {
+    expect(codes('\\begin{pmatrix}1&2\\end{bmatrix}')).toEqual(['environment-mismatch']);
+    expect(recovered('\\begin{pmatrix}1&2\\end{bmatrix}')).toBe('\\begin{pmatrix}1 & 2\\end{pmatrix}');
+    expect(codes('\\begin{matrix}a')).toEqual(['missing-end']);
+  });
+
+  it('reports stray alignment characters', () => {
+    expect(codes('a&b')).toEqual(['unexpected-token']);
+    expect(recovered('a&b')).toBe('a&b');
+  });
+
+  it('throws LatexParseError in strict mode', () => {
+    expect.assertions(4);
+    expect(() => parseLatex('\\frac{1}{2')).toThrow(LatexParseError);
+    try {
+      parseLatex('\\begin{foo}x\\end{foo}');
+    } catch (e) {
+      expect(e).toBeInstanceOf(LatexParseError);
+      expect((e as LatexParseError).code).toBe('unknown-environment');
+      expect((e as LatexParseError).span.start).toBe(0);
+    }
+  });
+});
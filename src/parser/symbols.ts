@@ -0,0 +1,105 @@
+/**
+ * Symbol Characters
+ *
+ * Unicode characters for the command names symbols, operators and
+ * delimiters are stored under, and the styled letters of font commands.
+ * The editor and serializers that write characters rather than LaTeX
+ * (MathML, plain text) share these tables.
+ */
+
+import { Delimiter, FontNode } from '../core/ast';
+
+/**
+ * Characters of symbol and operator values: alpha → α, leq → ≤, - → −
+ */
+export const COMMAND_CHARACTERS: Readonly<Record<string, string>> = {
+  // Lowercase Greek
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', zeta: 'ζ', eta: 'η', theta: 'θ',
+  iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', omicron: 'ο', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'ϕ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  varepsilon: 'ε', vartheta: 'ϑ', varpi: 'ϖ', varrho: 'ϱ', varsigma: 'ς', varphi: 'φ',
+  // Uppercase Greek
+  Alpha: 'Α', Beta: 'Β', Gamma: 'Γ', Delta: 'Δ', Epsilon: 'Ε', Zeta: 'Ζ', Eta: 'Η', Theta: 'Θ',
+  Iota: 'Ι', Kappa: 'Κ', Lambda: 'Λ', Mu: 'Μ', Nu: 'Ν', Xi: 'Ξ', Omicron: 'Ο', Pi: 'Π',
+  Rho: 'Ρ', Sigma: 'Σ', Tau: 'Τ', Upsilon: 'Υ', Phi: 'Φ', Chi: 'Χ', Psi: 'Ψ', Omega: 'Ω',
+  // Binary operators
+  '-': '−', times: '×', div: '÷', cdot: '⋅', pm: '±', mp: '∓', ast: '∗', star: '⋆',
+  circ: '∘', bullet: '∙', oplus: '⊕', ominus: '⊖', otimes: '⊗', oslash: '⊘', odot: '⊙',
+  cup: '∪', cap: '∩', setminus: '∖', land: '∧', lor: '∨',
+  // Relations
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠', approx: '≈', equiv: '≡',
+  sim: '∼', simeq: '≃', ll: '≪', gg: '≫', propto: '∝', cong: '≅', mid: '∣',
+  subset: '⊂', supset: '⊃', subseteq: '⊆', supseteq: '⊇', in: '∈', notin: '∉', ni: '∋',
+  // Arrows
+  to: '→', gets: '←', rightarrow: '→', leftarrow: '←', leftrightarrow: '↔',
+  Rightarrow: '⇒', Leftarrow: '⇐', Leftrightarrow: '⇔', implies: '⟹', iff: '⟺',
+  mapsto: '↦', longmapsto: '⟼', uparrow: '↑', downarrow: '↓', updownarrow: '↕',
+  Uparrow: '⇑', Downarrow: '⇓', Updownarrow: '⇕',
+  nearrow: '↗', searrow: '↘', swarrow: '↙', nwarrow: '↖',
+  // Other symbols
+  infty: '∞', partial: '∂', nabla: '∇', degree: '°', prime: '′',
+  emptyset: '∅', varnothing: '∅', forall: '∀', exists: '∃', nexists: '∄', neg: '¬',
+  ldots: '…', cdots: '⋯', vdots: '⋮', ddots: '⋱',
+  langle: '⟨', rangle: '⟩', lvert: '|', rvert: '|', lVert: '‖', rVert: '‖',
+  lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉',
+};
+
+/**
+ * Characters of parens delimiters; the invisible '.' has none
+ */
+export const DELIMITER_CHARACTERS: Readonly<Record<Delimiter, string>> = {
+  '(': '(', ')': ')', '[': '[', ']': ']', '{': '{', '}': '}', '|': '|', '\\|': '‖',
+  '\\langle': '⟨', '\\rangle': '⟩', '\\lfloor': '⌊', '\\rfloor': '⌋', '\\lceil': '⌈', '\\rceil': '⌉',
+  '/': '/', '\\backslash': '\\', '\\uparrow': '↑', '\\downarrow': '↓', '\\updownarrow': '↕',
+  '\\Uparrow': '⇑', '\\Downarrow': '⇓', '\\Updownarrow': '⇕',
+  '\\lgroup': '⟮', '\\rgroup': '⟯', '\\lmoustache': '⎰', '\\rmoustache': '⎱',
+  '\\ulcorner': '⌜', '\\urcorner': '⌝', '\\llcorner': '⌞', '\\lrcorner': '⌟',
+  '.': '',
+};
+
+/**
+ * Characters of large operators: sum → ∑
+ */
+export const LARGE_OPERATOR_CHARACTERS: Readonly<Record<string, string>> = {
+  sum: '∑', prod: '∏', coprod: '∐',
+  int: '∫', iint: '∬', iiint: '∭', oint: '∮',
+  bigcup: '⋃', bigcap: '⋂', bigoplus: '⨁', bigotimes: '⨂', bigvee: '⋁', bigwedge: '⋀',
+};
+
+// Unicode Mathematical Alphanumeric Symbols: [capital A, small a, digit 0] per variant
+const FONT_ALPHABETS: Partial<Record<FontNode['variant'], [number, number, number | null]>> = {
+  mathbb: [0x1d538, 0x1d552, 0x1d7d8],
+  mathcal: [0x1d49c, 0x1d4b6, null],
+  mathscr: [0x1d49c, 0x1d4b6, null],
+  mathfrak: [0x1d504, 0x1d51e, null],
+  mathbf: [0x1d400, 0x1d41a, 0x1d7ce],
+  mathsf: [0x1d5a0, 0x1d5ba, 0x1d7e2],
+  mathtt: [0x1d670, 0x1d68a, 0x1d7f6],
+  boldsymbol: [0x1d468, 0x1d482, 0x1d7ce],
+};
+
+// Letters that live in the Letterlike Symbols block instead (holes in the ranges above)
+const FONT_EXCEPTIONS: Partial<Record<FontNode['variant'], Record<string, string>>> = {
+  mathbb: { C: 'ℂ', H: 'ℍ', N: 'ℕ', P: 'ℙ', Q: 'ℚ', R: 'ℝ', Z: 'ℤ' },
+  mathcal: { B: 'ℬ', E: 'ℰ', F: 'ℱ', H: 'ℋ', I: 'ℐ', L: 'ℒ', M: 'ℳ', R: 'ℛ', e: 'ℯ', g: 'ℊ', o: 'ℴ' },
+  mathscr: { B: 'ℬ', E: 'ℰ', F: 'ℱ', H: 'ℋ', I: 'ℐ', L: 'ℒ', M: 'ℳ', R: 'ℛ', e: 'ℯ', g: 'ℊ', o: 'ℴ' },
+  mathfrak: { C: 'ℭ', H: 'ℌ', I: 'ℑ', R: 'ℜ', Z: 'ℨ' },
+};
+
+/**
+ * Map ASCII letters and digits to their styled Unicode forms (ℝ, 𝒜, 𝐯, ...)
+ */
+export function styleCharacters(text: string, variant: FontNode['variant']): string {
+  const alphabet = FONT_ALPHABETS[variant];
+  if (!alphabet) return text;
+  const exceptions = FONT_EXCEPTIONS[variant] ?? {};
+  return Array.from(text, (ch) => {
+    if (exceptions[ch]) return exceptions[ch];
+    if (ch >= 'A' && ch <= 'Z') return String.fromCodePoint(alphabet[0] + ch.charCodeAt(0) - 65);
+    if (ch >= 'a' && ch <= 'z') return String.fromCodePoint(alphabet[1] + ch.charCodeAt(0) - 97);
+    if (ch >= '0' && ch <= '9' && alphabet[2] !== null) {
+      return String.fromCodePoint(alphabet[2] + ch.charCodeAt(0) - 48);
+    }
+    return ch;
+  }).join('');
+}
@@ -3,6 +3,8 @@
  *
  * Breaks a LaTeX string into tokens for the parser.
  * Handles commands, groups, special characters, and whitespace.
+ * Comments are dropped, and escaped specials and Unicode math characters
+ * (α, ≤, √, ², ...) are read as the tokens of their LaTeX equivalents.
  */
 
 // =============================================================================
@@ -16,6 +18,7 @@ export type TokenType =
   | 'operator' // +, -, =, etc.
   | 'superscript' // ^
   | 'subscript' // _
+  | 'prime' // '
   | 'openBrace' // {
   | 'closeBrace' // }
   | 'openBracket' // [
@@ -32,8 +35,70 @@ export interface Token {
   type: TokenType;
   value: string;
   position: number; // Start position in source
+  raw?: string; // Source text when it differs from value (\&, α, ², ...)
+}
+
+/**
+ * Source offset just past a token
+ */
+export function tokenEnd(token: Token): number {
+  return token.position + (token.raw ?? token.value).length;
 }
 
+// =============================================================================
+// Character Tables
+// =============================================================================
+
+// Escaped specials that stand for the literal character
+const ESCAPED_CHARACTERS = new Set(['&', '#', '$', '_']);
+
+// Unicode characters read as the command that produces them
+const UNICODE_COMMANDS: Record<string, string> = {
+  // Greek letters
+  'α': 'alpha', 'β': 'beta', 'γ': 'gamma', 'δ': 'delta', 'ϵ': 'epsilon', 'ε': 'varepsilon',
+  'ζ': 'zeta', 'η': 'eta', 'θ': 'theta', 'ϑ': 'vartheta', 'ι': 'iota', 'κ': 'kappa',
+  'λ': 'lambda', 'μ': 'mu', 'µ': 'mu', 'ν': 'nu', 'ξ': 'xi', 'π': 'pi', 'ϖ': 'varpi',
+  'ρ': 'rho', 'ϱ': 'varrho', 'σ': 'sigma', 'ς': 'varsigma', 'τ': 'tau', 'υ': 'upsilon',
+  'ϕ': 'phi', 'φ': 'varphi', 'χ': 'chi', 'ψ': 'psi', 'ω': 'omega',
+  'Γ': 'Gamma', 'Δ': 'Delta', 'Θ': 'Theta', 'Λ': 'Lambda', 'Ξ': 'Xi', 'Π': 'Pi',
+  'Σ': 'Sigma', 'Υ': 'Upsilon', 'Φ': 'Phi', 'Ψ': 'Psi', 'Ω': 'Omega',
+  // Operators and relations
+  '×': 'times', '÷': 'div', '·': 'cdot', '⋅': 'cdot', '±': 'pm', '∓': 'mp', '∗': 'ast',
+  '∘': 'circ', '•': 'bullet', '⊕': 'oplus', '⊖': 'ominus', '⊗': 'otimes',
+  '≤': 'leq', '≥': 'geq', '≠': 'neq', '≈': 'approx', '≡': 'equiv', '∼': 'sim', '≃': 'simeq',
+  '≪': 'll', '≫': 'gg', '∝': 'propto', '≅': 'cong', '∣': 'mid',
+  '⊂': 'subset', '⊃': 'supset', '⊆': 'subseteq', '⊇': 'supseteq',
+  '∈': 'in', '∉': 'notin', '∋': 'ni', '∪': 'cup', '∩': 'cap', '∖': 'setminus', '∅': 'emptyset',
+  '∀': 'forall', '∃': 'exists', '∄': 'nexists', '¬': 'neg', '∧': 'land', '∨': 'lor',
+  '→': 'to', '←': 'gets', '↔': 'leftrightarrow', '⇒': 'Rightarrow', '⇐': 'Leftarrow',
+  '⇔': 'Leftrightarrow', '↦': 'mapsto', '↑': 'uparrow', '↓': 'downarrow',
+  '∞': 'infty', '∂': 'partial', '∇': 'nabla', '°': 'degree',
+  '…': 'ldots', '⋯': 'cdots', '⋮': 'vdots', '⋱': 'ddots',
+  // Structures
+  '√': 'sqrt', '∑': 'sum', '∏': 'prod', '∐': 'coprod',
+  '∫': 'int', '∬': 'iint', '∭': 'iiint', '∮': 'oint', '⋃': 'bigcup', '⋂': 'bigcap',
+  // Number sets (\R is \mathbb{R})
+  'ℝ': 'R', 'ℕ': 'N', 'ℤ': 'Z', 'ℚ': 'Q', 'ℂ': 'C',
+};
+
+// Unicode characters read as a plain token
+const UNICODE_TOKENS: Record<string, Omit<Token, 'position'>> = {
+  '−': { type: 'operator', value: '-' },
+  '′': { type: 'prime', value: "'" },
+};
+
+// Superscript and subscript characters with their plain counterparts
+const SUPERSCRIPT_CHARACTERS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9',
+  '⁺': '+', '⁻': '-', '⁼': '=', '⁽': '(', '⁾': ')', 'ⁿ': 'n', 'ⁱ': 'i',
+};
+
+const SUBSCRIPT_CHARACTERS: Record<string, string> = {
+  '₀': '0', '₁': '1', '₂': '2', '₃': '3', '₄': '4', '₅': '5', '₆': '6', '₇': '7', '₈': '8', '₉': '9',
+  '₊': '+', '₋': '-', '₌': '=', '₍': '(', '₎': ')',
+  'ₐ': 'a', 'ₑ': 'e', 'ₒ': 'o', 'ₓ': 'x', 'ᵢ': 'i', 'ⱼ': 'j', 'ₖ': 'k', 'ₙ': 'n',
+};
+
 // =============================================================================
 // Tokenizer Class
 // =============================================================================
@@ -76,6 +141,15 @@ export class Tokenizer {
       return this.readWhitespace(start);
     }
 
+    // Comment: skip to the end of the line
+    if (char === '%') {
+      while (this.position < this.source.length && this.source[this.position] !== '\n') {
+        this.position++;
+      }
+      this.position++;
+      return null;
+    }
+
     // Command (starts with \)
     if (char === '\\') {
       return this.readCommand(start);
@@ -112,6 +186,9 @@ export class Tokenizer {
       case '_':
         this.position++;
         return { type: 'subscript', value: '_', position: start };
+      case '\'':
+        this.position++;
+        return { type: 'prime', value: '\'', position: start };
       case '&':
         this.position++;
         return { type: 'ampersand', value: '&', position: start };
@@ -126,7 +203,6 @@ export class Tokenizer {
       case '*':
       case '/':
       case '!':
-      case '\'':
       case ',':
       case '.':
       case ':':
@@ -141,6 +217,21 @@ export class Tokenizer {
       return { type: 'text', value: char, position: start };
     }
 
+    // Unicode math characters
+    if (char in UNICODE_COMMANDS) {
+      this.position++;
+      return { type: 'command', value: '\\' + UNICODE_COMMANDS[char], position: start, raw: char };
+    }
+    if (char in UNICODE_TOKENS) {
+      this.position++;
+      return { ...UNICODE_TOKENS[char], position: start, raw: char };
+    }
+    if (char in SUPERSCRIPT_CHARACTERS || char in SUBSCRIPT_CHARACTERS) {
+      // A run of script characters becomes several tokens: ^{...} or _{...}
+      this.tokens.push(...this.readScriptCharacters(start));
+      return null;
+    }
+
     // Unknown character - treat as text
     this.position++;
     return { type: 'text', value: char, position: start };
@@ -167,7 +258,13 @@ export class Tokenizer {
         return { type: 'newline', value: '\\\\', position: start };
       }
 
-      // Single non-letter commands: \, \; \: \! \{ \} \| \  (backslash space)
+      // Escaped specials are the literal character: \& \# \$ \_
+      if (ESCAPED_CHARACTERS.has(nextChar)) {
+        this.position++;
+        return { type: 'text', value: nextChar, position: start, raw: '\\' + nextChar };
+      }
+
+      // Single non-letter commands: \, \; \: \! \{ \} \| \% \  (backslash space)
       if (!/[a-zA-Z]/.test(nextChar)) {
         this.position++;
         return { type: 'command', value: '\\' + nextChar, position: start };
@@ -190,6 +287,39 @@ export class Tokenizer {
     }
     return { type: 'number', value: this.source.slice(start, this.position), position: start };
   }
+
+  /**
+   * Read a run of superscript (x²³) or subscript (x₁₂) characters as the
+   * tokens of ^{23} or _{12}. The script and its braces take no source.
+   */
+  private readScriptCharacters(start: number): Token[] {
+    const superscript = this.source[start] in SUPERSCRIPT_CHARACTERS;
+    const characters = superscript ? SUPERSCRIPT_CHARACTERS : SUBSCRIPT_CHARACTERS;
+
+    let plain = '';
+    while (this.position < this.source.length && this.source[this.position] in characters) {
+      plain += characters[this.source[this.position]];
+      this.position++;
+    }
+
+    // Each script character stands for one plain character
+    const inner = new Tokenizer(plain).tokenize()
+      .filter((t) => t.type !== 'eof')
+      .map((t) => ({
+        ...t,
+        position: start + t.position,
+        raw: this.source.slice(start + t.position, start + t.position + t.value.length),
+      }));
+
+    return [
+      superscript
+        ? { type: 'superscript', value: '^', position: start, raw: '' }
+        : { type: 'subscript', value: '_', position: start, raw: '' },
+      { type: 'openBrace', value: '{', position: start, raw: '' },
+      ...inner,
+      { type: 'closeBrace', value: '}', position: this.position, raw: '' },
+    ];
+  }
 }
 
 // =============================================================================
@@ -207,6 +337,7 @@ export function tokenize(source: string): Token[] {
 export class TokenStream {
   private tokens: Token[];
   private position: number = 0;
+  private lastEnd: number = 0;
 
   constructor(tokens: Token[]) {
     this.tokens = tokens;
@@ -232,6 +363,10 @@ export class TokenStream {
   next(): Token {
     const token = this.peek();
     this.position++;
+    // Track where the last meaningful token ended (whitespace doesn't count)
+    if (token.type !== 'whitespace' && token.type !== 'eof') {
+      this.lastEnd = tokenEnd(token);
+    }
     return token;
   }
 
@@ -292,6 +427,13 @@ export class TokenStream {
     return null;
   }
 
+  /**
+   * Insert tokens at the current position, to be read next (macro expansion)
+   */
+  insert(tokens: readonly Token[]): void {
+    this.tokens = [...this.tokens.slice(0, this.position), ...tokens, ...this.tokens.slice(this.position)];
+  }
+
   /**
    * Skip whitespace tokens
    */
@@ -314,4 +456,25 @@ export class TokenStream {
   getPosition(): number {
     return this.peek().position;
   }
+
+  /**
+   * Get the source offset just past the last consumed non-whitespace token
+   */
+  getLastEnd(): number {
+    return this.lastEnd;
+  }
+
+  /**
+   * Get the index of the current token (for sourceSince)
+   */
+  getIndex(): number {
+    return this.position;
+  }
+
+  /**
+   * Reconstruct the source text of the tokens consumed since `index`
+   */
+  sourceSince(index: number): string {
+    return this.tokens.slice(index, this.position).map((t) => t.raw ?? t.value).join('');
+  }
 }